@@ -0,0 +1,802 @@
+"use strict";
+
+import {deflateSync, inflateSync} from "zlib";
+import {Color} from "./colors";
+import {BlendMode, CompositeObject, blendOver} from "./compositing";
+import {ImageParseError, ValidationError} from "./errors";
+import {clamp} from "./fmath";
+import {Vector2} from "./vectors";
+
+/** The ways {@link Bitmap.resize} can sample the source pixels */
+export enum ResizeFilter {
+  /** Takes the nearest source pixel, keeping hard edges */
+  Nearest=0,
+  /** Interpolates between the four nearest source pixels */
+  Bilinear=1
+}
+
+/** The bytes every PNG file starts with */
+const pngSignature: number[] = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/** The most pixels a decoded image may have, so a small file can't claim an image too big to allocate */
+const maxPixels: number = 0x4000000;
+
+/** The CRC-32 of every byte value, used to check PNG chunks */
+const crcTable: Uint32Array = new Uint32Array(256).map((_, n) => {
+  for (let k = 0; k < 8; k++) n = n & 1 ? 0xedb88320 ^ n >>> 1 : n >>> 1;
+  return n;
+});
+
+/** Class representing an image as red, green, blue and alpha bytes for each pixel, row by row from the top left */
+export class Bitmap {
+  /** The number of pixels in each row */
+  public readonly width: number;
+  /** The number of rows */
+  public readonly height: number;
+  /** The red, green, blue and alpha values of each pixel between 0 and 255 */
+  public readonly data: Uint8ClampedArray;
+
+  /**
+   * Creates a {@link Bitmap} filled with transparent black
+   * @param width - The number of pixels in each row
+   * @param height - The number of rows
+   * @param data - The pixel data to use instead of a new buffer, which isn't copied
+   */
+  public constructor(width: number, height: number, data?: Uint8ClampedArray) {
+    if (!Number.isSafeInteger(width) || !Number.isSafeInteger(height) || width < 0 || height < 0) {
+      throw new ValidationError(`Bitmap Dimensions Must Be Non-Negative Integers But Were ${width}x${height}.`, [width, height]);
+    }
+    if (data && data.length != width * height * 4) throw new ValidationError(`Expected ${width * height * 4} Bytes Of Pixel Data But Got ${data.length}.`, data);
+    this.width = width;
+    this.height = height;
+    this.data = data || new Uint8ClampedArray(width * height * 4);
+  }
+
+  /**
+   * Checks whether a pixel is inside the {@link Bitmap}
+   * @param x - The column of the pixel
+   * @param y - The row of the pixel
+   */
+  public contains(x: number, y: number): boolean {
+    return Number.isInteger(x) && Number.isInteger(y) && x >= 0 && y >= 0 && x < this.width && y < this.height;
+  }
+
+  /**
+   * Reads a pixel
+   * @param x - The column of the pixel
+   * @param y - The row of the pixel
+   */
+  public getPixel(x: number, y: number): Color {
+    let i: number = this.index(x, y);
+    return Color.fromRGB(this.data[i], this.data[i + 1], this.data[i + 2], this.data[i + 3]);
+  }
+
+  /**
+   * Writes a pixel, replacing it without blending
+   * @param x - The column of the pixel
+   * @param y - The row of the pixel
+   * @param color - The {@link Color} to write
+   */
+  public setPixel(x: number, y: number, color: Color): this {
+    this.data.set([color.red, color.green, color.blue, color.alpha], this.index(x, y));
+    return this;
+  }
+
+  /**
+   * Sets every pixel to the same value
+   * @param color - The {@link Color} to fill with
+   */
+  public fill(color: Color): this {
+    for (let i = 0; i < this.data.length; i += 4) this.data.set([color.red, color.green, color.blue, color.alpha], i);
+    return this;
+  }
+
+  /**
+   * Blends another {@link Bitmap} onto this one, clipping anything outside
+   * @param source - The {@link Bitmap} to draw
+   * @param at - The position of the top left of the source, rounded to the nearest pixel
+   * @param mode - The {@link BlendMode} to use
+   */
+  public blit(source: Bitmap, at: Vector2 = new Vector2(), mode: BlendMode = BlendMode.Normal): this {
+    if (source === this) source = this.clone();
+    let ox: number = Math.round(at.x);
+    let oy: number = Math.round(at.y);
+    for (let y = Math.max(-oy, 0); y < Math.min(source.height, this.height - oy); y++) {
+      for (let x = Math.max(-ox, 0); x < Math.min(source.width, this.width - ox); x++) {
+        let i: number = (y * source.width + x) * 4;
+        this.blend(((y + oy) * this.width + x + ox) * 4, toCompositeObject(source.data, i), mode);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Draws a one pixel wide line with Bresenham's algorithm, clipped to the {@link Bitmap} first
+   * @param from - The start point, rounded to the nearest pixel
+   * @param to - The end point, rounded to the nearest pixel
+   * @param color - The {@link Color} to draw with
+   * @param mode - The {@link BlendMode} to use
+   */
+  public drawLine(from: Vector2, to: Vector2, color: Color, mode: BlendMode = BlendMode.Normal): this {
+    let clipped: number[]|undefined = clipLine(Math.round(from.x), Math.round(from.y), Math.round(to.x), Math.round(to.y), this.width - 1, this.height - 1);
+    if (!clipped) return this;
+    let [x, y, x1, y1] = clipped.map(Math.round);
+    let source: CompositeObject = colorToCompositeObject(color);
+    let dx: number = Math.abs(x1 - x);
+    let dy: number = -Math.abs(y1 - y);
+    let sx: number = x < x1 ? 1 : -1;
+    let sy: number = y < y1 ? 1 : -1;
+    for (let error = dx + dy;;) {
+      this.blend((y * this.width + x) * 4, source, mode);
+      if (x == x1 && y == y1) break;
+      let e2: number = 2 * error;
+      if (e2 >= dy) {
+        error += dy;
+        x += sx;
+      }
+      if (e2 <= dx) {
+        error += dx;
+        y += sy;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Draws an axis aligned rectangle, clipped to the {@link Bitmap}
+   * @param from - One corner, rounded to the nearest pixel
+   * @param to - The opposite corner, rounded to the nearest pixel
+   * @param color - The {@link Color} to draw with
+   * @param filled - Whether to fill the rectangle instead of drawing its outline
+   * @param mode - The {@link BlendMode} to use
+   */
+  public drawRect(from: Vector2, to: Vector2, color: Color, filled: boolean = false, mode: BlendMode = BlendMode.Normal): this {
+    let x0: number = Math.round(Math.min(from.x, to.x));
+    let y0: number = Math.round(Math.min(from.y, to.y));
+    let x1: number = Math.round(Math.max(from.x, to.x));
+    let y1: number = Math.round(Math.max(from.y, to.y));
+    let source: CompositeObject = colorToCompositeObject(color);
+    for (let y = Math.max(y0, 0); y <= Math.min(y1, this.height - 1); y++) {
+      let edge: boolean = filled || y == y0 || y == y1;
+      for (let x = Math.max(x0, 0); x <= Math.min(x1, this.width - 1); x++) {
+        if (edge || x == x0 || x == x1) this.blend((y * this.width + x) * 4, source, mode);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Draws a circle, clipped to the {@link Bitmap}
+   * @param center - The center, rounded to the nearest pixel
+   * @param radius - The radius in pixels, rounded to the nearest pixel
+   * @param color - The {@link Color} to draw with
+   * @param filled - Whether to fill the circle instead of drawing its outline
+   * @param mode - The {@link BlendMode} to use
+   */
+  public drawCircle(center: Vector2, radius: number, color: Color, filled: boolean = false, mode: BlendMode = BlendMode.Normal): this {
+    let cx: number = Math.round(center.x);
+    let cy: number = Math.round(center.y);
+    let r: number = Math.round(Math.abs(radius));
+    let source: CompositeObject = colorToCompositeObject(color);
+    let inside = (dx: number, dy: number): boolean => dx * dx + dy * dy <= r * r + r;
+    for (let y = Math.max(cy - r, 0); y <= Math.min(cy + r, this.height - 1); y++) {
+      for (let x = Math.max(cx - r, 0); x <= Math.min(cx + r, this.width - 1); x++) {
+        let dx: number = x - cx;
+        let dy: number = y - cy;
+        if (!inside(dx, dy)) continue;
+        if (filled || !inside(dx + 1, dy) || !inside(dx - 1, dy) || !inside(dx, dy + 1) || !inside(dx, dy - 1)) this.blend((y * this.width + x) * 4, source, mode);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Convolves every channel with a kernel, treating pixels past the edges as copies of the nearest edge pixel
+   * @param kernel - The weights as rows, with an odd number of rows and columns centered on each pixel
+   * @param divisor - The number the weighted sum is divided by, defaulting to the sum of the weights or 1 if they sum to 0
+   */
+  public convolve(kernel: number[][], divisor?: number): this {
+    let rows: number = kernel.length;
+    let columns: number = rows > 0 ? kernel[0].length : 0;
+    if (rows % 2 == 0 || columns % 2 == 0 || kernel.some((row) => row.length != columns)) {
+      throw new ValidationError("Kernels Must Have An Odd Number Of Rows And Columns.", kernel);
+    }
+    let d: number = divisor === undefined ? kernel.reduce((sum, row) => row.reduce((s, k) => s + k, sum), 0) || 1 : divisor;
+    let source: Float32Array = premultiply(this.data);
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        let sum: number[] = [0, 0, 0, 0];
+        kernel.forEach((row, ky) => row.forEach((k, kx) => {
+          let sx: number = clamp(x + kx - (columns >> 1), this.width - 1);
+          let sy: number = clamp(y + ky - (rows >> 1), this.height - 1);
+          for (let c = 0; c < 4; c++) sum[c] += source[(sy * this.width + sx) * 4 + c] * k;
+        }));
+        unpremultiply(this.data, (y * this.width + x) * 4, sum.map((v) => v / d));
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Replaces every pixel with the result of a callback
+   * @param fn - Takes the {@link Color} of each pixel with its column and row and returns the new {@link Color}
+   */
+  public map(fn: (color: Color, x: number, y: number) => Color): this {
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) this.setPixel(x, y, fn(this.getPixel(x, y), x, y));
+    }
+    return this;
+  }
+
+  /** Creates a copy of the {@link Bitmap} */
+  public clone(): Bitmap {
+    return new Bitmap(this.width, this.height, this.data.slice());
+  }
+
+  /** Encodes the {@link Bitmap} as a binary PPM, dropping the alpha values */
+  public toPPM(): Uint8Array {
+    checkEncodable(this);
+    let header: number[] = ascii(`P6\n${this.width} ${this.height}\n255\n`);
+    let bytes: Uint8Array = new Uint8Array(header.length + this.width * this.height * 3);
+    bytes.set(header);
+    for (let i = 0, o = header.length; i < this.data.length; i += 4, o += 3) bytes.set(this.data.subarray(i, i + 3), o);
+    return bytes;
+  }
+
+  /** Encodes the {@link Bitmap} as a PAM with the RGB_ALPHA tuple type */
+  public toPAM(): Uint8Array {
+    checkEncodable(this);
+    let header: number[] = ascii(`P7\nWIDTH ${this.width}\nHEIGHT ${this.height}\nDEPTH 4\nMAXVAL 255\nTUPLTYPE RGB_ALPHA\nENDHDR\n`);
+    let bytes: Uint8Array = new Uint8Array(header.length + this.data.length);
+    bytes.set(header);
+    bytes.set(this.data, header.length);
+    return bytes;
+  }
+
+  /** Encodes the {@link Bitmap} as a 32-bit BMP with a version 4 header, keeping the alpha values */
+  public toBMP(): Uint8Array {
+    checkEncodable(this);
+    let size: number = this.width * this.height * 4;
+    let bytes: Uint8Array = new Uint8Array(122 + size);
+    let view: DataView = new DataView(bytes.buffer);
+    bytes.set(ascii("BM"));
+    view.setUint32(2, bytes.length, true);
+    view.setUint32(10, 122, true);
+    view.setUint32(14, 108, true);
+    view.setInt32(18, this.width, true);
+    view.setInt32(22, this.height, true);
+    view.setUint16(26, 1, true);
+    view.setUint16(28, 32, true);
+    view.setUint32(30, 3, true);
+    view.setUint32(34, size, true);
+    view.setInt32(38, 2835, true);
+    view.setInt32(42, 2835, true);
+    [0x00ff0000, 0x0000ff00, 0x000000ff, 0xff000000].forEach((mask, i) => view.setUint32(54 + i * 4, mask, true));
+    bytes.set(ascii("BGRs"), 70);
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        let i: number = (y * this.width + x) * 4;
+        let o: number = 122 + ((this.height - 1 - y) * this.width + x) * 4;
+        bytes.set([this.data[i + 2], this.data[i + 1], this.data[i], this.data[i + 3]], o);
+      }
+    }
+    return bytes;
+  }
+
+  /**
+   * Encodes the {@link Bitmap} as an 8-bit RGBA PNG, choosing the filter of each row that is likely to compress best
+   * @param level - The zlib compression level between 0 and 9
+   */
+  public toPNG(level: number = 6): Uint8Array {
+    checkEncodable(this);
+    let stride: number = this.width * 4;
+    let raw: Uint8Array = new Uint8Array((stride + 1) * this.height);
+    let previous: Uint8Array = new Uint8Array(stride);
+    for (let y = 0; y < this.height; y++) {
+      let row: Uint8Array = new Uint8Array(this.data.buffer, this.data.byteOffset + y * stride, stride);
+      let best: Uint8Array = row;
+      let bestFilter: number = 0;
+      let bestScore: number = Infinity;
+      for (let filter = 0; filter < 5; filter++) {
+        let filtered: Uint8Array = row.map((v, i) => v - predict(filter, i < 4 ? 0 : row[i - 4], previous[i], i < 4 ? 0 : previous[i - 4]));
+        let score: number = filtered.reduce((sum, v) => sum + (v < 128 ? v : 256 - v), 0);
+        if (score < bestScore) {
+          best = filtered;
+          bestFilter = filter;
+          bestScore = score;
+        }
+      }
+      raw[y * (stride + 1)] = bestFilter;
+      raw.set(best, y * (stride + 1) + 1);
+      previous = row;
+    }
+    let header: Uint8Array = new Uint8Array(13);
+    let view: DataView = new DataView(header.buffer);
+    view.setUint32(0, this.width);
+    view.setUint32(4, this.height);
+    header.set([8, 6, 0, 0, 0], 8);
+    let chunks: Uint8Array[] = [chunk("IHDR", header), chunk("IDAT", deflateSync(raw, {level})), chunk("IEND", new Uint8Array(0))];
+    return concat([new Uint8Array(pngSignature)].concat(chunks));
+  }
+
+  /**
+   * Finds the byte index of a pixel, throwing if it's outside the {@link Bitmap}
+   * @param x - The column of the pixel
+   * @param y - The row of the pixel
+   */
+  private index(x: number, y: number): number {
+    if (!this.contains(x, y)) throw new ValidationError(`Pixel (${x}, ${y}) Is Outside The ${this.width}x${this.height} Bitmap.`, [x, y]);
+    return (y * this.width + x) * 4;
+  }
+
+  /**
+   * Blends a color onto a pixel and composites it with source-over
+   * @param i - The byte index of the pixel
+   * @param source - The {@link CompositeObject} to blend
+   * @param mode - The {@link BlendMode} to use
+   */
+  private blend(i: number, source: CompositeObject, mode: BlendMode): void {
+    let result: CompositeObject = mode == BlendMode.Normal && source.alpha == 1 ? source : blendOver(source, toCompositeObject(this.data, i), mode);
+    this.data.set(result.rgb.concat(result.alpha).map((v) => Math.round(v * 255)), i);
+  }
+
+  /**
+   * Creates a resized copy of a {@link Bitmap}
+   * @param bitmap - The {@link Bitmap} to resize
+   * @param width - The new number of pixels in each row
+   * @param height - The new number of rows
+   * @param filter - The {@link ResizeFilter} to sample with
+   */
+  public static resize(bitmap: Bitmap, width: number, height: number, filter: ResizeFilter = ResizeFilter.Bilinear): Bitmap {
+    let result: Bitmap = new Bitmap(width, height);
+    if (bitmap.width == 0 || bitmap.height == 0) return result;
+    let source: Float32Array = premultiply(bitmap.data);
+    for (let y = 0; y < height; y++) {
+      let sy: number = (y + 0.5) * bitmap.height / height - 0.5;
+      for (let x = 0; x < width; x++) {
+        let sx: number = (x + 0.5) * bitmap.width / width - 0.5;
+        let o: number = (y * width + x) * 4;
+        if (filter == ResizeFilter.Nearest) {
+          result.data.set(bitmap.data.subarray(...pixelRange(bitmap, Math.round(sx), Math.round(sy))), o);
+          continue;
+        }
+        let x0: number = Math.floor(sx);
+        let y0: number = Math.floor(sy);
+        let fx: number = sx - x0;
+        let fy: number = sy - y0;
+        let sum: number[] = [0, 0, 0, 0];
+        [[x0, y0, (1 - fx) * (1 - fy)], [x0 + 1, y0, fx * (1 - fy)], [x0, y0 + 1, (1 - fx) * fy], [x0 + 1, y0 + 1, fx * fy]].forEach(([px, py, w]) => {
+          let i: number = pixelRange(bitmap, px, py)[0];
+          for (let c = 0; c < 4; c++) sum[c] += source[i + c] * w;
+        });
+        unpremultiply(result.data, o, sum);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Decodes a PNG, PPM, PGM, PAM or BMP, detected from the first bytes
+   * @param data - The encoded image
+   */
+  public static decode(data: Uint8Array|ArrayBuffer): Bitmap {
+    let bytes: Uint8Array = data instanceof Uint8Array ? data : new Uint8Array(data);
+    let magic: string = String.fromCharCode(...bytes.subarray(0, 2));
+    if (pngSignature.every((v, i) => bytes[i] == v)) return Bitmap.fromPNG(bytes);
+    if (magic == "BM") return Bitmap.fromBMP(bytes);
+    if (magic == "P7") return Bitmap.fromPAM(bytes);
+    if (/^P[2356]$/.test(magic)) return Bitmap.fromPPM(bytes);
+    throw new ImageParseError("Unrecognized Image Format.", data);
+  }
+
+  /**
+   * Decodes a PPM or PGM, in either the plain or binary form
+   * @param data - The encoded image
+   */
+  public static fromPPM(data: Uint8Array|ArrayBuffer): Bitmap {
+    let bytes: Uint8Array = data instanceof Uint8Array ? data : new Uint8Array(data);
+    let {tokens, end} = readTokens(bytes, 4);
+    let magic: string = tokens[0];
+    let [width, height, max] = tokens.slice(1).map(Number);
+    if (!/^P[2356]$/.test(magic)) throw new ImageParseError("Expected A PPM Or PGM Starting With P2, P3, P5 Or P6.", data);
+    let channels: number = magic == "P2" || magic == "P5" ? 1 : 3;
+    checkDimensions(width, height, max, data);
+    let count: number = width * height * channels;
+    let samples: number[];
+    if (magic == "P2" || magic == "P3") {
+      samples = readTokens(bytes, 4 + count).tokens.slice(4).map(Number);
+      if (samples.length < count || samples.some((v) => !(v >= 0 && v <= max))) throw new ImageParseError("Invalid Or Missing PPM Samples.", data);
+    } else {
+      samples = readSamples(bytes, end + 1, count, max, data);
+    }
+    let bitmap: Bitmap = new Bitmap(width, height);
+    writeSamples(bitmap, samples, channels, max);
+    return bitmap;
+  }
+
+  /**
+   * Decodes a PAM with a depth of 1 to 4, read as grayscale, grayscale with alpha, RGB or RGB with alpha
+   * @param data - The encoded image
+   */
+  public static fromPAM(data: Uint8Array|ArrayBuffer): Bitmap {
+    let bytes: Uint8Array = data instanceof Uint8Array ? data : new Uint8Array(data);
+    let header: {[key: string]: string} = {};
+    let offset: number = 0;
+    for (let line: string = ""; line != "ENDHDR";) {
+      let end: number = bytes.indexOf(10, offset);
+      if (end < 0) throw new ImageParseError("Expected ENDHDR In PAM Header.", data);
+      line = String.fromCharCode(...bytes.subarray(offset, end)).trim();
+      offset = end + 1;
+      let [key, ...value] = line.split(/\s+/);
+      if (key && key[0] != "#") header[key] = header[key] ? `${header[key]} ${value.join(" ")}` : value.join(" ");
+    }
+    if (header.P7 === undefined) throw new ImageParseError("Expected A PAM Starting With P7.", data);
+    let [width, height, depth, max] = [header.WIDTH, header.HEIGHT, header.DEPTH, header.MAXVAL].map(Number);
+    if (!(depth >= 1 && depth <= 4)) throw new ImageParseError(`Unsupported PAM Depth ${header.DEPTH}.`, data);
+    checkDimensions(width, height, max, data);
+    let samples: number[] = readSamples(bytes, offset, width * height * depth, max, data);
+    let bitmap: Bitmap = new Bitmap(width, height);
+    writeSamples(bitmap, samples, depth, max);
+    return bitmap;
+  }
+
+  /**
+   * Decodes a BMP with 1, 4, 8, 16, 24 or 32 bits per pixel that isn't run-length encoded
+   * @param data - The encoded image
+   */
+  public static fromBMP(data: Uint8Array|ArrayBuffer): Bitmap {
+    let bytes: Uint8Array = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (bytes.length < 54 || bytes[0] != 66 || bytes[1] != 77) throw new ImageParseError("Expected A BMP Starting With BM.", data);
+    let view: DataView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset: number = view.getUint32(10, true);
+    let headerSize: number = view.getUint32(14, true);
+    let width: number = view.getInt32(18, true);
+    let height: number = view.getInt32(22, true);
+    let bits: number = view.getUint16(28, true);
+    let compression: number = view.getUint32(30, true);
+    if (headerSize < 40) throw new ImageParseError("BMP Headers Older Than Version 3 Are Not Supported.", data);
+    if ([1, 4, 8, 16, 24, 32].indexOf(bits) < 0 || !(compression == 0 || (compression == 3 || compression == 6) && bits >= 16)) {
+      throw new ImageParseError(`Unsupported BMP With ${bits} Bits Per Pixel And Compression ${compression}.`, data);
+    }
+
+    let masks: number[] = bits == 16 ? [0x7c00, 0x3e0, 0x1f, 0] : [0xff0000, 0xff00, 0xff, 0];
+    if (compression != 0) {
+      let count: number = compression == 6 || headerSize >= 56 ? 4 : 3;
+      for (let i = 0; i < count; i++) masks[i] = view.getUint32(54 + i * 4, true);
+    }
+    let palette: number[][] = [];
+    if (bits <= 8) {
+      let count: number = Math.min(view.getUint32(46, true) || 1 << bits, 1 << bits);
+      for (let i = 0, p = 14 + headerSize; i < count; i++, p += 4) palette.push([bytes[p + 2], bytes[p + 1], bytes[p], 255]);
+    }
+
+    checkDimensions(Math.abs(width), Math.abs(height), 255, data);
+    let stride: number = Math.floor((bits * Math.abs(width) + 31) / 32) * 4;
+    if (offset + stride * Math.abs(height) > bytes.length) throw new ImageParseError("Unexpected End Of BMP Pixel Data.", data);
+    let bitmap: Bitmap = new Bitmap(Math.abs(width), Math.abs(height));
+    for (let y = 0; y < bitmap.height; y++) {
+      let row: number = offset + (height < 0 ? y : bitmap.height - 1 - y) * stride;
+      for (let x = 0; x < bitmap.width; x++) {
+        let rgba: number[];
+        if (bits <= 8) {
+          let index: number = bytes[row + (x * bits >> 3)] >> 8 - bits - x * bits % 8 & (1 << bits) - 1;
+          rgba = palette[index] || [0, 0, 0, 255];
+        } else if (bits == 24) {
+          rgba = [bytes[row + x * 3 + 2], bytes[row + x * 3 + 1], bytes[row + x * 3], 255];
+        } else {
+          let v: number = bits == 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+          rgba = masks.map((mask, i) => i == 3 && mask == 0 ? 255 : readMask(v, mask));
+        }
+        bitmap.data.set(rgba, (y * bitmap.width + x) * 4);
+      }
+    }
+    return bitmap;
+  }
+
+  /**
+   * Decodes a PNG of any color type and bit depth that isn't interlaced
+   * @param data - The encoded image
+   */
+  public static fromPNG(data: Uint8Array|ArrayBuffer): Bitmap {
+    let bytes: Uint8Array = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (!pngSignature.every((v, i) => bytes[i] == v)) throw new ImageParseError("Expected A PNG Signature.", data);
+    let view: DataView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let chunks: {[type: string]: Uint8Array[]} = {};
+    for (let offset = pngSignature.length, type = ""; type != "IEND"; ) {
+      if (offset + 12 > bytes.length) throw new ImageParseError("Unexpected End Of PNG Data.", data);
+      let length: number = view.getUint32(offset);
+      type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+      if (offset + 12 + length > bytes.length) throw new ImageParseError(`Unexpected End Of PNG Chunk ${type}.`, data);
+      if (crc(bytes.subarray(offset + 4, offset + 8 + length)) != view.getUint32(offset + 8 + length)) throw new ImageParseError(`PNG Chunk ${type} Has A Bad CRC.`, data);
+      (chunks[type] = chunks[type] || []).push(bytes.subarray(offset + 8, offset + 8 + length));
+      offset += 12 + length;
+    }
+    if (!chunks.IHDR || chunks.IHDR[0].length != 13 || !chunks.IDAT) throw new ImageParseError("Expected IHDR And IDAT Chunks In PNG.", data);
+
+    let header: DataView = new DataView(chunks.IHDR[0].buffer, chunks.IHDR[0].byteOffset, 13);
+    let [depth, type, , , interlace] = chunks.IHDR[0].subarray(8, 13);
+    let channels: number = [1, 0, 3, 1, 2, 0, 4][type];
+    if (!channels || [1, 2, 4, 8, 16].indexOf(depth) < 0) throw new ImageParseError(`Unsupported PNG Color Type ${type} With Bit Depth ${depth}.`, data);
+    if (interlace != 0) throw new ImageParseError("Interlaced PNGs Are Not Supported.", data);
+    let width: number = header.getUint32(0);
+    let height: number = header.getUint32(4);
+    checkDimensions(width, height, 255, data);
+
+    let raw: Uint8Array;
+    try {
+      raw = inflateSync(concat(chunks.IDAT));
+    } catch (e) {
+      throw new ImageParseError("PNG Image Data Couldn't Be Decompressed.", data);
+    }
+    let stride: number = Math.ceil(width * channels * depth / 8);
+    let step: number = Math.ceil(channels * depth / 8);
+    if (raw.length < (stride + 1) * height) throw new ImageParseError("Unexpected End Of PNG Image Data.", data);
+    let bitmap: Bitmap = new Bitmap(width, height);
+
+    let palette: Uint8Array = chunks.PLTE ? chunks.PLTE[0] : new Uint8Array(0);
+    let transparency: Uint8Array = chunks.tRNS ? chunks.tRNS[0] : new Uint8Array(0);
+    let max: number = (1 << depth) - 1;
+    let previous: Uint8Array = new Uint8Array(stride);
+    for (let y = 0; y < bitmap.height; y++) {
+      let filter: number = raw[y * (stride + 1)];
+      if (filter > 4) throw new ImageParseError(`Unknown PNG Filter ${filter}.`, data);
+      let row: Uint8Array = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+      for (let i = 0; i < stride; i++) row[i] += predict(filter, i < step ? 0 : row[i - step], previous[i], i < step ? 0 : previous[i - step]);
+      previous = row;
+      for (let x = 0; x < bitmap.width; x++) {
+        let samples: number[] = [];
+        for (let c = 0; c < channels; c++) {
+          let bit: number = (x * channels + c) * depth;
+          samples.push(depth == 16 ? row[bit >> 3] << 8 | row[(bit >> 3) + 1] : row[bit >> 3] >> 8 - depth - bit % 8 & max);
+        }
+        let rgba: number[];
+        if (type == 3) {
+          let p: number = samples[0] * 3;
+          if (p + 3 > palette.length) throw new ImageParseError(`PNG Palette Index ${samples[0]} Is Out Of Range.`, data);
+          rgba = [palette[p], palette[p + 1], palette[p + 2], samples[0] < transparency.length ? transparency[samples[0]] : 255];
+        } else {
+          let scaled: number[] = samples.map((v) => Math.round(v * 255 / max));
+          let keyed: boolean = transparency.length >= channels * 2 && samples.every((v, i) => v == (transparency[i * 2] << 8 | transparency[i * 2 + 1]));
+          let alpha: number = type == 4 || type == 6 ? scaled[channels - 1] : keyed ? 0 : 255;
+          rgba = type == 0 || type == 4 ? [scaled[0], scaled[0], scaled[0], alpha] : [scaled[0], scaled[1], scaled[2], alpha];
+        }
+        bitmap.data.set(rgba, (y * bitmap.width + x) * 4);
+      }
+    }
+    return bitmap;
+  }
+}
+
+/**
+ * Reads a pixel as a {@link CompositeObject}
+ * @param data - The pixel data
+ * @param i - The byte index of the pixel
+ */
+function toCompositeObject(data: Uint8ClampedArray, i: number): CompositeObject {
+  return {rgb: [data[i] / 255, data[i + 1] / 255, data[i + 2] / 255], alpha: data[i + 3] / 255};
+}
+
+/**
+ * Converts a {@link Color} to a {@link CompositeObject}
+ * @param color - The {@link Color} to convert
+ */
+function colorToCompositeObject(color: Color): CompositeObject {
+  return {rgb: [color.red / 255, color.green / 255, color.blue / 255], alpha: color.alpha / 255};
+}
+
+/**
+ * Clips a line to a rectangle from the origin with the Liang-Barsky algorithm
+ * @param x0 - The x value of the start point
+ * @param y0 - The y value of the start point
+ * @param x1 - The x value of the end point
+ * @param y1 - The y value of the end point
+ * @param maxX - The largest x value inside the rectangle
+ * @param maxY - The largest y value inside the rectangle
+ * @returns The clipped start and end points as x0, y0, x1, y1, or undefined if no part of the line is inside
+ */
+function clipLine(x0: number, y0: number, x1: number, y1: number, maxX: number, maxY: number): number[]|undefined {
+  if (![x0, y0, x1, y1].every(isFinite) || maxX < 0 || maxY < 0) return undefined;
+  let dx: number = x1 - x0;
+  let dy: number = y1 - y0;
+  let start: number = 0;
+  let end: number = 1;
+  let edges: number[][] = [[-dx, x0], [dx, maxX - x0], [-dy, y0], [dy, maxY - y0]];
+  for (let [p, q] of edges) {
+    if (p == 0) {
+      if (q < 0) return undefined;
+      continue;
+    }
+    let t: number = q / p;
+    if (p < 0) start = Math.max(start, t);
+    else end = Math.min(end, t);
+    if (start > end) return undefined;
+  }
+  return [clamp(x0 + start * dx, maxX), clamp(y0 + start * dy, maxY), clamp(x0 + end * dx, maxX), clamp(y0 + end * dy, maxY)];
+}
+
+/**
+ * Multiplies the red, green and blue values of every pixel by its alpha, so transparent pixels don't darken filtered results
+ * @param data - The pixel data
+ */
+function premultiply(data: Uint8ClampedArray): Float32Array {
+  return new Float32Array(data.length).map((_, i) => i % 4 == 3 ? data[i] : data[i] * data[i - i % 4 + 3] / 255);
+}
+
+/**
+ * Writes a premultiplied pixel back as unpremultiplied bytes
+ * @param data - The pixel data
+ * @param i - The byte index of the pixel
+ * @param rgba - The premultiplied red, green, blue and alpha values between 0 and 255
+ */
+function unpremultiply(data: Uint8ClampedArray, i: number, rgba: number[]): void {
+  let alpha: number = clamp(rgba[3], 255);
+  data.set(alpha == 0 ? [0, 0, 0, 0] : [rgba[0] * 255 / alpha, rgba[1] * 255 / alpha, rgba[2] * 255 / alpha, alpha].map(Math.round), i);
+}
+
+/**
+ * Finds the byte range of a pixel, clamping the column and row to the edges
+ * @param bitmap - The {@link Bitmap}
+ * @param x - The column of the pixel
+ * @param y - The row of the pixel
+ */
+function pixelRange(bitmap: Bitmap, x: number, y: number): [number, number] {
+  let i: number = (clamp(y, bitmap.height - 1) * bitmap.width + clamp(x, bitmap.width - 1)) * 4;
+  return [i, i + 4];
+}
+
+/**
+ * Throws a {@link ValidationError} if a bitmap has no pixels, since the formats it's encoded to need at least 1
+ * @param bitmap - The bitmap to encode
+ */
+function checkEncodable(bitmap: Bitmap): void {
+  if (bitmap.width < 1 || bitmap.height < 1) throw new ValidationError(`Can't Encode A Bitmap With No Pixels But This Is ${bitmap.width}x${bitmap.height}.`, bitmap);
+}
+
+/**
+ * Converts a string to its character codes
+ * @param s - The string, which should only contain ASCII characters
+ */
+function ascii(s: string): number[] {
+  return s.split("").map((c) => c.charCodeAt(0));
+}
+
+/**
+ * Finds the PNG filter prediction of a byte from its neighbors
+ * @param filter - The PNG filter type between 0 and 4
+ * @param a - The byte one pixel to the left
+ * @param b - The byte one row up
+ * @param c - The byte one pixel to the left and one row up
+ */
+function predict(filter: number, a: number, b: number, c: number): number {
+  switch (filter) {
+    case 1: return a;
+    case 2: return b;
+    case 3: return (a + b) >> 1;
+    case 4: {
+      let pa: number = Math.abs(b - c);
+      let pb: number = Math.abs(a - c);
+      let pc: number = Math.abs(a + b - 2 * c);
+      return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+    }
+    default: return 0;
+  }
+}
+
+/**
+ * Finds the CRC-32 of bytes
+ * @param bytes - The bytes to check
+ */
+function crc(bytes: Uint8Array): number {
+  let c: number = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = crcTable[(c ^ bytes[i]) & 0xff] ^ c >>> 8;
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Joins byte arrays into one
+ * @param arrays - The byte arrays in order
+ */
+function concat(arrays: Uint8Array[]): Uint8Array {
+  let bytes: Uint8Array = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset: number = 0;
+  arrays.forEach((a) => {
+    bytes.set(a, offset);
+    offset += a.length;
+  });
+  return bytes;
+}
+
+/**
+ * Builds a PNG chunk with its length and CRC
+ * @param type - The four letter chunk type
+ * @param data - The chunk data
+ */
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  let bytes: Uint8Array = new Uint8Array(data.length + 12);
+  let view: DataView = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  bytes.set(ascii(type), 4);
+  bytes.set(data, 8);
+  view.setUint32(data.length + 8, crc(bytes.subarray(4, data.length + 8)));
+  return bytes;
+}
+
+/**
+ * Reads a channel out of a BMP pixel with a bit mask, scaling it to between 0 and 255
+ * @param v - The pixel value
+ * @param mask - The bit mask of the channel
+ */
+function readMask(v: number, mask: number): number {
+  if (mask == 0) return 0;
+  let shift: number = 0;
+  while (!(mask >>> shift & 1)) shift++;
+  let max: number = mask >>> shift;
+  return Math.round(((v & mask) >>> shift) * 255 / max);
+}
+
+/**
+ * Throws an {@link ImageParseError} if decoded dimensions or the maximum sample are invalid, or the image has more pixels than can be decoded
+ * @param width - The decoded number of pixels in each row
+ * @param height - The decoded number of rows
+ * @param max - The decoded maximum sample value
+ * @param data - The encoded image
+ */
+function checkDimensions(width: number, height: number, max: number, data: unknown): void {
+  if (!Number.isSafeInteger(width) || !Number.isSafeInteger(height) || width < 1 || height < 1) throw new ImageParseError(`Invalid Image Dimensions ${width}x${height}.`, data);
+  if (width * height > maxPixels) throw new ImageParseError(`Images Can Have At Most ${maxPixels} Pixels But This Has ${width}x${height}.`, data);
+  if (!Number.isInteger(max) || max < 1 || max > 65535) throw new ImageParseError(`Invalid Maximum Sample Value ${max}.`, data);
+}
+
+/**
+ * Reads whitespace separated tokens from the start of a Netpbm image, skipping comments
+ * @param bytes - The encoded image
+ * @param count - The number of tokens to read
+ * @returns The tokens and the index of the character after the last one
+ */
+function readTokens(bytes: Uint8Array, count: number): {tokens: string[], end: number} {
+  let tokens: string[] = [];
+  let i: number = 0;
+  while (tokens.length < count && i < bytes.length) {
+    if (bytes[i] == 35) {
+      while (i < bytes.length && bytes[i] != 10 && bytes[i] != 13) i++;
+    } else if (/\s/.test(String.fromCharCode(bytes[i]))) {
+      i++;
+    } else {
+      let start: number = i;
+      while (i < bytes.length && !/[\s#]/.test(String.fromCharCode(bytes[i]))) i++;
+      tokens.push(String.fromCharCode(...bytes.subarray(start, i)));
+    }
+  }
+  return {tokens, end: i};
+}
+
+/**
+ * Reads binary Netpbm samples, which take 2 big-endian bytes when the maximum is over 255
+ * @param bytes - The encoded image
+ * @param offset - The index of the first sample
+ * @param count - The number of samples
+ * @param max - The maximum sample value
+ * @param data - The encoded image, for errors
+ */
+function readSamples(bytes: Uint8Array, offset: number, count: number, max: number, data: unknown): number[] {
+  let size: number = max > 255 ? 2 : 1;
+  if (offset + count * size > bytes.length) throw new ImageParseError("Unexpected End Of Image Data.", data);
+  let samples: number[] = [];
+  for (let i = 0; i < count; i++) samples.push(size == 2 ? bytes[offset + i * 2] << 8 | bytes[offset + i * 2 + 1] : bytes[offset + i]);
+  return samples;
+}
+
+/**
+ * Writes Netpbm samples into a {@link Bitmap}, treating 1 or 2 channels as grayscale and 2 or 4 channels as having alpha
+ * @param bitmap - The {@link Bitmap} to write into
+ * @param samples - The samples of every pixel in order
+ * @param channels - The number of samples per pixel
+ * @param max - The maximum sample value
+ */
+function writeSamples(bitmap: Bitmap, samples: number[], channels: number, max: number): void {
+  for (let p = 0; p < bitmap.width * bitmap.height; p++) {
+    let s: number[] = samples.slice(p * channels, (p + 1) * channels).map((v) => Math.round(v * 255 / max));
+    let alpha: number = channels % 2 == 0 ? s[channels - 1] : 255;
+    bitmap.data.set(channels < 3 ? [s[0], s[0], s[0], alpha] : [s[0], s[1], s[2], alpha], p * 4);
+  }
+}
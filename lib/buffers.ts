@@ -0,0 +1,400 @@
+"use strict";
+
+import {Color} from "./colors";
+import {ValidationError} from "./errors";
+import {clamp} from "./fmath";
+import {Vector2, Vector3} from "./vectors";
+
+/** Class representing many {@link Vector2}s stored as a structure of arrays, one {@link Float32Array} per component */
+export class Vector2Array {
+  /** The x components */
+  public readonly x: Float32Array;
+  /** The y components */
+  public readonly y: Float32Array;
+
+  /**
+   * Creates a {@link Vector2Array} filled with zeros
+   * @param length - The number of vectors
+   */
+  public constructor(length: number) {
+    this.x = new Float32Array(length);
+    this.y = new Float32Array(length);
+  }
+
+  /** The number of vectors */
+  public get length(): number {
+    return this.x.length;
+  }
+
+  /**
+   * Reads a vector
+   * @param i - The index of the vector
+   * @param out - The {@link Vector2} to write into, avoiding an allocation
+   */
+  public get(i: number, out: Vector2 = new Vector2()): Vector2 {
+    return out.set(this.x[i], this.y[i]);
+  }
+
+  /**
+   * Writes a vector
+   * @param i - The index of the vector
+   * @param a - Either a number to be used as the x value or a {@link Vector2}
+   * @param b - A number to be used as the y value
+   */
+  public set(i: number, a: number|Vector2, b?: number): this {
+    if (a instanceof Vector2) {
+      this.x[i] = a.x;
+      this.y[i] = a.y;
+    } else {
+      this.x[i] = a;
+      this.y[i] = b === undefined ? a : b;
+    }
+    return this;
+  }
+
+  /**
+   * Sets every vector to the same value
+   * @param v - The {@link Vector2} to fill with
+   */
+  public fill(v: Vector2): this {
+    this.x.fill(v.x);
+    this.y.fill(v.y);
+    return this;
+  }
+
+  /**
+   * Adds either the matching vector of another {@link Vector2Array} or the same {@link Vector2} to every vector
+   * @param other - A {@link Vector2Array} of at least the same length or a {@link Vector2}
+   */
+  public add(other: Vector2Array|Vector2): this {
+    return this.addScaled(other, 1);
+  }
+
+  /**
+   * Subtracts either the matching vector of another {@link Vector2Array} or the same {@link Vector2} from every vector
+   * @param other - A {@link Vector2Array} of at least the same length or a {@link Vector2}
+   */
+  public sub(other: Vector2Array|Vector2): this {
+    return this.addScaled(other, -1);
+  }
+
+  /**
+   * Adds a scaled value to every vector, such as a velocity multiplied by a time step
+   * @param other - A {@link Vector2Array} of at least the same length or a {@link Vector2}
+   * @param s - The number to scale the added value by
+   */
+  public addScaled(other: Vector2Array|Vector2, s: number): this {
+    let {x, y} = this;
+    if (other instanceof Vector2Array) {
+      if (other.length < this.length) throw new ValidationError(`Expected At Least ${this.length} Vectors But Got ${other.length}.`, other);
+      for (let i = 0; i < x.length; i++) {
+        x[i] += other.x[i] * s;
+        y[i] += other.y[i] * s;
+      }
+    } else {
+      let ox: number = other.x * s;
+      let oy: number = other.y * s;
+      for (let i = 0; i < x.length; i++) {
+        x[i] += ox;
+        y[i] += oy;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Multiplies every vector by a number
+   * @param s - The number to scale by
+   */
+  public scale(s: number): this {
+    let {x, y} = this;
+    for (let i = 0; i < x.length; i++) {
+      x[i] *= s;
+      y[i] *= s;
+    }
+    return this;
+  }
+
+  /** Normalizes every vector, leaving zero length vectors untouched */
+  public normalize(): this {
+    let {x, y} = this;
+    for (let i = 0; i < x.length; i++) {
+      let sqr: number = x[i] * x[i] + y[i] * y[i];
+      if (sqr == 0) continue;
+      let inv: number = 1 / Math.sqrt(sqr);
+      x[i] *= inv;
+      y[i] *= inv;
+    }
+    return this;
+  }
+
+  /** Converts the {@link Vector2Array} to an {@link Array} of {@link Vector2}s */
+  public toArray(): Vector2[] {
+    let vectors: Vector2[] = [];
+    for (let i = 0; i < this.length; i++) {
+      vectors.push(this.get(i));
+    }
+    return vectors;
+  }
+
+  /**
+   * Creates a {@link Vector2Array} from {@link Vector2}s
+   * @param vectors - The {@link Vector2}s to copy
+   */
+  public static from(vectors: Vector2[]): Vector2Array {
+    let array: Vector2Array = new Vector2Array(vectors.length);
+    vectors.forEach((v, i) => array.set(i, v));
+    return array;
+  }
+}
+
+/** Class representing many {@link Vector3}s stored as a structure of arrays, one {@link Float32Array} per component */
+export class Vector3Array {
+  /** The x components */
+  public readonly x: Float32Array;
+  /** The y components */
+  public readonly y: Float32Array;
+  /** The z components */
+  public readonly z: Float32Array;
+
+  /**
+   * Creates a {@link Vector3Array} filled with zeros
+   * @param length - The number of vectors
+   */
+  public constructor(length: number) {
+    this.x = new Float32Array(length);
+    this.y = new Float32Array(length);
+    this.z = new Float32Array(length);
+  }
+
+  /** The number of vectors */
+  public get length(): number {
+    return this.x.length;
+  }
+
+  /**
+   * Reads a vector
+   * @param i - The index of the vector
+   * @param out - The {@link Vector3} to write into, avoiding an allocation
+   */
+  public get(i: number, out: Vector3 = new Vector3()): Vector3 {
+    return out.set(this.x[i], this.y[i], this.z[i]);
+  }
+
+  /**
+   * Writes a vector
+   * @param i - The index of the vector
+   * @param a - Either a number to be used as the x value or a {@link Vector3}
+   * @param b - A number to be used as the y value
+   * @param c - A number to be used as the z value
+   */
+  public set(i: number, a: number|Vector3, b?: number, c?: number): this {
+    if (a instanceof Vector3) {
+      this.x[i] = a.x;
+      this.y[i] = a.y;
+      this.z[i] = a.z;
+    } else {
+      this.x[i] = a;
+      this.y[i] = b === undefined ? a : b;
+      this.z[i] = c === undefined ? a : c;
+    }
+    return this;
+  }
+
+  /**
+   * Sets every vector to the same value
+   * @param v - The {@link Vector3} to fill with
+   */
+  public fill(v: Vector3): this {
+    this.x.fill(v.x);
+    this.y.fill(v.y);
+    this.z.fill(v.z);
+    return this;
+  }
+
+  /**
+   * Adds either the matching vector of another {@link Vector3Array} or the same {@link Vector3} to every vector
+   * @param other - A {@link Vector3Array} of at least the same length or a {@link Vector3}
+   */
+  public add(other: Vector3Array|Vector3): this {
+    return this.addScaled(other, 1);
+  }
+
+  /**
+   * Subtracts either the matching vector of another {@link Vector3Array} or the same {@link Vector3} from every vector
+   * @param other - A {@link Vector3Array} of at least the same length or a {@link Vector3}
+   */
+  public sub(other: Vector3Array|Vector3): this {
+    return this.addScaled(other, -1);
+  }
+
+  /**
+   * Adds a scaled value to every vector, such as a velocity multiplied by a time step
+   * @param other - A {@link Vector3Array} of at least the same length or a {@link Vector3}
+   * @param s - The number to scale the added value by
+   */
+  public addScaled(other: Vector3Array|Vector3, s: number): this {
+    let {x, y, z} = this;
+    if (other instanceof Vector3Array) {
+      if (other.length < this.length) throw new ValidationError(`Expected At Least ${this.length} Vectors But Got ${other.length}.`, other);
+      for (let i = 0; i < x.length; i++) {
+        x[i] += other.x[i] * s;
+        y[i] += other.y[i] * s;
+        z[i] += other.z[i] * s;
+      }
+    } else {
+      let ox: number = other.x * s;
+      let oy: number = other.y * s;
+      let oz: number = other.z * s;
+      for (let i = 0; i < x.length; i++) {
+        x[i] += ox;
+        y[i] += oy;
+        z[i] += oz;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Multiplies every vector by a number
+   * @param s - The number to scale by
+   */
+  public scale(s: number): this {
+    let {x, y, z} = this;
+    for (let i = 0; i < x.length; i++) {
+      x[i] *= s;
+      y[i] *= s;
+      z[i] *= s;
+    }
+    return this;
+  }
+
+  /** Normalizes every vector, leaving zero length vectors untouched */
+  public normalize(): this {
+    let {x, y, z} = this;
+    for (let i = 0; i < x.length; i++) {
+      let sqr: number = x[i] * x[i] + y[i] * y[i] + z[i] * z[i];
+      if (sqr == 0) continue;
+      let inv: number = 1 / Math.sqrt(sqr);
+      x[i] *= inv;
+      y[i] *= inv;
+      z[i] *= inv;
+    }
+    return this;
+  }
+
+  /** Converts the {@link Vector3Array} to an {@link Array} of {@link Vector3}s */
+  public toArray(): Vector3[] {
+    let vectors: Vector3[] = [];
+    for (let i = 0; i < this.length; i++) {
+      vectors.push(this.get(i));
+    }
+    return vectors;
+  }
+
+  /**
+   * Creates a {@link Vector3Array} from {@link Vector3}s
+   * @param vectors - The {@link Vector3}s to copy
+   */
+  public static from(vectors: Vector3[]): Vector3Array {
+    let array: Vector3Array = new Vector3Array(vectors.length);
+    vectors.forEach((v, i) => array.set(i, v));
+    return array;
+  }
+}
+
+/** Class representing many {@link Color}s packed into a {@link Uint32Array} as 0xRRGGBBAA */
+export class ColorArray {
+  /** The packed colors */
+  public readonly data: Uint32Array;
+
+  /**
+   * Creates a {@link ColorArray} filled with transparent black
+   * @param length - The number of colors
+   */
+  public constructor(length: number) {
+    this.data = new Uint32Array(length);
+  }
+
+  /** The number of colors */
+  public get length(): number {
+    return this.data.length;
+  }
+
+  /**
+   * Reads a color
+   * @param i - The index of the color
+   */
+  public get(i: number): Color {
+    return Color.fromPacked(this.data[i]);
+  }
+
+  /**
+   * Writes a color
+   * @param i - The index of the color
+   * @param color - The {@link Color} to write
+   */
+  public set(i: number, color: Color): this {
+    this.data[i] = color.toPacked();
+    return this;
+  }
+
+  /**
+   * Reads the channels of a color without creating a {@link Color}
+   * @param i - The index of the color
+   * @returns The red, green, blue and alpha channels between 0 and 255
+   */
+  public getRGBA(i: number): number[] {
+    let v: number = this.data[i];
+    return [v >>> 24, v >>> 16 & 0xff, v >>> 8 & 0xff, v & 0xff];
+  }
+
+  /**
+   * Writes the channels of a color without creating a {@link Color}
+   * @param i - The index of the color
+   * @param r - The red channel between 0 and 255
+   * @param g - The green channel between 0 and 255
+   * @param b - The blue channel between 0 and 255
+   * @param a - The alpha channel between 0 and 255
+   */
+  public setRGBA(i: number, r: number, g: number, b: number, a: number = 255): this {
+    this.data[i] = (channel(r) << 24 | channel(g) << 16 | channel(b) << 8 | channel(a)) >>> 0;
+    return this;
+  }
+
+  /**
+   * Sets every color to the same value
+   * @param color - The {@link Color} to fill with
+   */
+  public fill(color: Color): this {
+    this.data.fill(color.toPacked());
+    return this;
+  }
+
+  /** Converts the {@link ColorArray} to an {@link Array} of {@link Color}s */
+  public toArray(): Color[] {
+    let colors: Color[] = [];
+    for (let i = 0; i < this.length; i++) {
+      colors.push(this.get(i));
+    }
+    return colors;
+  }
+
+  /**
+   * Creates a {@link ColorArray} from {@link Color}s
+   * @param colors - The {@link Color}s to copy
+   */
+  public static from(colors: Color[]): ColorArray {
+    let array: ColorArray = new ColorArray(colors.length);
+    colors.forEach((color, i) => array.set(i, color));
+    return array;
+  }
+}
+
+/**
+ * Rounds and clamps a color channel to a byte
+ * @param v - The channel value between 0 and 255
+ */
+function channel(v: number): number {
+  return Math.round(clamp(v, 255));
+}
@@ -0,0 +1,311 @@
+"use strict";
+
+import {Color} from "./colors";
+import {ValidationError} from "./errors";
+import {clamp} from "./fmath";
+import {Vector, Vector2, Vector3} from "./vectors";
+
+/** The ways a {@link VectorCodec} can store each component */
+export enum VectorEncoding {
+  /** 4 bytes per component, exact to about 7 significant digits */
+  Float32=0,
+  /** 8 bytes per component, exact */
+  Float64=1,
+  /** 2 bytes per component, quantized to 65535 steps between -range and range, clamping anything outside */
+  Int16=2
+}
+
+/** The ways a {@link ColorCodec} can store a {@link Color} */
+export enum ColorEncoding {
+  /** 4 bytes in red, green, blue, alpha order rather than a little-endian number, exact */
+  RGBA8888=0,
+  /** 2 bytes holding 5 bits of red, 6 of green and 5 of blue, dropping the alpha value */
+  RGB565=1
+}
+
+/** Class representing a binary format for values, where multi-byte numbers are little-endian */
+export abstract class Codec<T> {
+  /**
+   * Finds the number of bytes a value takes
+   * @param value - The value to measure
+   */
+  public abstract size(value: T): number;
+
+  /**
+   * Writes a value into a {@link DataView}
+   * @param view - The {@link DataView} to write into
+   * @param offset - The byte offset to start writing at
+   * @param value - The value to write
+   * @returns The byte offset after the value
+   */
+  public abstract write(view: DataView, offset: number, value: T): number;
+
+  /**
+   * Reads a value out of a {@link DataView}
+   * @param view - The {@link DataView} to read from
+   * @param offset - The byte offset to start reading at
+   */
+  public abstract read(view: DataView, offset: number): T;
+
+  /**
+   * Encodes a value into a new {@link ArrayBuffer}
+   * @param value - The value to encode
+   */
+  public encode(value: T): ArrayBuffer {
+    let buffer: ArrayBuffer = new ArrayBuffer(this.size(value));
+    this.write(new DataView(buffer), 0, value);
+    return buffer;
+  }
+
+  /**
+   * Decodes a value
+   * @param data - The {@link ArrayBuffer} or {@link DataView} to decode
+   * @param offset - The byte offset the value starts at
+   */
+  public decode(data: ArrayBuffer|DataView, offset: number = 0): T {
+    return this.read(data instanceof DataView ? data : new DataView(data), offset);
+  }
+
+  /**
+   * Throws a {@link ValidationError} if a {@link DataView} is too short to read from
+   * @param view - The {@link DataView} to read from
+   * @param offset - The byte offset reading starts at
+   * @param length - The number of bytes to read
+   */
+  protected checkLength(view: DataView, offset: number, length: number): void {
+    if (offset < 0 || offset + length > view.byteLength) {
+      throw new ValidationError(`Expected ${length} Bytes At Offset ${offset} But Found ${Math.max(view.byteLength - offset, 0)}.`, view);
+    }
+  }
+}
+
+/** Class representing a binary format for a vector type */
+export abstract class VectorCodec<T extends Vector<T>> extends Codec<T> {
+  /** The {@link VectorEncoding} of each component */
+  public readonly encoding: VectorEncoding;
+  /** The largest magnitude of a component {@link VectorEncoding.Int16} can store */
+  public readonly range: number;
+
+  /**
+   * Creates a {@link VectorCodec}
+   * @param encoding - The {@link VectorEncoding} of each component
+   * @param range - The largest magnitude of a component {@link VectorEncoding.Int16} can store
+   */
+  protected constructor(encoding: VectorEncoding, range: number) {
+    super();
+    if (!(range > 0) || !isFinite(range)) throw new ValidationError("Range Must Be A Finite Number Greater Than 0.", range);
+    this.encoding = encoding;
+    this.range = range;
+  }
+
+  /** Gets the number of bytes each component takes */
+  private get componentSize(): number {
+    return this.encoding == VectorEncoding.Float64 ? 8 : this.encoding == VectorEncoding.Float32 ? 4 : 2;
+  }
+
+  /**
+   * Finds the number of bytes a vector takes, which is the same for every vector
+   * @param value - The vector to measure
+   */
+  public size(value?: T): number {
+    return this.create().dimensions * this.componentSize;
+  }
+
+  /**
+   * Writes a vector into a {@link DataView}
+   * @param view - The {@link DataView} to write into
+   * @param offset - The byte offset to start writing at
+   * @param value - The vector to write
+   * @returns The byte offset after the vector
+   */
+  public write(view: DataView, offset: number, value: T): number {
+    for (let i = 0; i < value.dimensions; i++, offset += this.componentSize) {
+      let v: number = value.getComponent(i);
+      switch (this.encoding) {
+        case VectorEncoding.Float32:
+          view.setFloat32(offset, v, true);
+          break;
+        case VectorEncoding.Float64:
+          view.setFloat64(offset, v, true);
+          break;
+        case VectorEncoding.Int16:
+          view.setInt16(offset, Math.round(clamp(v / this.range, 1, -1) * 32767), true);
+          break;
+      }
+    }
+    return offset;
+  }
+
+  /**
+   * Reads a vector out of a {@link DataView}
+   * @param view - The {@link DataView} to read from
+   * @param offset - The byte offset to start reading at
+   */
+  public read(view: DataView, offset: number): T {
+    let value: T = this.create();
+    this.checkLength(view, offset, this.size());
+    for (let i = 0; i < value.dimensions; i++, offset += this.componentSize) {
+      switch (this.encoding) {
+        case VectorEncoding.Float32:
+          value.setComponent(i, view.getFloat32(offset, true));
+          break;
+        case VectorEncoding.Float64:
+          value.setComponent(i, view.getFloat64(offset, true));
+          break;
+        case VectorEncoding.Int16:
+          value.setComponent(i, view.getInt16(offset, true) / 32767 * this.range);
+          break;
+      }
+    }
+    return value;
+  }
+
+  /** Creates a vector filled with zeros to read into */
+  protected abstract create(): T;
+}
+
+/** Class representing a binary format for {@link Vector2}s */
+export class Vector2Codec extends VectorCodec<Vector2> {
+  /**
+   * Creates a {@link Vector2Codec}
+   * @param encoding - The {@link VectorEncoding} of each component
+   * @param range - The largest magnitude of a component {@link VectorEncoding.Int16} can store
+   */
+  public constructor(encoding: VectorEncoding = VectorEncoding.Float32, range: number = 1) {
+    super(encoding, range);
+  }
+
+  /** Creates a {@link Vector2} filled with zeros */
+  protected create(): Vector2 {
+    return new Vector2();
+  }
+}
+
+/** Class representing a binary format for {@link Vector3}s */
+export class Vector3Codec extends VectorCodec<Vector3> {
+  /**
+   * Creates a {@link Vector3Codec}
+   * @param encoding - The {@link VectorEncoding} of each component
+   * @param range - The largest magnitude of a component {@link VectorEncoding.Int16} can store
+   */
+  public constructor(encoding: VectorEncoding = VectorEncoding.Float32, range: number = 1) {
+    super(encoding, range);
+  }
+
+  /** Creates a {@link Vector3} filled with zeros */
+  protected create(): Vector3 {
+    return new Vector3();
+  }
+}
+
+/** Class representing a binary format for {@link Color}s */
+export class ColorCodec extends Codec<Color> {
+  /** The {@link ColorEncoding} */
+  public readonly encoding: ColorEncoding;
+
+  /**
+   * Creates a {@link ColorCodec}
+   * @param encoding - The {@link ColorEncoding}
+   */
+  public constructor(encoding: ColorEncoding = ColorEncoding.RGBA8888) {
+    super();
+    this.encoding = encoding;
+  }
+
+  /**
+   * Finds the number of bytes a {@link Color} takes, which is the same for every color
+   * @param value - The {@link Color} to measure
+   */
+  public size(value?: Color): number {
+    return this.encoding == ColorEncoding.RGB565 ? 2 : 4;
+  }
+
+  /**
+   * Writes a {@link Color} into a {@link DataView}
+   * @param view - The {@link DataView} to write into
+   * @param offset - The byte offset to start writing at
+   * @param value - The {@link Color} to write
+   * @returns The byte offset after the {@link Color}
+   */
+  public write(view: DataView, offset: number, value: Color): number {
+    if (this.encoding == ColorEncoding.RGB565) {
+      let r: number = Math.round(value.red * 31 / 255);
+      let g: number = Math.round(value.green * 63 / 255);
+      let b: number = Math.round(value.blue * 31 / 255);
+      view.setUint16(offset, r << 11 | g << 5 | b, true);
+    } else {
+      view.setUint32(offset, value.toPacked());
+    }
+    return offset + this.size();
+  }
+
+  /**
+   * Reads a {@link Color} out of a {@link DataView}
+   * @param view - The {@link DataView} to read from
+   * @param offset - The byte offset to start reading at
+   */
+  public read(view: DataView, offset: number): Color {
+    this.checkLength(view, offset, this.size());
+    if (this.encoding == ColorEncoding.RGBA8888) return Color.fromPacked(view.getUint32(offset));
+    let packed: number = view.getUint16(offset, true);
+    let r: number = Math.round((packed >> 11) * 255 / 31);
+    let g: number = Math.round((packed >> 5 & 0x3f) * 255 / 63);
+    let b: number = Math.round((packed & 0x1f) * 255 / 31);
+    return Color.fromPacked((r << 24 | g << 16 | b << 8 | 0xff) >>> 0);
+  }
+}
+
+/** Class representing a binary format for arrays of values, stored as a 32-bit count followed by each value */
+export class BatchCodec<T> extends Codec<T[]> {
+  /** The {@link Codec} of each value */
+  public readonly codec: Codec<T>;
+
+  /**
+   * Creates a {@link BatchCodec}
+   * @param codec - The {@link Codec} of each value
+   */
+  public constructor(codec: Codec<T>) {
+    super();
+    this.codec = codec;
+  }
+
+  /**
+   * Finds the number of bytes an array takes
+   * @param values - The array to measure
+   */
+  public size(values: T[]): number {
+    return values.reduce((sum, value) => sum + this.codec.size(value), 4);
+  }
+
+  /**
+   * Writes an array into a {@link DataView}
+   * @param view - The {@link DataView} to write into
+   * @param offset - The byte offset to start writing at
+   * @param values - The array to write
+   * @returns The byte offset after the array
+   */
+  public write(view: DataView, offset: number, values: T[]): number {
+    view.setUint32(offset, values.length, true);
+    offset += 4;
+    values.forEach((value) => offset = this.codec.write(view, offset, value));
+    return offset;
+  }
+
+  /**
+   * Reads an array out of a {@link DataView}
+   * @param view - The {@link DataView} to read from
+   * @param offset - The byte offset to start reading at
+   */
+  public read(view: DataView, offset: number): T[] {
+    this.checkLength(view, offset, 4);
+    let count: number = view.getUint32(offset, true);
+    offset += 4;
+    let values: T[] = [];
+    for (let i = 0; i < count; i++) {
+      let value: T = this.codec.read(view, offset);
+      offset += this.codec.size(value);
+      values.push(value);
+    }
+    return values;
+  }
+}
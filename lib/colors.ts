@@ -1,4 +1,12 @@
-import {clamp} from "./fmath";
+import {clamp, lerp, randFloat} from "./fmath";
+import {Random} from "./random";
+import {ColorParseError, InvalidColorError, checkFinite, readJSON} from "./errors";
+import {namedColors} from "./colornames";
+import {Palette} from "./palettes";
+import {BlendMode, CompositeObject, CompositeOperation, blendOver, compositeChannels} from "./compositing";
+import {ContrastAlgorithm, WCAGObject, apcaContrast, apcaLuminance, contrastRatio, wcagLevels} from "./contrast";
+import {Deficiency, DeficiencyModel, daltonizeChannels, simulateDeficiency} from "./deficiency";
+import {DeltaEMethod, GamutMapping, GamutStatus, LabObject, LChObject, XYZObject, deltaE2000, deltaE76, deltaE94, deltaEOK, labToLCh, labToXYZ, lchToLab, linearRGBToOKLab, linearRGBToXYZ, okLabToLinearRGB, srgbToLinear, toSRGBGamut, xyzToLab, xyzToLinearRGB} from "./colorspaces";
 
 /** A hexadecimal string represented as #RRGGBBAA */
 type hexadecimal = string;
@@ -35,16 +43,183 @@ interface HSLObject {
   lightness: number;
 }
 
+/** An {@link HWBObject} containing hue, whiteness and blackness information */
+interface HWBObject {
+  /** The color value the {@link HWBObject} was generated from */
+  readonly color?: number;
+  /** The hue value */
+  hue: number;
+  /** The whiteness level */
+  whiteness: number;
+  /** The blackness level */
+  blackness: number;
+}
+
+/** An {@link HSVObject} containing hue, saturation and value information, also known as HSB */
+interface HSVObject {
+  /** The color value the {@link HSVObject} was generated from */
+  readonly color?: number;
+  /** The hue value */
+  hue: number;
+  /** The saturation level */
+  saturation: number;
+  /** The value level */
+  value: number;
+}
+
+/** A {@link CMYKObject} containing cyan, magenta, yellow and key information */
+interface CMYKObject {
+  /** The color value the {@link CMYKObject} was generated from */
+  readonly color?: number;
+  /** The cyan level */
+  cyan: number;
+  /** The magenta level */
+  magenta: number;
+  /** The yellow level */
+  yellow: number;
+  /** The key, or black, level */
+  key: number;
+}
+
+/** The {@link ColorJSON} schema written by {@link Color.toJSON} */
+export interface ColorJSON {
+  /** The version of the schema */
+  version: number;
+  /** The name of the type */
+  type: "Color";
+  /** The red value between 0 and 255 */
+  red: number;
+  /** The green value between 0 and 255 */
+  green: number;
+  /** The blue value between 0 and 255 */
+  blue: number;
+  /** The alpha value between 0 and 255 */
+  alpha: number;
+}
+
+/** A {@link NearestColorObject} describing the closest entry of a palette */
+interface NearestColorObject {
+  /** The closest {@link Color} in the palette */
+  color: Color;
+  /** The index of the closest {@link Color} in the palette */
+  index: number;
+  /** The difference between the closest {@link Color} and the target */
+  distance: number;
+}
+
+/** The {@link RandomColorOptions} constraining {@link Color.random} */
+export interface RandomColorOptions {
+  /** The hue range in degrees as a number or [min, max], where a min above the max wraps through red */
+  hue?: number|[number, number];
+  /** The saturation range between 0 and 100 as a number or [min, max] */
+  saturation?: number|[number, number];
+  /** The lightness range between 0 and 100 as a number or [min, max] */
+  lightness?: number|[number, number];
+  /** The alpha range between 0 and 255 as a number or [min, max] */
+  alpha?: number|[number, number];
+  /** The {@link Color}s to stay visually distinct from, stepping the hue from the first of them by the golden ratio */
+  distinctFrom?: Iterable<Color>;
+}
+
+/**
+ * The color models the {@link Color} constructor can read its inputs in. Hues are in degrees between 0 and 360 and wrap around,
+ * red, green, blue and alpha are between 0 and 255, and every other channel is a percentage between 0 and 100
+ */
 export enum ColorMode {
   /** RGB {@link ColorMode} represented with a Red, Green and Blue value */
   RGB=0,
   /** HSL {@link ColorMode} represented with a Hue, Saturation and Lightness value */
-  HSL=1
+  HSL=1,
+  /** HSV {@link ColorMode}, also known as HSB, represented with a Hue, Saturation and Value value */
+  HSV=2,
+  /** HWB {@link ColorMode} represented with a Hue, Whiteness and Blackness value */
+  HWB=3,
+  /** CMYK {@link ColorMode} represented with a Cyan, Magenta, Yellow and Key value, where the alpha value moves to the fifth parameter */
+  CMYK=4
+}
+
+/** The CSS notations a {@link Color} can be serialized to */
+export enum CSSFormat {
+  /** Hexadecimal notation, e.g. #663399 or #66339980 */
+  Hex=0,
+  /** The rgb() function, e.g. rgb(102 51 153 / 0.5) */
+  RGB=1,
+  /** The hsl() function, e.g. hsl(270 50% 40%) */
+  HSL=2,
+  /** The hwb() function, e.g. hwb(270 20% 40%) */
+  HWB=3,
+  /** A named color such as rebeccapurple, falling back to {@link CSSFormat.Hex} */
+  Named=4,
+  /** The lab() function, e.g. lab(32.39 38.42 -47.69) */
+  Lab=5,
+  /** The lch() function, e.g. lch(32.39 61.24 308.86) */
+  LCh=6,
+  /** The oklab() function, e.g. oklab(0.4403 0.0881 -0.1338) */
+  OKLab=7,
+  /** The oklch() function, e.g. oklch(0.4403 0.1602 303.37) */
+  OKLCh=8
+}
+
+/** The spaces two {@link Color}s can be mixed in */
+export enum MixSpace {
+  /** Gamma encoded sRGB, matching how most software blends */
+  RGB=0,
+  /** Linear light sRGB, which is physically accurate */
+  LinearRGB=1,
+  /** HSL, following the hue around the color wheel */
+  HSL=2,
+  /** OKLab, which is perceptually uniform */
+  OKLab=3
+}
+
+/** The paths a hue can take around the color wheel while mixing */
+export enum HueInterpolation {
+  /** The shortest arc between the two hues */
+  Shorter=0,
+  /** The longest arc between the two hues */
+  Longer=1,
+  /** Always increasing the hue */
+  Increasing=2,
+  /** Always decreasing the hue */
+  Decreasing=3
+}
+
+/** The OKLCh lightness and relative chroma of each step of {@link Color.ramp} */
+const rampSteps: {name: string, lightness: number, chroma: number}[] = [
+  {name: "50", lightness: 0.97, chroma: 0.1},
+  {name: "100", lightness: 0.935, chroma: 0.2},
+  {name: "200", lightness: 0.88, chroma: 0.4},
+  {name: "300", lightness: 0.81, chroma: 0.65},
+  {name: "400", lightness: 0.71, chroma: 0.9},
+  {name: "500", lightness: 0.625, chroma: 1},
+  {name: "600", lightness: 0.55, chroma: 1},
+  {name: "700", lightness: 0.49, chroma: 0.95},
+  {name: "800", lightness: 0.425, chroma: 0.85},
+  {name: "900", lightness: 0.38, chroma: 0.7},
+  {name: "950", lightness: 0.28, chroma: 0.55}
+];
+
+/** The version of the schema written by {@link Color.toJSON} */
+const jsonVersion: number = 1;
+
+/** The golden ratio conjugate, the fraction of the hue range {@link Color.random} steps by to stay distinct */
+const goldenRatio: number = (Math.sqrt(5) - 1) / 2;
+
+/**
+ * Finds a random number in a range
+ * @param range - Either a fixed number or [min, max]
+ * @param random - The {@link Random} to draw from instead of {@link Math.random}
+ */
+function randomInRange(range: number|[number, number], random?: Random): number {
+  return typeof range === "number" ? range : randFloat(range[1], range[0], random);
 }
 
+/** Matches a single numeric CSS token with an optional percentage or angle unit */
+const numericToken: RegExp = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/i;
+
 /** Class representing a color */
 export class Color {
-  /** The Current ColorMode used to handle inputs */
+  /** The Current ColorMode used to handle constructor inputs, which is shared by every caller, so prefer factories like {@link Color.fromHSL} in libraries */
   static colorMode: ColorMode = ColorMode.RGB;
   /** The color value */
   private c: number;
@@ -54,29 +229,49 @@ export class Color {
   private lhsl: HSLObject|undefined;
   /** The last {@link RGBObject} */
   private lrgb: RGBObject|undefined;
+  /** The last {@link HWBObject} */
+  private lhwb: HWBObject|undefined;
+  /** The last {@link HSVObject} */
+  private lhsv: HSVObject|undefined;
+  /** The last {@link CMYKObject} */
+  private lcmyk: CMYKObject|undefined;
+  /** The last {@link XYZObject} */
+  private lxyz: XYZObject|undefined;
+  /** The last CIE Lab {@link LabObject} */
+  private llab: LabObject|undefined;
+  /** The last CIE LCh {@link LChObject} */
+  private llch: LChObject|undefined;
+  /** The last OKLab {@link LabObject} */
+  private loklab: LabObject|undefined;
+  /** The last OKLCh {@link LChObject} */
+  private loklch: LChObject|undefined;
+  /** The {@link GamutStatus} of the last perceptual assignment and the color value it produced */
+  private lgamut: {color: number, status: GamutStatus}|undefined;
 
   /**
    * Creates a new {@link Color}
-   * @param a - Either a {@link hexadecimal} or a number representing the HSL or RGB value depending on current {@link ColorMode}
-   * @param b - A number representing the S or G value depending on current {@link ColorMode}
-   * @param c - A number representing the L or B value depending on current {@link ColorMode}
-   * @param d - A number representing the Alpha value
+   * @param a - Either a {@link hexadecimal} or a number representing the first channel of the current {@link ColorMode}
+   * @param b - A number representing the second channel of the current {@link ColorMode}
+   * @param c - A number representing the third channel of the current {@link ColorMode}
+   * @param d - A number representing the Alpha value, or the Key value in {@link ColorMode.CMYK}
+   * @param e - A number representing the Alpha value in {@link ColorMode.CMYK}
    */
-  constructor(a: hexadecimal|number, b?: number, c?: number, d?: number) {
-    let {color, alpha} = this.parseParameters(a, b, c, d);
+  constructor(a: hexadecimal|number, b?: number, c?: number, d?: number, e?: number) {
+    let {color, alpha} = this.parseParameters(a, b, c, d, e);
     this.c = color;
     this.a = alpha;
   }
 
   /**
    * Parses parameters
-   * @param a - Either a {@link hexadecimal} or a number representing the HSL or RGB value depending on current {@link ColorMode}
-   * @param b - A number representing the S or G value depending on current {@link ColorMode}
-   * @param c - A number representing the L or B value depending on current {@link ColorMode}
-   * @param alpha - A number representing the Alpha value
+   * @param a - Either a {@link hexadecimal} or a number representing the first channel of the current {@link ColorMode}
+   * @param b - A number representing the second channel of the current {@link ColorMode}
+   * @param c - A number representing the third channel of the current {@link ColorMode}
+   * @param d - A number representing the Alpha value, or the Key value in {@link ColorMode.CMYK}
+   * @param e - A number representing the Alpha value in {@link ColorMode.CMYK}
    */
-  private parseParameters(a: hexadecimal|number, b?: number, c?: number, alpha?: number): ColorObject {
-    return Color.parseParameters(a, b, c, alpha);
+  private parseParameters(a: hexadecimal|number, b?: number, c?: number, d?: number, e?: number): ColorObject {
+    return Color.parseParameters(a, b, c, d, e);
   }
 
   /**
@@ -87,11 +282,11 @@ export class Color {
    * @param a - A number representing the Alpha value
    */
   public static getColorValueFromRGB(r: number, g: number, b: number, a: number): ColorObject {
+    Color.checkChannels([r, g, b, a]);
     r = clamp(r, 255);
     g = clamp(g, 255);
     b = clamp(b, 255);
     a = clamp(a, 255);
-    console.log(r, g, b, a);
     return {color: r << 16 | g << 8 | b, alpha: a};
   }
 
@@ -185,6 +380,172 @@ export class Color {
     return this.hsl.lightness;
   }
 
+  /** Gets an {@link HWBObject} */
+  public get hwb(): HWBObject {
+    if (!this.lhwb || this.lhwb.color != this.color) {
+      let w: number = Math.min(this.red, this.green, this.blue) / 255;
+      let b: number = 1 - Math.max(this.red, this.green, this.blue) / 255;
+      this.lhwb = {color: this.color, hue: this.hue, whiteness: +(w * 100).toFixed(1), blackness: +(b * 100).toFixed(1)};
+    }
+    return this.lhwb;
+  }
+
+  /**
+   * Sets the color from an {@link HWBObject}
+   * @param hwb - An {@link HWBObject} with the whiteness and blackness between 0 and 100
+   */
+  public set hwb(hwb: HWBObject) {
+    Color.checkRanges({whiteness: hwb.whiteness, blackness: hwb.blackness}, 100);
+    this.c = Color.getColorValueFromHWB(Color.wrapHue(hwb.hue), hwb.whiteness, hwb.blackness, this.alpha).color;
+  }
+
+  /** Gets an {@link HSVObject} */
+  public get hsv(): HSVObject {
+    if (!this.lhsv || this.lhsv.color != this.color) {
+      let max: number = Math.max(this.red, this.green, this.blue) / 255;
+      let min: number = Math.min(this.red, this.green, this.blue) / 255;
+      let s: number = max == 0 ? 0 : (max - min) / max;
+      this.lhsv = {color: this.color, hue: this.hue, saturation: +(s * 100).toFixed(1), value: +(max * 100).toFixed(1)};
+    }
+    return this.lhsv;
+  }
+
+  /**
+   * Sets the color from an {@link HSVObject}
+   * @param hsv - An {@link HSVObject} with the saturation and value between 0 and 100
+   */
+  public set hsv(hsv: HSVObject) {
+    Color.checkRanges({saturation: hsv.saturation, value: hsv.value}, 100);
+    this.c = Color.getColorValueFromHSV(Color.wrapHue(hsv.hue), hsv.saturation, hsv.value, this.alpha).color;
+  }
+
+  /** Gets a {@link CMYKObject}, using the naive conversion without an ICC profile */
+  public get cmyk(): CMYKObject {
+    if (!this.lcmyk || this.lcmyk.color != this.color) {
+      let k: number = 1 - Math.max(this.red, this.green, this.blue) / 255;
+      let [c, m, y] = [this.red, this.green, this.blue].map((v) => k == 1 ? 0 : (1 - v / 255 - k) / (1 - k));
+      this.lcmyk = {color: this.color, cyan: +(c * 100).toFixed(1), magenta: +(m * 100).toFixed(1), yellow: +(y * 100).toFixed(1), key: +(k * 100).toFixed(1)};
+    }
+    return this.lcmyk;
+  }
+
+  /**
+   * Sets the color from a {@link CMYKObject}
+   * @param cmyk - A {@link CMYKObject} with every level between 0 and 100
+   */
+  public set cmyk(cmyk: CMYKObject) {
+    Color.checkRanges({cyan: cmyk.cyan, magenta: cmyk.magenta, yellow: cmyk.yellow, key: cmyk.key}, 100);
+    this.c = Color.getColorValueFromCMYK(cmyk.cyan, cmyk.magenta, cmyk.yellow, cmyk.key, this.alpha).color;
+  }
+
+  /** Gets the linear light red, green and blue channels between 0 and 1 */
+  private get linear(): number[] {
+    return [this.red, this.green, this.blue].map((c) => srgbToLinear(c / 255));
+  }
+
+  /** Gets a CIE {@link XYZObject} relative to D65 */
+  public get xyz(): XYZObject {
+    if (!this.lxyz || this.lxyz.color != this.color) {
+      this.lxyz = {color: this.color, ...linearRGBToXYZ(this.linear)};
+    }
+    return this.lxyz;
+  }
+
+  /** Gets a CIE Lab {@link LabObject} relative to D50 */
+  public get lab(): LabObject {
+    if (!this.llab || this.llab.color != this.color) {
+      this.llab = {color: this.color, ...xyzToLab(this.xyz)};
+    }
+    return this.llab;
+  }
+
+  /** Gets a CIE LCh {@link LChObject} relative to D50 */
+  public get lch(): LChObject {
+    if (!this.llch || this.llch.color != this.color) {
+      this.llch = {color: this.color, ...labToLCh(this.lab)};
+    }
+    return this.llch;
+  }
+
+  /** Gets an OKLab {@link LabObject} */
+  public get oklab(): LabObject {
+    if (!this.loklab || this.loklab.color != this.color) {
+      this.loklab = {color: this.color, ...linearRGBToOKLab(this.linear)};
+    }
+    return this.loklab;
+  }
+
+  /** Gets an OKLCh {@link LChObject} */
+  public get oklch(): LChObject {
+    if (!this.loklch || this.loklch.color != this.color) {
+      this.loklch = {color: this.color, ...labToLCh(this.oklab)};
+    }
+    return this.loklch;
+  }
+
+  /** Gets the relative luminance as defined by WCAG, between 0 and 1 */
+  public get luminance(): number {
+    return this.xyz.y;
+  }
+
+  /** Gets how the last perceptual assignment was brought into the sRGB gamut */
+  public get gamut(): GamutStatus {
+    return this.lgamut && this.lgamut.color == this.color ? this.lgamut.status : GamutStatus.InGamut;
+  }
+
+  /**
+   * Sets the color from a CIE {@link XYZObject}, gamut mapping it when it falls outside of sRGB
+   * @param xyz - A CIE {@link XYZObject} relative to D65
+   */
+  public set xyz(xyz: XYZObject) {
+    this.setLinear(xyzToLinearRGB(xyz));
+  }
+
+  /**
+   * Sets the color from a CIE Lab {@link LabObject}, gamut mapping it when it falls outside of sRGB
+   * @param lab - A CIE Lab {@link LabObject} relative to D50
+   */
+  public set lab(lab: LabObject) {
+    this.setLinear(xyzToLinearRGB(labToXYZ(lab)));
+  }
+
+  /**
+   * Sets the color from a CIE LCh {@link LChObject}, gamut mapping it when it falls outside of sRGB
+   * @param lch - A CIE LCh {@link LChObject} relative to D50
+   */
+  public set lch(lch: LChObject) {
+    this.lab = lchToLab(lch);
+  }
+
+  /**
+   * Sets the color from an OKLab {@link LabObject}, gamut mapping it when it falls outside of sRGB
+   * @param oklab - An OKLab {@link LabObject}
+   */
+  public set oklab(oklab: LabObject) {
+    this.setLinear(okLabToLinearRGB(oklab));
+  }
+
+  /**
+   * Sets the color from an OKLCh {@link LChObject}, gamut mapping it when it falls outside of sRGB
+   * @param oklch - An OKLCh {@link LChObject}
+   */
+  public set oklch(oklch: LChObject) {
+    this.oklab = lchToLab(oklch);
+  }
+
+  /**
+   * Sets the color value from linear light channels, bringing them into the sRGB gamut
+   * @param rgb - The linear red, green and blue channels
+   * @param mapping - The {@link GamutMapping} to use for out of gamut colors
+   */
+  private setLinear(rgb: number[], mapping: GamutMapping = GamutMapping.Map): this {
+    Color.checkChannels(rgb);
+    let {rgb: [r, g, b], status} = toSRGBGamut(rgb, mapping);
+    this.c = Math.round(r * 255) << 16 | Math.round(g * 255) << 8 | Math.round(b * 255);
+    this.lgamut = {color: this.c, status};
+    return this;
+  }
+
   /**
    * Sets the red value
    * @param red - A number representing the red value
@@ -238,7 +599,8 @@ export class Color {
    * @param alpha - A number representing the alpha value
    */
   public set alpha(alpha: number) {
-    this.alpha = alpha;
+    Color.checkChannels([alpha]);
+    this.a = clamp(alpha, 255);
   }
 
   /**
@@ -257,6 +619,7 @@ export class Color {
    * @param a - A number representing the Alpha value
    */
   public static getColorValueFromHSL(h: number, s: number, l: number, a: number = 255): ColorObject {
+    Color.checkChannels([h, s, l, a]);
     h = clamp(h, 360);
     s = clamp(s, 100) / 100;
     l = clamp(l, 100) / 100;
@@ -269,83 +632,896 @@ export class Color {
     let r: number = 0;
     let g: number = 0;
     let b: number = 0;
-    if (0 <= h && h > 60) {
+    if (h < 60) {
       r = c;
       g = x;
-    } else if (60 <= h && h > 120) {
+    } else if (h < 120) {
       r = x;
       g = c;
-    } else if (120 <= h && h > 180) {
+    } else if (h < 180) {
       g = c;
       b = x;
-    } else if (180 <= h && h > 240) {
+    } else if (h < 240) {
       g = x;
       b = c;
-    } else if (300 <= h && h > 360) {
+    } else if (h < 300) {
+      r = x;
+      b = c;
+    } else {
       r = c;
       b = x;
     }
-    r = (r + m) * 255;
-    g = (g + m) * 255;
-    b = (b + m) * 255;
+    r = Math.round((r + m) * 255);
+    g = Math.round((g + m) * 255);
+    b = Math.round((b + m) * 255);
 
     return {color: r << 16 | g << 8 | b, alpha: a};
   }
 
   /**
-   * Parses parameters
-   * @param a - Either a {@link hexadecimal} or a number representing the HSL or RGB value depending on current {@link ColorMode}
-   * @param b - A number representing the S or G value depending on current {@link ColorMode}
-   * @param c - A number representing the L or B value depending on current {@link ColorMode}
+   * Finds the Color Value from HWB Value
+   * @param h - A number representing the Hue value
+   * @param w - A number representing the Whiteness value
+   * @param b - A number representing the Blackness value
+   * @param a - A number representing the Alpha value
+   */
+  public static getColorValueFromHWB(h: number, w: number, b: number, a: number = 255): ColorObject {
+    Color.checkChannels([h, w, b, a]);
+    h = clamp(h, 360);
+    w = clamp(w, 100) / 100;
+    b = clamp(b, 100) / 100;
+    a = clamp(a, 255);
+
+    if (w + b >= 1) {
+      let gray: number = Math.round(w / (w + b) * 255);
+      return {color: gray << 16 | gray << 8 | gray, alpha: a};
+    }
+
+    let channel = (n: number): number => {
+      let k: number = (n + h / 30) % 12;
+      let hue: number = 0.5 - 0.5 * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+      return Math.round((hue * (1 - w - b) + w) * 255);
+    };
+
+    return {color: channel(0) << 16 | channel(8) << 8 | channel(4), alpha: a};
+  }
+
+  /**
+   * Finds the Color Value from HSV Value
+   * @param h - A number representing the Hue value
+   * @param s - A number representing the Saturation value
+   * @param v - A number representing the Value value
+   * @param a - A number representing the Alpha value
+   */
+  public static getColorValueFromHSV(h: number, s: number, v: number, a: number = 255): ColorObject {
+    Color.checkChannels([h, s, v, a]);
+    s = clamp(s, 100);
+    v = clamp(v, 100);
+    return Color.getColorValueFromHWB(h, (100 - s) * v / 100, 100 - v, a);
+  }
+
+  /**
+   * Finds the Color Value from CMYK Value
+   * @param c - A number representing the Cyan value
+   * @param m - A number representing the Magenta value
+   * @param y - A number representing the Yellow value
+   * @param k - A number representing the Key value
+   * @param a - A number representing the Alpha value
+   */
+  public static getColorValueFromCMYK(c: number, m: number, y: number, k: number, a: number = 255): ColorObject {
+    Color.checkChannels([c, m, y, k, a]);
+    let [r, g, b] = [c, m, y].map((v) => Math.round(255 * (1 - clamp(v, 100) / 100) * (1 - clamp(k, 100) / 100)));
+    return {color: r << 16 | g << 8 | b, alpha: clamp(a, 255)};
+  }
+
+  /**
+   * Creates a {@link Color} from RGB values, regardless of {@link Color.colorMode}
+   * @param r - A number representing the Red value between 0 and 255
+   * @param g - A number representing the Green value between 0 and 255
+   * @param b - A number representing the Blue value between 0 and 255
+   * @param alpha - A number representing the Alpha value between 0 and 255
+   */
+  public static fromRGB(r: number, g: number, b: number, alpha: number = 255): Color {
+    Color.checkRanges({red: r, green: g, blue: b, alpha}, 255);
+    return Color.fromColorObject(Color.getColorValueFromRGB(Math.round(r), Math.round(g), Math.round(b), Math.round(alpha)));
+  }
+
+  /**
+   * Creates a {@link Color} from HSL values, regardless of {@link Color.colorMode}
+   * @param h - A number representing the Hue value in degrees, which wraps around
+   * @param s - A number representing the Saturation value between 0 and 100
+   * @param l - A number representing the Lightness value between 0 and 100
+   * @param alpha - A number representing the Alpha value between 0 and 255
+   */
+  public static fromHSL(h: number, s: number, l: number, alpha: number = 255): Color {
+    Color.checkRanges({saturation: s, lightness: l}, 100);
+    Color.checkRanges({alpha}, 255);
+    return Color.fromColorObject(Color.getColorValueFromHSL(Color.wrapHue(h), s, l, Math.round(alpha)));
+  }
+
+  /**
+   * Creates a {@link Color} from HSV values, also known as HSB, regardless of {@link Color.colorMode}
+   * @param h - A number representing the Hue value in degrees, which wraps around
+   * @param s - A number representing the Saturation value between 0 and 100
+   * @param v - A number representing the Value value between 0 and 100
+   * @param alpha - A number representing the Alpha value between 0 and 255
+   */
+  public static fromHSV(h: number, s: number, v: number, alpha: number = 255): Color {
+    Color.checkRanges({saturation: s, value: v}, 100);
+    Color.checkRanges({alpha}, 255);
+    return Color.fromColorObject(Color.getColorValueFromHSV(Color.wrapHue(h), s, v, Math.round(alpha)));
+  }
+
+  /**
+   * Creates a {@link Color} from HWB values, regardless of {@link Color.colorMode}
+   * @param h - A number representing the Hue value in degrees, which wraps around
+   * @param w - A number representing the Whiteness value between 0 and 100
+   * @param b - A number representing the Blackness value between 0 and 100
+   * @param alpha - A number representing the Alpha value between 0 and 255
+   */
+  public static fromHWB(h: number, w: number, b: number, alpha: number = 255): Color {
+    Color.checkRanges({whiteness: w, blackness: b}, 100);
+    Color.checkRanges({alpha}, 255);
+    return Color.fromColorObject(Color.getColorValueFromHWB(Color.wrapHue(h), w, b, Math.round(alpha)));
+  }
+
+  /**
+   * Creates a {@link Color} from CMYK values with the naive conversion, regardless of {@link Color.colorMode}
+   * @param c - A number representing the Cyan value between 0 and 100
+   * @param m - A number representing the Magenta value between 0 and 100
+   * @param y - A number representing the Yellow value between 0 and 100
+   * @param k - A number representing the Key value between 0 and 100
+   * @param alpha - A number representing the Alpha value between 0 and 255
+   */
+  public static fromCMYK(c: number, m: number, y: number, k: number, alpha: number = 255): Color {
+    Color.checkRanges({cyan: c, magenta: m, yellow: y, key: k}, 100);
+    Color.checkRanges({alpha}, 255);
+    return Color.fromColorObject(Color.getColorValueFromCMYK(c, m, y, k, Math.round(alpha)));
+  }
+
+  /**
+   * Creates a {@link Color} from CIE XYZ values relative to D65
+   * @param x - A number representing the X value
+   * @param y - A number representing the Y value, where 1 is white
+   * @param z - A number representing the Z value
+   * @param alpha - A number representing the Alpha value
+   * @param mapping - The {@link GamutMapping} to use when the color falls outside of sRGB
+   */
+  public static fromXYZ(x: number, y: number, z: number, alpha: number = 255, mapping: GamutMapping = GamutMapping.Map): Color {
+    return Color.fromColorObject({color: 0, alpha}).setLinear(xyzToLinearRGB({x, y, z}), mapping);
+  }
+
+  /**
+   * Creates a {@link Color} from CIE Lab values relative to D50
+   * @param l - A number representing the Lightness value between 0 and 100
+   * @param a - A number representing the green-red axis
+   * @param b - A number representing the blue-yellow axis
+   * @param alpha - A number representing the Alpha value
+   * @param mapping - The {@link GamutMapping} to use when the color falls outside of sRGB
+   */
+  public static fromLab(l: number, a: number, b: number, alpha: number = 255, mapping: GamutMapping = GamutMapping.Map): Color {
+    return Color.fromColorObject({color: 0, alpha}).setLinear(xyzToLinearRGB(labToXYZ({l, a, b})), mapping);
+  }
+
+  /**
+   * Creates a {@link Color} from CIE LCh values relative to D50
+   * @param l - A number representing the Lightness value between 0 and 100
+   * @param c - A number representing the Chroma value
+   * @param h - A number representing the Hue value in degrees
+   * @param alpha - A number representing the Alpha value
+   * @param mapping - The {@link GamutMapping} to use when the color falls outside of sRGB
+   */
+  public static fromLCh(l: number, c: number, h: number, alpha: number = 255, mapping: GamutMapping = GamutMapping.Map): Color {
+    let lab: LabObject = lchToLab({l, c, h});
+    return Color.fromLab(lab.l, lab.a, lab.b, alpha, mapping);
+  }
+
+  /**
+   * Creates a {@link Color} from OKLab values
+   * @param l - A number representing the Lightness value between 0 and 1
+   * @param a - A number representing the green-red axis
+   * @param b - A number representing the blue-yellow axis
    * @param alpha - A number representing the Alpha value
+   * @param mapping - The {@link GamutMapping} to use when the color falls outside of sRGB
    */
-  private static parseParameters(a: hexadecimal|number, b?: number, c?: number, alpha?: number): ColorObject {
-    let isNumber: boolean = true;
-    if (typeof a === "string") {
-      isNumber = false;
-      if (a.startsWith("#")) {
-        a = a.replace("#", "");
+  public static fromOKLab(l: number, a: number, b: number, alpha: number = 255, mapping: GamutMapping = GamutMapping.Map): Color {
+    return Color.fromColorObject({color: 0, alpha}).setLinear(okLabToLinearRGB({l, a, b}), mapping);
+  }
+
+  /**
+   * Creates a {@link Color} from OKLCh values
+   * @param l - A number representing the Lightness value between 0 and 1
+   * @param c - A number representing the Chroma value
+   * @param h - A number representing the Hue value in degrees
+   * @param alpha - A number representing the Alpha value
+   * @param mapping - The {@link GamutMapping} to use when the color falls outside of sRGB
+   */
+  public static fromOKLCh(l: number, c: number, h: number, alpha: number = 255, mapping: GamutMapping = GamutMapping.Map): Color {
+    let lab: LabObject = lchToLab({l, c, h});
+    return Color.fromOKLab(lab.l, lab.a, lab.b, alpha, mapping);
+  }
+
+  /**
+   * Creates a random {@link Color}
+   * @param options - The {@link RandomColorOptions} constraining the HSL and alpha values
+   * @param random - The {@link Random} to draw from instead of {@link Math.random}
+   */
+  public static random(options: RandomColorOptions = {}, random?: Random): Color {
+    let [min, max] = typeof options.hue === "number" ? [options.hue, options.hue] : options.hue || [0, 360];
+    let span: number = max >= min ? max - min : max - min + 360;
+    let existing: Color[] = options.distinctFrom ? Array.from(options.distinctFrom) : [];
+    let fraction: number = randFloat(1, 0, random);
+    if (existing.length > 0) {
+      let start: number = span > 0 ? ((existing[0].hue - min) % 360 + 360) % 360 / span : 0;
+      fraction = (start + existing.length * goldenRatio) % 1;
+    }
+    return Color.fromColorObject(Color.getColorValueFromHSL(
+      (min + fraction * span) % 360,
+      randomInRange(options.saturation === undefined ? [0, 100] : options.saturation, random),
+      randomInRange(options.lightness === undefined ? [0, 100] : options.lightness, random),
+      Math.round(randomInRange(options.alpha === undefined ? 255 : options.alpha, random))
+    ));
+  }
+
+  /** Creates a copy of the {@link Color} */
+  public clone(): Color {
+    return Color.fromColorObject({color: this.color, alpha: this.alpha});
+  }
+
+  /**
+   * Creates a copy of the {@link Color} with its hue rotated
+   * @param degrees - The number of degrees to rotate the hue by
+   */
+  public rotate(degrees: number): Color {
+    return Color.fromColorObject(Color.getColorValueFromHSL(((this.hue + degrees) % 360 + 360) % 360, this.saturation, this.lightness, this.alpha));
+  }
+
+  /** Creates a {@link Palette} of the {@link Color} and the color opposite of it on the color wheel */
+  public complementary(): Palette {
+    return new Palette([this.clone(), this.rotate(180)]);
+  }
+
+  /**
+   * Creates a {@link Palette} of the {@link Color} and the two colors either side of its complement
+   * @param angle - The number of degrees between the complement and each of the two colors
+   */
+  public splitComplementary(angle: number = 30): Palette {
+    return new Palette([this.clone(), this.rotate(180 - angle), this.rotate(180 + angle)]);
+  }
+
+  /** Creates a {@link Palette} of three colors evenly spaced around the color wheel */
+  public triadic(): Palette {
+    return new Palette([this.clone(), this.rotate(120), this.rotate(240)]);
+  }
+
+  /**
+   * Creates a {@link Palette} of four colors forming a rectangle on the color wheel
+   * @param angle - The number of degrees between the first two colors, where 90 forms a square
+   */
+  public tetradic(angle: number = 90): Palette {
+    return new Palette([this.clone(), this.rotate(angle), this.rotate(180), this.rotate(180 + angle)]);
+  }
+
+  /**
+   * Creates a {@link Palette} of neighbouring colors on the color wheel, centered on the {@link Color}
+   * @param count - The number of colors
+   * @param angle - The number of degrees between each color
+   */
+  public analogous(count: number = 3, angle: number = 30): Palette {
+    let colors: Color[] = [];
+    for (let i = 0; i < count; i++) {
+      colors.push(this.rotate((i - (count - 1) / 2) * angle));
+    }
+    return new Palette(colors);
+  }
+
+  /**
+   * Creates a {@link Palette} of colors sharing the hue and chroma of the {@link Color}, evenly spaced in OKLCh lightness from dark to light
+   * @param count - The number of colors
+   */
+  public monochromatic(count: number = 5): Palette {
+    let {c, h} = this.oklch;
+    let colors: Color[] = [];
+    for (let i = 0; i < count; i++) {
+      colors.push(Color.fromOKLCh(lerp(0.25, 0.95, count == 1 ? 0.5 : i / (count - 1)), c, h, this.alpha));
+    }
+    return new Palette(colors);
+  }
+
+  /**
+   * Creates a {@link Palette} of the {@link Color} mixed with white in OKLab, starting with the {@link Color} itself
+   * @param count - The number of colors
+   */
+  public tints(count: number = 5): Palette {
+    return this.scale(new Color("#ffffff"), count);
+  }
+
+  /**
+   * Creates a {@link Palette} of the {@link Color} mixed with black in OKLab, starting with the {@link Color} itself
+   * @param count - The number of colors
+   */
+  public shades(count: number = 5): Palette {
+    return this.scale(new Color("#000000"), count);
+  }
+
+  /**
+   * Creates a {@link Palette} of the {@link Color} mixed with gray in OKLab, starting with the {@link Color} itself
+   * @param count - The number of colors
+   */
+  public tones(count: number = 5): Palette {
+    return this.scale(new Color("#808080"), count);
+  }
+
+  /**
+   * Creates a Material or Tailwind style {@link Palette} named 50 to 950, generated in OKLCh from the hue and chroma of the {@link Color}
+   * @param anchor - Whether to place the {@link Color} itself at the step closest to its lightness
+   */
+  public ramp(anchor: boolean = true): Palette {
+    let {l, c, h} = this.oklch;
+    let palette: Palette = new Palette();
+    let closest: number = 0;
+    rampSteps.forEach((step, i) => {
+      palette.set(step.name, Color.fromOKLCh(step.lightness, c * step.chroma, h, this.alpha));
+      if (Math.abs(step.lightness - l) < Math.abs(rampSteps[closest].lightness - l)) closest = i;
+    });
+    if (anchor) palette.set(rampSteps[closest].name, this.clone());
+    return palette;
+  }
+
+  /**
+   * Creates a {@link Palette} of the {@link Color} mixed with increasing amounts of another {@link Color}
+   * @param other - The {@link Color} to mix towards, which isn't reached
+   * @param count - The number of colors
+   */
+  private scale(other: Color, count: number): Palette {
+    let colors: Color[] = [];
+    for (let i = 0; i < count; i++) {
+      colors.push(Color.mix(this, other, i / count));
+    }
+    return new Palette(colors);
+  }
+
+  /**
+   * Creates a copy of the {@link Color} as it is seen with a color vision deficiency
+   * @param kind - The {@link Deficiency} to simulate
+   * @param severity - The severity between 0 for normal vision and 1 for dichromacy
+   * @param model - The {@link DeficiencyModel} to use
+   */
+  public simulate(kind: Deficiency, severity: number = 1, model: DeficiencyModel = DeficiencyModel.Machado): Color {
+    return Color.fromColorObject({color: 0, alpha: this.alpha}).setLinear(simulateDeficiency(this.linear, kind, severity, model), GamutMapping.Clip);
+  }
+
+  /**
+   * Creates a copy of the {@link Color} shifted so it stays distinguishable with a color vision deficiency
+   * @param kind - The {@link Deficiency} to correct for
+   * @param severity - The severity between 0 for normal vision and 1 for dichromacy
+   * @param model - The {@link DeficiencyModel} used to find what information is lost
+   */
+  public daltonize(kind: Deficiency, severity: number = 1, model: DeficiencyModel = DeficiencyModel.Machado): Color {
+    let simulated: Color = this.simulate(kind, severity, model);
+    let [r, g, b] = daltonizeChannels([this.red / 255, this.green / 255, this.blue / 255], [simulated.red / 255, simulated.green / 255, simulated.blue / 255], kind).map((c) => Math.round(c * 255));
+    return Color.fromColorObject({color: r << 16 | g << 8 | b, alpha: this.alpha});
+  }
+
+  /**
+   * Mixes two {@link Color}s, interpolating with premultiplied alpha so transparent colors don't tint the result
+   * @param a - The {@link Color} at t = 0
+   * @param b - The {@link Color} at t = 1
+   * @param t - The amount of b to mix in, between 0 and 1
+   * @param space - The {@link MixSpace} to mix in
+   * @param hue - The {@link HueInterpolation} to use when mixing in {@link MixSpace.HSL}
+   */
+  public static mix(a: Color, b: Color, t: number = 0.5, space: MixSpace = MixSpace.OKLab, hue: HueInterpolation = HueInterpolation.Shorter): Color {
+    t = clamp(t, 1);
+    let alphaA: number = clamp(a.alpha, 255) / 255;
+    let alphaB: number = clamp(b.alpha, 255) / 255;
+    let alpha: number = lerp(alphaA, alphaB, t);
+
+    let channels = (color: Color): number[] => {
+      switch (space) {
+        case MixSpace.RGB:
+          return [color.red / 255, color.green / 255, color.blue / 255];
+        case MixSpace.LinearRGB:
+          return color.linear;
+        case MixSpace.HSL:
+          return [color.hue, color.saturation, color.lightness];
+        case MixSpace.OKLab:
+          let {l, a, b} = color.oklab;
+          return [l, a, b];
+      }
+    };
+    let from: number[] = channels(a);
+    let to: number[] = channels(b);
+
+    if (space == MixSpace.HSL) {
+      if (a.saturation == 0 || alphaA == 0) from[0] = to[0];
+      if (b.saturation == 0 || alphaB == 0) to[0] = from[0];
+      let delta: number = to[0] - from[0];
+      switch (hue) {
+        case HueInterpolation.Shorter:
+          if (delta > 180) from[0] += 360;
+          else if (delta < -180) to[0] += 360;
+          break;
+        case HueInterpolation.Longer:
+          if (delta > 0 && delta < 180) from[0] += 360;
+          else if (delta > -180 && delta <= 0) to[0] += 360;
+          break;
+        case HueInterpolation.Increasing:
+          if (delta < 0) to[0] += 360;
+          break;
+        case HueInterpolation.Decreasing:
+          if (delta > 0) from[0] += 360;
+          break;
       }
-      let len: number = a.length;
+    }
 
-      if (len != 3 && len != 4 && len != 6 && len != 8) throw new Error("Invalid Hexadecimal String Provided.");
+    let mixed: number[] = from.map((v, i) => {
+      if ((space == MixSpace.HSL && i == 0) || alpha == 0) return lerp(v, to[i], t);
+      return lerp(v * alphaA, to[i] * alphaB, t) / alpha;
+    });
 
-      let t: string = "ff";
-      if (len == 3 || len == 4) {
-        let arr: string[] = a.split("");
-        if (len == 4) {
-          t = arr.pop() as string;
-          t = `${alpha}${alpha}`;
-        }
-        a = "";
-        arr.forEach((val) => {
-          a += `${val}${val}`;
-        });
-      } else if (len == 8) {
-        let arr: string[] = a.split("");
-        let t1 = arr.pop();
-        let t2 = arr.pop();
-        a = arr.join("");
-        t = `${t2}${t1}`;
+    let result: Color = Color.fromColorObject({color: 0, alpha: Math.round(alpha * 255)});
+    switch (space) {
+      case MixSpace.RGB:
+        result.c = Math.round(clamp(mixed[0], 1) * 255) << 16 | Math.round(clamp(mixed[1], 1) * 255) << 8 | Math.round(clamp(mixed[2], 1) * 255);
+        return result;
+      case MixSpace.LinearRGB:
+        return result.setLinear(mixed, GamutMapping.Clip);
+      case MixSpace.HSL:
+        result.c = Color.getColorValueFromHSL((mixed[0] % 360 + 360) % 360, mixed[1], mixed[2]).color;
+        return result;
+      case MixSpace.OKLab:
+        return result.setLinear(okLabToLinearRGB({l: mixed[0], a: mixed[1], b: mixed[2]}));
+    }
+  }
+
+  /**
+   * Composites a source {@link Color} with a destination {@link Color} using a Porter-Duff operator
+   * @param src - The source {@link Color}
+   * @param dst - The destination {@link Color}
+   * @param op - The {@link CompositeOperation} to use
+   */
+  public static composite(src: Color, dst: Color, op: CompositeOperation = CompositeOperation.SourceOver): Color {
+    return Color.fromCompositeObject(compositeChannels(src.toCompositeObject(), dst.toCompositeObject(), op));
+  }
+
+  /**
+   * Blends a source {@link Color} onto a destination {@link Color} and composites it with source-over
+   * @param src - The source {@link Color}
+   * @param dst - The destination {@link Color}, also known as the backdrop
+   * @param mode - The {@link BlendMode} to use
+   */
+  public static blend(src: Color, dst: Color, mode: BlendMode = BlendMode.Normal): Color {
+    return Color.fromCompositeObject(blendOver(src.toCompositeObject(), dst.toCompositeObject(), mode));
+  }
+
+  /** Converts the {@link Color} to a {@link CompositeObject} */
+  private toCompositeObject(): CompositeObject {
+    return {rgb: [this.red / 255, this.green / 255, this.blue / 255], alpha: clamp(this.alpha, 255) / 255};
+  }
+
+  /**
+   * Creates a {@link Color} from a {@link CompositeObject}
+   * @param obj - The {@link CompositeObject} to use
+   */
+  private static fromCompositeObject({rgb, alpha}: CompositeObject): Color {
+    let [r, g, b] = rgb.map((c) => Math.round(c * 255));
+    return Color.fromColorObject({color: r << 16 | g << 8 | b, alpha: Math.round(alpha * 255)});
+  }
+
+  /**
+   * Finds the perceptual difference between two {@link Color}s, ignoring alpha
+   * @param a - The reference {@link Color}
+   * @param b - The sample {@link Color}
+   * @param method - The {@link DeltaEMethod} to use
+   */
+  public static deltaE(a: Color, b: Color, method: DeltaEMethod = DeltaEMethod.CIEDE2000): number {
+    if (a.color == b.color) return 0;
+    switch (method) {
+      case DeltaEMethod.CIE76:
+        return deltaE76(a.lab, b.lab);
+      case DeltaEMethod.CIE94:
+        return deltaE94(a.lab, b.lab);
+      case DeltaEMethod.CIEDE2000:
+        return deltaE2000(a.lab, b.lab);
+      case DeltaEMethod.OK:
+        return deltaEOK(a.oklab, b.oklab) * 100;
+    }
+  }
+
+  /**
+   * Finds the entry of a palette that is perceptually closest to a {@link Color}
+   * @param color - The {@link Color} to look up
+   * @param palette - The {@link Color}s to choose from
+   * @param method - The {@link DeltaEMethod} to use
+   * @returns The closest entry, or undefined when the palette is empty
+   */
+  public static nearest(color: Color, palette: Iterable<Color>, method: DeltaEMethod = DeltaEMethod.CIEDE2000): NearestColorObject|undefined {
+    let nearest: NearestColorObject|undefined;
+    let index: number = 0;
+    for (let entry of palette) {
+      let distance: number = Color.deltaE(color, entry, method);
+      if (!nearest || distance < nearest.distance) nearest = {color: entry, index, distance};
+      if (distance == 0) break;
+      index++;
+    }
+    return nearest;
+  }
+
+  /**
+   * Finds the WCAG 2.x contrast ratio between two {@link Color}s, ignoring alpha
+   * @param a - A {@link Color}
+   * @param b - A {@link Color}
+   */
+  public static contrast(a: Color, b: Color): number {
+    return contrastRatio(a.luminance, b.luminance);
+  }
+
+  /**
+   * Evaluates a text and background pair against the WCAG 2.x conformance levels
+   * @param foreground - The text {@link Color}
+   * @param background - The background {@link Color}
+   */
+  public static wcag(foreground: Color, background: Color): WCAGObject {
+    return wcagLevels(Color.contrast(foreground, background));
+  }
+
+  /**
+   * Finds the APCA lightness contrast (Lc) of text on a background, ignoring alpha
+   * @param text - The text {@link Color}
+   * @param background - The background {@link Color}
+   */
+  public static apca(text: Color, background: Color): number {
+    return apcaContrast(apcaLuminance([text.red, text.green, text.blue]), apcaLuminance([background.red, background.green, background.blue]));
+  }
+
+  /**
+   * Adjusts the lightness of a foreground {@link Color} as little as possible until it reaches a contrast against a background
+   * @param foreground - The text {@link Color} to adjust, which is left unchanged
+   * @param background - The background {@link Color}
+   * @param target - The contrast to reach, a WCAG ratio or an absolute APCA Lc value
+   * @param algorithm - The {@link ContrastAlgorithm} the target is measured with
+   * @returns A new {@link Color}, which is as close as possible to the target when it can't be reached
+   */
+  public static ensureContrast(foreground: Color, background: Color, target: number = 4.5, algorithm: ContrastAlgorithm = ContrastAlgorithm.WCAG): Color {
+    let measure = (color: Color): number => algorithm == ContrastAlgorithm.WCAG ? Color.contrast(color, background) : Math.abs(Color.apca(color, background));
+    let {hue, saturation, lightness} = foreground.hsl;
+    let withLightness = (l: number): Color => Color.fromColorObject(Color.getColorValueFromHSL(hue, saturation, l, foreground.alpha));
+
+    if (measure(foreground) >= target) return foreground.clone();
+
+    let lighter: Color|undefined;
+    if (measure(withLightness(100)) >= target) {
+      let min: number = lightness;
+      let max: number = 100;
+      while (max - min > 0.05) {
+        let mid: number = (min + max) / 2;
+        if (measure(withLightness(mid)) >= target) max = mid;
+        else min = mid;
+      }
+      lighter = withLightness(max);
+    }
+
+    let darker: Color|undefined;
+    if (measure(withLightness(0)) >= target) {
+      let min: number = 0;
+      let max: number = lightness;
+      while (max - min > 0.05) {
+        let mid: number = (min + max) / 2;
+        if (measure(withLightness(mid)) >= target) min = mid;
+        else max = mid;
       }
+      darker = withLightness(min);
+    }
+
+    if (lighter && darker) return lighter.lightness - lightness <= lightness - darker.lightness ? lighter : darker;
+    if (lighter || darker) return (lighter || darker) as Color;
+
+    let white: Color = withLightness(100);
+    let black: Color = withLightness(0);
+    return measure(white) >= measure(black) ? white : black;
+  }
+
+  /**
+   * Converts the {@link Color} to a {@link hexadecimal} string
+   * @param alpha - Whether to include the alpha value, defaults to only when the color isn't opaque
+   */
+  public toHex(alpha: boolean = this.alpha != 255): hexadecimal {
+    let hex: string = (this.color | 0x1000000).toString(16).substring(1);
+    if (alpha) hex += (Math.round(clamp(this.alpha, 255)) | 0x100).toString(16).substring(1);
+    return `#${hex}`;
+  }
+
+  /** Converts the {@link Color} to a packed 32-bit integer laid out as 0xRRGGBBAA */
+  public toPacked(): number {
+    return (this.color << 8 | Math.round(clamp(this.alpha, 255))) >>> 0;
+  }
+
+  /**
+   * Creates a {@link Color} from a packed 32-bit integer laid out as 0xRRGGBBAA
+   * @param rgba - The packed integer
+   */
+  public static fromPacked(rgba: number): Color {
+    return Color.fromColorObject({color: rgba >>> 8, alpha: rgba & 0xff});
+  }
+
+  /**
+   * Converts the {@link Color} to a CSS color string
+   * @param format - The {@link CSSFormat} to write the color in
+   */
+  public toCSS(format: CSSFormat = CSSFormat.RGB): string {
+    let alpha: string = this.alpha == 255 ? "" : ` / ${+(clamp(this.alpha, 255) / 255).toFixed(3)}`;
+    switch (format) {
+      case CSSFormat.Hex:
+        return this.toHex();
+      case CSSFormat.RGB:
+        return `rgb(${this.red} ${this.green} ${this.blue}${alpha})`;
+      case CSSFormat.HSL:
+        return `hsl(${this.hue} ${this.saturation}% ${this.lightness}%${alpha})`;
+      case CSSFormat.HWB:
+        let {hue, whiteness, blackness} = this.hwb;
+        return `hwb(${hue} ${whiteness}% ${blackness}%${alpha})`;
+      case CSSFormat.Named:
+        if (this.alpha == 0 && this.color == 0) return "transparent";
+        if (this.alpha == 255) {
+          for (let name in namedColors) {
+            if (namedColors[name] == this.color) return name;
+          }
+        }
+        return this.toHex();
+      case CSSFormat.Lab:
+        let lab: LabObject = this.lab;
+        return `lab(${+lab.l.toFixed(2)} ${+lab.a.toFixed(2)} ${+lab.b.toFixed(2)}${alpha})`;
+      case CSSFormat.LCh:
+        let lch: LChObject = this.lch;
+        return `lch(${+lch.l.toFixed(2)} ${+lch.c.toFixed(2)} ${+lch.h.toFixed(2)}${alpha})`;
+      case CSSFormat.OKLab:
+        let oklab: LabObject = this.oklab;
+        return `oklab(${+oklab.l.toFixed(4)} ${+oklab.a.toFixed(4)} ${+oklab.b.toFixed(4)}${alpha})`;
+      case CSSFormat.OKLCh:
+        let oklch: LChObject = this.oklch;
+        return `oklch(${+oklch.l.toFixed(4)} ${+oklch.c.toFixed(4)} ${+oklch.h.toFixed(2)}${alpha})`;
+    }
+  }
+
+  /** Converts the {@link Color} to a {@link String} */
+  public toString(): string {
+    return this.toHex();
+  }
+
+  /** Converts the {@link Color} to the versioned {@link ColorJSON} schema, which {@link JSON.stringify} uses */
+  public toJSON(): ColorJSON {
+    return {version: jsonVersion, type: "Color", red: this.red, green: this.green, blue: this.blue, alpha: Math.round(clamp(this.alpha, 255))};
+  }
+
+  /**
+   * Creates a {@link Color} from the {@link ColorJSON} schema
+   * @param json - Either a {@link ColorJSON} or a string of it
+   */
+  public static fromJSON(json: ColorJSON|string): Color {
+    let channels: number[] = readJSON(json, "Color", ["red", "green", "blue", "alpha"], jsonVersion, ColorParseError);
+    return Color.fromRGB(channels[0], channels[1], channels[2], channels[3]);
+  }
+
+  /**
+   * Parses a CSS color string
+   * @param css - A hexadecimal, named, rgb(), rgba(), hsl(), hsla(), hwb(), lab(), lch(), oklab() or oklch() color in either the legacy comma or the space separated syntax
+   */
+  public static parse(css: string): Color {
+    let str: string = css.trim().toLowerCase();
+    if (str.length == 0) throw new ColorParseError("Empty Color String Provided.", css);
+    if (str.startsWith("#")) return Color.fromColorObject(Color.parseHex(str, css));
+    if (str == "transparent") return Color.fromColorObject({color: 0, alpha: 0});
+    if (namedColors.hasOwnProperty(str)) return Color.fromColorObject({color: namedColors[str], alpha: 255});
+
+    let match: RegExpExecArray|null = /^([a-z]+)\((.*)\)$/.exec(str);
+    if (!match) throw new ColorParseError(`Unknown color "${str}" in "${css}".`, css);
+
+    let [, name, body] = match;
+    let {channels, alpha} = Color.parseArguments(body, css);
+    let a: number = Color.parseAlphaToken(alpha, css);
+    switch (name) {
+      case "rgb":
+      case "rgba":
+        let [r, g, b] = channels.map((token) => Color.parseRGBToken(token, css));
+        return Color.fromColorObject({color: r << 16 | g << 8 | b, alpha: a});
+      case "hsl":
+      case "hsla":
+        return Color.fromColorObject(Color.getColorValueFromHSL(Color.parseHueToken(channels[0], css), Color.parsePercentToken(channels[1], css), Color.parsePercentToken(channels[2], css), a));
+      case "hwb":
+        return Color.fromColorObject(Color.getColorValueFromHWB(Color.parseHueToken(channels[0], css), Color.parsePercentToken(channels[1], css), Color.parsePercentToken(channels[2], css), a));
+      case "lab":
+        return Color.fromLab(clamp(Color.parseNumberToken(channels[0], 100, css), 100), Color.parseNumberToken(channels[1], 125, css), Color.parseNumberToken(channels[2], 125, css), a);
+      case "lch":
+        return Color.fromLCh(clamp(Color.parseNumberToken(channels[0], 100, css), 100), Math.max(0, Color.parseNumberToken(channels[1], 150, css)), Color.parseHueToken(channels[2], css), a);
+      case "oklab":
+        return Color.fromOKLab(clamp(Color.parseNumberToken(channels[0], 1, css), 1), Color.parseNumberToken(channels[1], 0.4, css), Color.parseNumberToken(channels[2], 0.4, css), a);
+      case "oklch":
+        return Color.fromOKLCh(clamp(Color.parseNumberToken(channels[0], 1, css), 1), Math.max(0, Color.parseNumberToken(channels[1], 0.4, css)), Color.parseHueToken(channels[2], css), a);
+      default:
+        throw new ColorParseError(`Unknown color function "${name}" in "${css}".`, css);
+    }
+  }
+
+  /**
+   * Creates a {@link Color} from an already parsed {@link ColorObject}
+   * @param obj - The {@link ColorObject} to use
+   */
+  private static fromColorObject({color, alpha}: ColorObject): Color {
+    Color.checkChannels([alpha]);
+    let result: Color = new Color("#000000");
+    result.c = color;
+    result.a = alpha;
+    return result;
+  }
+
+  /**
+   * Parses a {@link hexadecimal} CSS token
+   * @param token - The hexadecimal token including the leading #
+   * @param css - The full CSS string, used for error messages
+   */
+  private static parseHex(token: string, css: string): ColorObject {
+    let hex: string = token.substring(1);
+    let len: number = hex.length;
+    if (!/^[0-9a-f]*$/.test(hex) || (len != 3 && len != 4 && len != 6 && len != 8)) {
+      throw new ColorParseError(`Invalid hexadecimal token "${token}" in "${css}".`, css);
+    }
+    if (len < 6) hex = hex.split("").map((val) => `${val}${val}`).join("");
+    return {color: parseInt(hex.substring(0, 6), 16), alpha: hex.length == 8 ? parseInt(hex.substring(6), 16) : 255};
+  }
 
-      a = parseInt(`0x${a}`);
-      alpha = parseInt(`0x${t}`);
+  /**
+   * Splits the body of a CSS color function into its channel and alpha tokens
+   * @param body - The text between the parentheses
+   * @param css - The full CSS string, used for error messages
+   */
+  private static parseArguments(body: string, css: string): {channels: string[], alpha?: string} {
+    let channels: string[];
+    let alpha: string|undefined;
+    if (body.indexOf(",") != -1) {
+      channels = body.split(",").map((token) => token.trim());
+      if (channels.length == 4) alpha = channels.pop();
+    } else {
+      let parts: string[] = body.split("/");
+      if (parts.length > 2) throw new ColorParseError(`Unexpected token "/" in "${css}".`, css);
+      channels = parts[0].trim().split(/\s+/);
+      if (parts.length == 2) alpha = parts[1].trim();
     }
+    if (channels.length != 3) throw new ColorParseError(`Expected 3 channels but found ${channels.length} in "${css}".`, css);
+    return {channels, alpha};
+  }
+
+  /**
+   * Splits a numeric CSS token into its value and unit
+   * @param token - The token to parse
+   * @param units - The units allowed for this token, an empty string allowing plain numbers
+   * @param css - The full CSS string, used for error messages
+   */
+  private static parseToken(token: string, units: string[], css: string): {value: number, unit: string} {
+    if (token == "none") return {value: 0, unit: ""};
+    let match: RegExpExecArray|null = numericToken.exec(token);
+    let unit: string = match && match[2] ? match[2] : "";
+    if (!match || units.indexOf(unit) == -1) throw new ColorParseError(`Invalid token "${token}" in "${css}".`, css);
+    return {value: parseFloat(match[1]), unit};
+  }
+
+  /**
+   * Parses a red, green or blue token into a number between 0 and 255
+   * @param token - The token to parse
+   * @param css - The full CSS string, used for error messages
+   */
+  private static parseRGBToken(token: string, css: string): number {
+    let {value, unit} = Color.parseToken(token, ["", "%"], css);
+    return Math.round(clamp(unit == "%" ? value * 2.55 : value, 255));
+  }
 
-    if (!isNumber && !b && !c) return {color: a, alpha: alpha as number};
+  /**
+   * Parses a saturation, lightness, whiteness or blackness token into a number between 0 and 100
+   * @param token - The token to parse
+   * @param css - The full CSS string, used for error messages
+   */
+  private static parsePercentToken(token: string, css: string): number {
+    return clamp(Color.parseToken(token, ["", "%"], css).value, 100);
+  }
+
+  /**
+   * Parses a plain number or percentage token
+   * @param token - The token to parse
+   * @param percent - The value that 100% represents
+   * @param css - The full CSS string, used for error messages
+   */
+  private static parseNumberToken(token: string, percent: number, css: string): number {
+    let {value, unit} = Color.parseToken(token, ["", "%"], css);
+    return unit == "%" ? value / 100 * percent : value;
+  }
+
+  /**
+   * Parses a hue token into a number of degrees between 0 and 360
+   * @param token - The token to parse
+   * @param css - The full CSS string, used for error messages
+   */
+  private static parseHueToken(token: string, css: string): number {
+    let {value, unit} = Color.parseToken(token, ["", "deg", "grad", "rad", "turn"], css);
+    switch (unit) {
+      case "grad":
+        value *= 0.9;
+        break;
+      case "rad":
+        value *= 180 / Math.PI;
+        break;
+      case "turn":
+        value *= 360;
+        break;
+    }
+    return (value % 360 + 360) % 360;
+  }
+
+  /**
+   * Parses an alpha token into a number between 0 and 255
+   * @param token - The token to parse, or undefined when the color is opaque
+   * @param css - The full CSS string, used for error messages
+   */
+  private static parseAlphaToken(token: string|undefined, css: string): number {
+    if (token === undefined) return 255;
+    let {value, unit} = Color.parseToken(token, ["", "%"], css);
+    return Math.round(clamp(unit == "%" ? value / 100 : value, 1) * 255);
+  }
+
+  /**
+   * Throws if any channel falls outside of 0 to a max
+   * @param channels - The channel values by name
+   * @param max - The max value of every channel
+   */
+  private static checkRanges(channels: {[name: string]: number}, max: number): void {
+    for (let name in channels) {
+      let v: number = channels[name];
+      if (!(v >= 0 && v <= max)) throw new InvalidColorError(`${name[0].toUpperCase()}${name.slice(1)} Must Be Between 0 And ${max} But Was ${v}.`, v);
+    }
+  }
+
+  /**
+   * Throws an {@link InvalidColorError} if strict validation is on and any channel isn't a finite number
+   * @param channels - The channel values to check, where undefined ones are skipped
+   */
+  private static checkChannels(channels: (number|undefined)[]): void {
+    checkFinite(channels, (v) => new InvalidColorError(`Color Channels Must Be Finite Numbers But Found ${v}.`, v));
+  }
+
+  /**
+   * Wraps a hue into 0 to 360 degrees
+   * @param hue - The hue in degrees
+   */
+  private static wrapHue(hue: number): number {
+    if (!isFinite(hue)) throw new InvalidColorError(`Hue Must Be A Finite Number But Was ${hue}.`, hue);
+    return (hue % 360 + 360) % 360;
+  }
+
+  /**
+   * Parses parameters
+   * @param a - Either a {@link hexadecimal} or a number representing the first channel of the current {@link ColorMode}
+   * @param b - A number representing the second channel of the current {@link ColorMode}
+   * @param c - A number representing the third channel of the current {@link ColorMode}
+   * @param alpha - A number representing the Alpha value, or the Key value in {@link ColorMode.CMYK}
+   * @param e - A number representing the Alpha value in {@link ColorMode.CMYK}
+   */
+  private static parseParameters(a: hexadecimal|number, b?: number, c?: number, alpha?: number, e?: number): ColorObject {
+    if (typeof a === "string") return Color.parseHex((a.startsWith("#") ? a : `#${a}`).toLowerCase(), a);
+
+    if (Color.colorMode == ColorMode.CMYK) {
+      return Color.getColorValueFromCMYK(a, b === undefined ? 0 : b, c === undefined ? 0 : c, alpha === undefined ? 0 : alpha, e === undefined ? 255 : e);
+    }
 
-    if (!alpha) alpha = 255;
+    if (alpha === undefined) alpha = 255;
 
     switch(Color.colorMode) {
       case ColorMode.RGB:
-        if (!b) b = a;
-        if (!c) c = a;
-        return Color.getColorValueFromRGB(a, b as number, c as number, alpha);
+        return Color.getColorValueFromRGB(a, b === undefined ? a : b, c === undefined ? a : c, alpha);
       case ColorMode.HSL:
-        if (!b) b = 50;
-        if (!c) c = 50;
-        return Color.getColorValueFromHSL(a, b as number, c as number, alpha);
+        return Color.getColorValueFromHSL(a, b === undefined ? 50 : b, c === undefined ? 50 : c, alpha);
+      case ColorMode.HSV:
+        return Color.getColorValueFromHSV(a, b === undefined ? 100 : b, c === undefined ? 100 : c, alpha);
+      case ColorMode.HWB:
+        return Color.getColorValueFromHWB(a, b === undefined ? 0 : b, c === undefined ? 0 : c, alpha);
     }
   }
 }
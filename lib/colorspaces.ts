@@ -0,0 +1,358 @@
+"use strict";
+
+import {clamp} from "./fmath";
+
+/** An {@link XYZObject} containing CIE XYZ tristimulus values relative to the D65 white point, where Y is 1 for white */
+export interface XYZObject {
+  /** The color value the {@link XYZObject} was generated from */
+  readonly color?: number;
+  /** The X value */
+  x: number;
+  /** The Y value, also known as the relative luminance */
+  y: number;
+  /** The Z value */
+  z: number;
+}
+
+/** A {@link LabObject} containing lightness and two opponent axes, used by both CIE Lab and OKLab */
+export interface LabObject {
+  /** The color value the {@link LabObject} was generated from */
+  readonly color?: number;
+  /** The lightness, 0 to 100 for CIE Lab and 0 to 1 for OKLab */
+  l: number;
+  /** The green-red axis */
+  a: number;
+  /** The blue-yellow axis */
+  b: number;
+}
+
+/** A {@link LChObject} containing the cylindrical form of a {@link LabObject} */
+export interface LChObject {
+  /** The color value the {@link LChObject} was generated from */
+  readonly color?: number;
+  /** The lightness, 0 to 100 for CIE LCh and 0 to 1 for OKLCh */
+  l: number;
+  /** The chroma */
+  c: number;
+  /** The hue in degrees */
+  h: number;
+}
+
+/** How colors outside of the sRGB gamut are brought back into it */
+export enum GamutMapping {
+  /** Clamps each channel independently, which is fast but can shift the hue */
+  Clip=0,
+  /** Reduces chroma in OKLCh until the color fits, as described by CSS Color Module Level 4 */
+  Map=1
+}
+
+/** Describes what happened to a color when it was converted into sRGB */
+export enum GamutStatus {
+  /** The color was already inside the sRGB gamut */
+  InGamut=0,
+  /** The color was clipped into the sRGB gamut */
+  Clipped=1,
+  /** The color was gamut mapped into the sRGB gamut */
+  Mapped=2
+}
+
+/** The formulas available for measuring the difference between two colors */
+export enum DeltaEMethod {
+  /** The Euclidean distance in CIE Lab (CIE 1976) */
+  CIE76=0,
+  /** The CIE 1994 formula using the graphic arts weights */
+  CIE94=1,
+  /** The CIEDE2000 formula */
+  CIEDE2000=2,
+  /** The Euclidean distance in OKLab, scaled by 100 to match the other methods */
+  OK=3
+}
+
+/** The D50 reference white used by CIE Lab */
+const D50: number[] = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+/** The CIE standard epsilon */
+const LAB_E: number = 216 / 24389;
+/** The CIE standard kappa */
+const LAB_K: number = 24389 / 27;
+/** The deltaEOK below which two colors are considered indistinguishable while gamut mapping */
+const JND: number = 0.02;
+/** The tolerance used when testing whether a color is inside the sRGB gamut */
+const GAMUT_EPSILON: number = 0.00001;
+
+/**
+ * Multiplies a 3x3 row-major matrix with a 3 component vector
+ * @param m - The matrix
+ * @param v - The vector
+ */
+function multiply(m: number[][], v: number[]): number[] {
+  return m.map((row) => row[0] * v[0] + row[1] * v[1] + row[2] * v[2]);
+}
+
+/**
+ * Converts a gamma encoded sRGB channel to linear light
+ * @param c - A number between 0 and 1
+ */
+export function srgbToLinear(c: number): number {
+  let abs: number = Math.abs(c);
+  return abs <= 0.04045 ? c / 12.92 : Math.sign(c) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Converts a linear light channel to gamma encoded sRGB
+ * @param c - A number between 0 and 1
+ */
+export function linearToSRGB(c: number): number {
+  let abs: number = Math.abs(c);
+  return abs <= 0.0031308 ? c * 12.92 : Math.sign(c) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+}
+
+/**
+ * Converts linear sRGB to CIE XYZ (D65)
+ * @param rgb - The linear red, green and blue channels between 0 and 1
+ */
+export function linearRGBToXYZ(rgb: number[]): XYZObject {
+  let [x, y, z] = multiply([
+    [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+    [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+    [0.01933081871559182, 0.11919477979462598, 0.9505321522496607]
+  ], rgb);
+  return {x, y, z};
+}
+
+/**
+ * Converts CIE XYZ (D65) to linear sRGB, which may fall outside of 0 to 1
+ * @param xyz - The {@link XYZObject} to convert
+ */
+export function xyzToLinearRGB({x, y, z}: XYZObject): number[] {
+  return multiply([
+    [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+    [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+    [0.05563007969699366, -0.20397695888897652, 1.0569715142428786]
+  ], [x, y, z]);
+}
+
+/**
+ * Converts CIE XYZ (D65) to CIE Lab, adapted to the D50 white point with the Bradford transform like CSS lab()
+ * @param xyz - The {@link XYZObject} to convert
+ */
+export function xyzToLab({x, y, z}: XYZObject): LabObject {
+  let d50: number[] = multiply([
+    [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+    [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+    [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008]
+  ], [x, y, z]);
+  let [fx, fy, fz] = d50.map((v, i) => {
+    let t: number = v / D50[i];
+    return t > LAB_E ? Math.cbrt(t) : (LAB_K * t + 16) / 116;
+  });
+  return {l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz)};
+}
+
+/**
+ * Converts CIE Lab (D50) to CIE XYZ (D65)
+ * @param lab - The {@link LabObject} to convert
+ */
+export function labToXYZ({l, a, b}: LabObject): XYZObject {
+  let fy: number = (l + 16) / 116;
+  let fx: number = a / 500 + fy;
+  let fz: number = fy - b / 200;
+  let d50: number[] = [
+    Math.pow(fx, 3) > LAB_E ? Math.pow(fx, 3) : (116 * fx - 16) / LAB_K,
+    l > LAB_K * LAB_E ? Math.pow(fy, 3) : l / LAB_K,
+    Math.pow(fz, 3) > LAB_E ? Math.pow(fz, 3) : (116 * fz - 16) / LAB_K
+  ].map((v, i) => v * D50[i]);
+  let [x, y, z] = multiply([
+    [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+    [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+    [0.012314001688319899, -0.020507696433477912, 1.3303659366080753]
+  ], d50);
+  return {x, y, z};
+}
+
+/**
+ * Converts a {@link LabObject} to its cylindrical {@link LChObject} form
+ * @param lab - The {@link LabObject} to convert
+ */
+export function labToLCh({l, a, b}: LabObject): LChObject {
+  let h: number = Math.atan2(b, a) * 180 / Math.PI;
+  return {l, c: Math.sqrt(a * a + b * b), h: h < 0 ? h + 360 : h};
+}
+
+/**
+ * Converts a {@link LChObject} to its rectangular {@link LabObject} form
+ * @param lch - The {@link LChObject} to convert
+ */
+export function lchToLab({l, c, h}: LChObject): LabObject {
+  let rad: number = h * Math.PI / 180;
+  return {l, a: c * Math.cos(rad), b: c * Math.sin(rad)};
+}
+
+/**
+ * Converts linear sRGB to OKLab
+ * @param rgb - The linear red, green and blue channels between 0 and 1
+ */
+export function linearRGBToOKLab(rgb: number[]): LabObject {
+  let lms: number[] = multiply([
+    [0.4122214708, 0.5363325363, 0.0514459929],
+    [0.2119034982, 0.6806995451, 0.1073969566],
+    [0.0883024619, 0.2817188376, 0.6299787005]
+  ], rgb).map(Math.cbrt);
+  let [l, a, b] = multiply([
+    [0.2104542553, 0.7936177850, -0.0040720468],
+    [1.9779984951, -2.4285922050, 0.4505937099],
+    [0.0259040371, 0.7827717662, -0.8086757660]
+  ], lms);
+  return {l, a, b};
+}
+
+/**
+ * Converts OKLab to linear sRGB, which may fall outside of 0 to 1
+ * @param lab - The {@link LabObject} to convert
+ */
+export function okLabToLinearRGB({l, a, b}: LabObject): number[] {
+  let lms: number[] = multiply([
+    [1, 0.3963377774, 0.2158037573],
+    [1, -0.1055613458, -0.0638541728],
+    [1, -0.0894841775, -1.2914855480]
+  ], [l, a, b]).map((v) => v * v * v);
+  return multiply([
+    [4.0767416621, -3.3077115913, 0.2309699292],
+    [-1.2684380046, 2.6097574011, -0.3413193965],
+    [-0.0041960863, -0.7034186147, 1.7076147010]
+  ], lms);
+}
+
+/**
+ * Evaluates if linear sRGB channels are inside the sRGB gamut
+ * @param rgb - The linear red, green and blue channels
+ */
+export function inSRGBGamut(rgb: number[]): boolean {
+  return rgb.every((c) => c >= -GAMUT_EPSILON && c <= 1 + GAMUT_EPSILON);
+}
+
+/**
+ * Finds the Euclidean distance between two OKLab colors
+ * @param a - A {@link LabObject} in OKLab
+ * @param b - A {@link LabObject} in OKLab
+ */
+export function deltaEOK(a: LabObject, b: LabObject): number {
+  return Math.sqrt(Math.pow(a.l - b.l, 2) + Math.pow(a.a - b.a, 2) + Math.pow(a.b - b.b, 2));
+}
+
+/**
+ * Brings linear sRGB channels into the sRGB gamut and encodes them
+ * @param rgb - The linear red, green and blue channels
+ * @param mapping - The {@link GamutMapping} to use for out of gamut colors
+ * @returns The gamma encoded channels between 0 and 1 along with the {@link GamutStatus}
+ */
+export function toSRGBGamut(rgb: number[], mapping: GamutMapping = GamutMapping.Map): {rgb: number[], status: GamutStatus} {
+  let clip = (linear: number[]): number[] => linear.map((c) => clamp(linearToSRGB(c), 1));
+  if (inSRGBGamut(rgb)) return {rgb: clip(rgb), status: GamutStatus.InGamut};
+  if (mapping == GamutMapping.Clip) return {rgb: clip(rgb), status: GamutStatus.Clipped};
+
+  let origin: LChObject = labToLCh(linearRGBToOKLab(rgb));
+  if (origin.l >= 1) return {rgb: [1, 1, 1], status: GamutStatus.Mapped};
+  if (origin.l <= 0) return {rgb: [0, 0, 0], status: GamutStatus.Mapped};
+
+  let toClipped = (lab: LabObject): number[] => clip(okLabToLinearRGB(lab));
+  let clippedLab = (encoded: number[]): LabObject => linearRGBToOKLab(encoded.map(srgbToLinear));
+
+  let current: LChObject = {l: origin.l, c: origin.c, h: origin.h};
+  let clipped: number[] = toClipped(lchToLab(current));
+  if (deltaEOK(clippedLab(clipped), lchToLab(current)) < JND) return {rgb: clipped, status: GamutStatus.Mapped};
+
+  let min: number = 0;
+  let max: number = origin.c;
+  let minInGamut: boolean = true;
+  while (max - min > 0.0001) {
+    current.c = (min + max) / 2;
+    let lab: LabObject = lchToLab(current);
+    if (minInGamut && inSRGBGamut(okLabToLinearRGB(lab))) {
+      min = current.c;
+      continue;
+    }
+    clipped = toClipped(lab);
+    let e: number = deltaEOK(clippedLab(clipped), lab);
+    if (e < JND) {
+      if (JND - e < 0.0001) break;
+      minInGamut = false;
+      min = current.c;
+    } else {
+      max = current.c;
+    }
+  }
+  return {rgb: toClipped(lchToLab(current)), status: GamutStatus.Mapped};
+}
+
+/**
+ * Finds the CIE 1976 difference between two CIE Lab colors
+ * @param a - A {@link LabObject} in CIE Lab
+ * @param b - A {@link LabObject} in CIE Lab
+ */
+export function deltaE76(a: LabObject, b: LabObject): number {
+  return Math.sqrt(Math.pow(a.l - b.l, 2) + Math.pow(a.a - b.a, 2) + Math.pow(a.b - b.b, 2));
+}
+
+/**
+ * Finds the CIE 1994 difference between two CIE Lab colors
+ * @param a - The reference {@link LabObject} in CIE Lab
+ * @param b - The sample {@link LabObject} in CIE Lab
+ * @param kL - The lightness weight, 1 for graphic arts and 2 for textiles
+ * @param k1 - The chroma weight, 0.045 for graphic arts and 0.048 for textiles
+ * @param k2 - The hue weight, 0.015 for graphic arts and 0.014 for textiles
+ */
+export function deltaE94(a: LabObject, b: LabObject, kL: number = 1, k1: number = 0.045, k2: number = 0.015): number {
+  let c1: number = Math.sqrt(a.a * a.a + a.b * a.b);
+  let c2: number = Math.sqrt(b.a * b.a + b.b * b.b);
+  let dL: number = a.l - b.l;
+  let dC: number = c1 - c2;
+  let dH2: number = Math.pow(a.a - b.a, 2) + Math.pow(a.b - b.b, 2) - dC * dC;
+  let sC: number = 1 + k1 * c1;
+  let sH: number = 1 + k2 * c1;
+  return Math.sqrt(Math.pow(dL / kL, 2) + Math.pow(dC / sC, 2) + Math.max(0, dH2) / (sH * sH));
+}
+
+/**
+ * Finds the CIEDE2000 difference between two CIE Lab colors
+ * @param a - A {@link LabObject} in CIE Lab
+ * @param b - A {@link LabObject} in CIE Lab
+ */
+export function deltaE2000(a: LabObject, b: LabObject): number {
+  let rad: number = Math.PI / 180;
+  let cBar: number = (Math.sqrt(a.a * a.a + a.b * a.b) + Math.sqrt(b.a * b.a + b.b * b.b)) / 2;
+  let g: number = 0.5 * (1 - Math.sqrt(Math.pow(cBar, 7) / (Math.pow(cBar, 7) + Math.pow(25, 7))));
+
+  let a1: number = a.a * (1 + g);
+  let a2: number = b.a * (1 + g);
+  let c1: number = Math.sqrt(a1 * a1 + a.b * a.b);
+  let c2: number = Math.sqrt(a2 * a2 + b.b * b.b);
+  let h1: number = c1 == 0 ? 0 : (Math.atan2(a.b, a1) / rad + 360) % 360;
+  let h2: number = c2 == 0 ? 0 : (Math.atan2(b.b, a2) / rad + 360) % 360;
+
+  let dL: number = b.l - a.l;
+  let dC: number = c2 - c1;
+  let dh: number = 0;
+  if (c1 * c2 != 0) {
+    dh = h2 - h1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  let dH: number = 2 * Math.sqrt(c1 * c2) * Math.sin(dh / 2 * rad);
+
+  let lBar: number = (a.l + b.l) / 2;
+  let cBarPrime: number = (c1 + c2) / 2;
+  let hBar: number = h1 + h2;
+  if (c1 * c2 != 0) {
+    if (Math.abs(h1 - h2) <= 180) hBar /= 2;
+    else hBar = h1 + h2 < 360 ? (hBar + 360) / 2 : (hBar - 360) / 2;
+  }
+
+  let t: number = 1 - 0.17 * Math.cos((hBar - 30) * rad) + 0.24 * Math.cos(2 * hBar * rad) + 0.32 * Math.cos((3 * hBar + 6) * rad) - 0.20 * Math.cos((4 * hBar - 63) * rad);
+  let sL: number = 1 + 0.015 * Math.pow(lBar - 50, 2) / Math.sqrt(20 + Math.pow(lBar - 50, 2));
+  let sC: number = 1 + 0.045 * cBarPrime;
+  let sH: number = 1 + 0.015 * cBarPrime * t;
+  let rC: number = 2 * Math.sqrt(Math.pow(cBarPrime, 7) / (Math.pow(cBarPrime, 7) + Math.pow(25, 7)));
+  let rT: number = -Math.sin(60 * Math.exp(-Math.pow((hBar - 275) / 25, 2)) * rad) * rC;
+
+  return Math.sqrt(Math.pow(dL / sL, 2) + Math.pow(dC / sC, 2) + Math.pow(dH / sH, 2) + rT * (dC / sC) * (dH / sH));
+}
@@ -0,0 +1,238 @@
+"use strict";
+
+import {clamp} from "./fmath";
+
+/** The Porter-Duff compositing operators from the W3C Compositing and Blending specification */
+export enum CompositeOperation {
+  /** Neither the source nor the destination is shown */
+  Clear=0,
+  /** Only the source is shown */
+  Copy=1,
+  /** Only the destination is shown */
+  Destination=2,
+  /** The source is placed over the destination */
+  SourceOver=3,
+  /** The destination is placed over the source */
+  DestinationOver=4,
+  /** The source where it overlaps the destination */
+  SourceIn=5,
+  /** The destination where it overlaps the source */
+  DestinationIn=6,
+  /** The source where it doesn't overlap the destination */
+  SourceOut=7,
+  /** The destination where it doesn't overlap the source */
+  DestinationOut=8,
+  /** The source over the destination, limited to where the destination is */
+  SourceAtop=9,
+  /** The destination over the source, limited to where the source is */
+  DestinationAtop=10,
+  /** The source and destination where they don't overlap */
+  Xor=11,
+  /** The sum of the source and destination */
+  Lighter=12
+}
+
+/** The blend modes from the W3C Compositing and Blending specification */
+export enum BlendMode {
+  /** The source replaces the backdrop */
+  Normal=0,
+  /** Multiplies the backdrop by the source, always darkening */
+  Multiply=1,
+  /** Inverts, multiplies and inverts again, always lightening */
+  Screen=2,
+  /** Multiplies or screens depending on the backdrop */
+  Overlay=3,
+  /** Keeps the darker of the backdrop and source */
+  Darken=4,
+  /** Keeps the lighter of the backdrop and source */
+  Lighten=5,
+  /** Brightens the backdrop to reflect the source */
+  ColorDodge=6,
+  /** Darkens the backdrop to reflect the source */
+  ColorBurn=7,
+  /** Multiplies or screens depending on the source */
+  HardLight=8,
+  /** Darkens or lightens depending on the source, like a diffused spotlight */
+  SoftLight=9,
+  /** Subtracts the darker of the backdrop and source from the lighter */
+  Difference=10,
+  /** Like difference but with lower contrast */
+  Exclusion=11,
+  /** The hue of the source with the saturation and luminosity of the backdrop */
+  Hue=12,
+  /** The saturation of the source with the hue and luminosity of the backdrop */
+  Saturation=13,
+  /** The hue and saturation of the source with the luminosity of the backdrop */
+  Color=14,
+  /** The luminosity of the source with the hue and saturation of the backdrop */
+  Luminosity=15
+}
+
+/** A {@link CompositeObject} containing unpremultiplied red, green and blue channels with an alpha, all between 0 and 1 */
+export interface CompositeObject {
+  /** The red, green and blue channels */
+  rgb: number[];
+  /** The alpha value */
+  alpha: number;
+}
+
+/**
+ * Finds the Porter-Duff source and destination factors of an operator
+ * @param op - The {@link CompositeOperation}
+ * @param as - The source alpha
+ * @param ab - The destination alpha
+ */
+function factors(op: CompositeOperation, as: number, ab: number): number[] {
+  switch (op) {
+    case CompositeOperation.Clear: return [0, 0];
+    case CompositeOperation.Copy: return [1, 0];
+    case CompositeOperation.Destination: return [0, 1];
+    case CompositeOperation.SourceOver: return [1, 1 - as];
+    case CompositeOperation.DestinationOver: return [1 - ab, 1];
+    case CompositeOperation.SourceIn: return [ab, 0];
+    case CompositeOperation.DestinationIn: return [0, as];
+    case CompositeOperation.SourceOut: return [1 - ab, 0];
+    case CompositeOperation.DestinationOut: return [0, 1 - as];
+    case CompositeOperation.SourceAtop: return [ab, 1 - as];
+    case CompositeOperation.DestinationAtop: return [1 - ab, as];
+    case CompositeOperation.Xor: return [1 - ab, 1 - as];
+    case CompositeOperation.Lighter: return [1, 1];
+  }
+}
+
+/**
+ * Composites a source over a destination with a Porter-Duff operator
+ * @param source - The source {@link CompositeObject}
+ * @param destination - The destination {@link CompositeObject}
+ * @param op - The {@link CompositeOperation} to use
+ */
+export function compositeChannels(source: CompositeObject, destination: CompositeObject, op: CompositeOperation = CompositeOperation.SourceOver): CompositeObject {
+  let [fa, fb] = factors(op, source.alpha, destination.alpha);
+  let alpha: number = clamp(source.alpha * fa + destination.alpha * fb, 1);
+  if (alpha == 0) return {rgb: [0, 0, 0], alpha: 0};
+  let rgb: number[] = source.rgb.map((cs, i) => clamp((source.alpha * fa * cs + destination.alpha * fb * destination.rgb[i]) / alpha, 1));
+  return {rgb, alpha};
+}
+
+/**
+ * Finds the luminosity used by the non-separable blend modes
+ * @param c - The red, green and blue channels
+ */
+function lum(c: number[]): number {
+  return 0.3 * c[0] + 0.59 * c[1] + 0.11 * c[2];
+}
+
+/**
+ * Brings channels shifted by {@link setLum} back between 0 and 1 while keeping their luminosity
+ * @param c - The red, green and blue channels
+ */
+function clipColor(c: number[]): number[] {
+  let l: number = lum(c);
+  let n: number = Math.min(c[0], c[1], c[2]);
+  let x: number = Math.max(c[0], c[1], c[2]);
+  if (n < 0) c = c.map((v) => l + (v - l) * l / (l - n));
+  if (x > 1) c = c.map((v) => l + (v - l) * (1 - l) / (x - l));
+  return c;
+}
+
+/**
+ * Shifts channels to a luminosity
+ * @param c - The red, green and blue channels
+ * @param l - The luminosity to shift to
+ */
+function setLum(c: number[], l: number): number[] {
+  let d: number = l - lum(c);
+  return clipColor(c.map((v) => v + d));
+}
+
+/**
+ * Finds the saturation used by the non-separable blend modes
+ * @param c - The red, green and blue channels
+ */
+function sat(c: number[]): number {
+  return Math.max(c[0], c[1], c[2]) - Math.min(c[0], c[1], c[2]);
+}
+
+/**
+ * Scales channels to a saturation
+ * @param c - The red, green and blue channels
+ * @param s - The saturation to scale to
+ */
+function setSat(c: number[], s: number): number[] {
+  let max: number = Math.max(c[0], c[1], c[2]);
+  let min: number = Math.min(c[0], c[1], c[2]);
+  if (max == min) return [0, 0, 0];
+  return c.map((v) => v == max ? s : v == min ? 0 : (v - min) * s / (max - min));
+}
+
+/**
+ * Applies a separable blend mode to a single channel
+ * @param mode - The {@link BlendMode} to use
+ * @param cb - The backdrop channel
+ * @param cs - The source channel
+ */
+function blendSeparable(mode: BlendMode, cb: number, cs: number): number {
+  switch (mode) {
+    case BlendMode.Multiply:
+      return cb * cs;
+    case BlendMode.Screen:
+      return cb + cs - cb * cs;
+    case BlendMode.Overlay:
+      return blendSeparable(BlendMode.HardLight, cs, cb);
+    case BlendMode.Darken:
+      return Math.min(cb, cs);
+    case BlendMode.Lighten:
+      return Math.max(cb, cs);
+    case BlendMode.ColorDodge:
+      if (cb == 0) return 0;
+      return cs == 1 ? 1 : Math.min(1, cb / (1 - cs));
+    case BlendMode.ColorBurn:
+      if (cb == 1) return 1;
+      return cs == 0 ? 0 : 1 - Math.min(1, (1 - cb) / cs);
+    case BlendMode.HardLight:
+      return cs <= 0.5 ? cb * 2 * cs : blendSeparable(BlendMode.Screen, cb, 2 * cs - 1);
+    case BlendMode.SoftLight:
+      if (cs <= 0.5) return cb - (1 - 2 * cs) * cb * (1 - cb);
+      let d: number = cb <= 0.25 ? ((16 * cb - 12) * cb + 4) * cb : Math.sqrt(cb);
+      return cb + (2 * cs - 1) * (d - cb);
+    case BlendMode.Difference:
+      return Math.abs(cb - cs);
+    case BlendMode.Exclusion:
+      return cb + cs - 2 * cb * cs;
+    default:
+      return cs;
+  }
+}
+
+/**
+ * Applies a blend mode to a backdrop and source color, ignoring alpha
+ * @param mode - The {@link BlendMode} to use
+ * @param cb - The backdrop red, green and blue channels between 0 and 1
+ * @param cs - The source red, green and blue channels between 0 and 1
+ */
+export function blendChannels(mode: BlendMode, cb: number[], cs: number[]): number[] {
+  switch (mode) {
+    case BlendMode.Hue:
+      return setLum(setSat(cs, sat(cb)), lum(cb));
+    case BlendMode.Saturation:
+      return setLum(setSat(cb, sat(cs)), lum(cb));
+    case BlendMode.Color:
+      return setLum(cs, lum(cb));
+    case BlendMode.Luminosity:
+      return setLum(cb, lum(cs));
+    default:
+      return cb.map((b, i) => blendSeparable(mode, b, cs[i]));
+  }
+}
+
+/**
+ * Blends a source onto a destination and composites the result with source-over
+ * @param source - The source {@link CompositeObject}
+ * @param destination - The destination {@link CompositeObject}
+ * @param mode - The {@link BlendMode} to use
+ */
+export function blendOver(source: CompositeObject, destination: CompositeObject, mode: BlendMode = BlendMode.Normal): CompositeObject {
+  let blended: number[] = blendChannels(mode, destination.rgb, source.rgb);
+  let rgb: number[] = source.rgb.map((cs, i) => (1 - destination.alpha) * cs + destination.alpha * clamp(blended[i], 1));
+  return compositeChannels({rgb, alpha: source.alpha}, destination, CompositeOperation.SourceOver);
+}
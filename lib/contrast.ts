@@ -0,0 +1,83 @@
+"use strict";
+
+/** A {@link WCAGObject} containing a WCAG 2.x contrast ratio and whether it passes each conformance level */
+export interface WCAGObject {
+  /** The contrast ratio between 1 and 21 */
+  ratio: number;
+  /** Whether normal text passes level AA, requiring a ratio of 4.5 */
+  AA: boolean;
+  /** Whether large text passes level AA, requiring a ratio of 3 */
+  AALarge: boolean;
+  /** Whether normal text passes level AAA, requiring a ratio of 7 */
+  AAA: boolean;
+  /** Whether large text passes level AAA, requiring a ratio of 4.5 */
+  AAALarge: boolean;
+}
+
+/** The algorithms available for measuring contrast between text and its background */
+export enum ContrastAlgorithm {
+  /** The WCAG 2.x contrast ratio, between 1 and 21 */
+  WCAG=0,
+  /** The APCA lightness contrast (Lc), roughly between -108 and 106 */
+  APCA=1
+}
+
+/** The constants of the APCA-W3 0.0.98G-4g algorithm */
+const APCA = {
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scale: 1.14,
+  loOffset: 0.027,
+  loClip: 0.1,
+  deltaYMin: 0.0005
+};
+
+/**
+ * Finds the WCAG 2.x contrast ratio between two relative luminances
+ * @param a - A relative luminance between 0 and 1
+ * @param b - A relative luminance between 0 and 1
+ */
+export function contrastRatio(a: number, b: number): number {
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+/**
+ * Evaluates a contrast ratio against the WCAG 2.x conformance levels
+ * @param ratio - A contrast ratio between 1 and 21
+ */
+export function wcagLevels(ratio: number): WCAGObject {
+  return {ratio, AA: ratio >= 4.5, AALarge: ratio >= 3, AAA: ratio >= 7, AAALarge: ratio >= 4.5};
+}
+
+/**
+ * Finds the screen luminance APCA uses, which applies a simple 2.4 gamma instead of the sRGB curve
+ * @param rgb - The red, green and blue channels between 0 and 255
+ */
+export function apcaLuminance(rgb: number[]): number {
+  let [r, g, b] = rgb.map((c) => Math.pow(c / 255, 2.4));
+  return 0.2126729 * r + 0.7151522 * g + 0.0721750 * b;
+}
+
+/**
+ * Finds the APCA lightness contrast between text and its background
+ * @param text - The APCA luminance of the text
+ * @param background - The APCA luminance of the background
+ * @returns The Lc value, positive for dark text on a light background and negative for light text on a dark background
+ */
+export function apcaContrast(text: number, background: number): number {
+  let clampBlack = (y: number): number => y > APCA.blkThrs ? y : y + Math.pow(APCA.blkThrs - y, APCA.blkClmp);
+  text = clampBlack(text);
+  background = clampBlack(background);
+  if (Math.abs(background - text) < APCA.deltaYMin) return 0;
+
+  if (background > text) {
+    let sapc: number = (Math.pow(background, APCA.normBG) - Math.pow(text, APCA.normTXT)) * APCA.scale;
+    return sapc < APCA.loClip ? 0 : (sapc - APCA.loOffset) * 100;
+  }
+  let sapc: number = (Math.pow(background, APCA.revBG) - Math.pow(text, APCA.revTXT)) * APCA.scale;
+  return sapc > -APCA.loClip ? 0 : (sapc + APCA.loOffset) * 100;
+}
@@ -0,0 +1,692 @@
+"use strict";
+
+import {ValidationError} from "./errors";
+import {clamp, roundToDec} from "./fmath";
+import {Vector, Vector2} from "./vectors";
+
+/** The ways a Catmull-Rom spline can space the knots between its points */
+export enum CatmullRomType {
+  /** Evenly spaced knots, which can overshoot and form loops around sharp turns */
+  Uniform=0,
+  /** Knots spaced by the square root of the distance between points, which never forms cusps or loops */
+  Centripetal=1,
+  /** Knots spaced by the distance between points, which hugs the points tightest */
+  Chordal=2
+}
+
+/** The corners of the box around a {@link Curve} */
+export interface CurveBounds<T extends Vector<T>> {
+  /** The corner with the smallest components */
+  min: T;
+  /** The corner with the largest components */
+  max: T;
+}
+
+/** The point on a {@link Curve} nearest to another point */
+export interface NearestPoint<T extends Vector<T>> {
+  /** The parameter of the point on the curve */
+  t: number;
+  /** The point on the curve */
+  point: T;
+  /** The distance between the point on the curve and the other point */
+  distance: number;
+}
+
+/** Class representing a parametric curve, where t goes from 0 at the start to 1 at the end */
+export abstract class Curve<T extends Vector<T>> {
+  /** The arc length from the start to each sample, measured the first time it's needed */
+  private lengths?: number[];
+
+  /**
+   * Finds the point on the curve
+   * @param t - The parameter between 0 and 1
+   */
+  public abstract point(t: number): T;
+
+  /**
+   * Finds a derivative of the curve with respect to t
+   * @param t - The parameter between 0 and 1
+   * @param order - The order of the derivative
+   */
+  public abstract derivative(t: number, order?: number): T;
+
+  /** Finds the smallest axis aligned box holding the curve */
+  public abstract bounds(): CurveBounds<T>;
+
+  /** Gets the number of straight pieces used to measure the curve */
+  protected abstract get resolution(): number;
+
+  /**
+   * Finds the unit direction of the curve
+   * @param t - The parameter between 0 and 1
+   */
+  public tangent(t: number): T {
+    let d: T = this.derivative(t);
+    if (d.sqrMagnitude < 1e-12) d = this.point(Math.min(t + 1e-4, 1)).sub(this.point(Math.max(t - 1e-4, 0)));
+    return d.sqrMagnitude == 0 ? d : d.normalize();
+  }
+
+  /**
+   * Finds the unit normal of the curve, which is the tangent turned a quarter turn for 2D curves and points towards the center of curvature for 3D curves
+   * @param t - The parameter between 0 and 1
+   */
+  public normal(t: number): T {
+    return this.tangent(t).perpendicular(this.derivative(t, 2));
+  }
+
+  /**
+   * Finds the point on the curve nearest to another point
+   * @param p - The other point
+   */
+  public nearest(p: T): NearestPoint<T> {
+    let n: number = this.resolution;
+    let best: number = 0;
+    let bestDistance: number = Infinity;
+    for (let i = 0; i <= n; i++) {
+      let d: number = this.point(i / n).sqrDistance(p);
+      if (d < bestDistance) {
+        best = i / n;
+        bestDistance = d;
+      }
+    }
+    for (let step = 1 / n; step > 1e-9;) {
+      let lower: number = Math.max(best - step, 0);
+      let upper: number = Math.min(best + step, 1);
+      let dl: number = this.point(lower).sqrDistance(p);
+      let du: number = this.point(upper).sqrDistance(p);
+      if (dl < bestDistance && dl <= du) {
+        best = lower;
+        bestDistance = dl;
+      } else if (du < bestDistance) {
+        best = upper;
+        bestDistance = du;
+      } else {
+        step /= 2;
+      }
+    }
+    return {t: best, point: this.point(best), distance: Math.sqrt(bestDistance)};
+  }
+
+  /** Gets the approximate arc length of the curve */
+  public get length(): number {
+    let lengths: number[] = this.arcLengths();
+    return lengths[lengths.length - 1];
+  }
+
+  /**
+   * Finds the parameter a distance along the curve, so stepping the distance evenly moves at a constant speed
+   * @param distance - The arc length from the start, clamped to the length of the curve
+   */
+  public tAtDistance(distance: number): number {
+    let lengths: number[] = this.arcLengths();
+    let n: number = lengths.length - 1;
+    distance = clamp(distance, lengths[n]);
+    let low: number = 0;
+    let high: number = n;
+    while (high - low > 1) {
+      let mid: number = (low + high) >> 1;
+      if (lengths[mid] < distance) low = mid;
+      else high = mid;
+    }
+    let span: number = lengths[high] - lengths[low];
+    return (low + (span == 0 ? 0 : (distance - lengths[low]) / span)) / n;
+  }
+
+  /**
+   * Finds the point a distance along the curve
+   * @param distance - The arc length from the start, clamped to the length of the curve
+   */
+  public pointAtDistance(distance: number): T {
+    return this.point(this.tAtDistance(distance));
+  }
+
+  /** Measures the arc length from the start to each sample */
+  private arcLengths(): number[] {
+    if (this.lengths) return this.lengths;
+    let n: number = this.resolution;
+    let lengths: number[] = [0];
+    let previous: T = this.point(0);
+    for (let i = 1; i <= n; i++) {
+      let p: T = this.point(i / n);
+      lengths.push(lengths[i - 1] + p.distance(previous));
+      previous = p;
+    }
+    return this.lengths = lengths;
+  }
+}
+
+/** Class representing a linear, quadratic or cubic Bezier curve, which treats its points as immutable once measured */
+export class Bezier<T extends Vector<T>> extends Curve<T> {
+  /** The control points, starting and ending on the curve */
+  public readonly points: ReadonlyArray<T>;
+
+  /**
+   * Creates a {@link Bezier} curve
+   * @param points - The 2, 3 or 4 control points, which are copied
+   */
+  public constructor(points: T[]) {
+    super();
+    if (points.length < 2 || points.length > 4) throw new ValidationError(`A Bezier Curve Needs 2 To 4 Points But Got ${points.length}.`, points);
+    this.points = points.map((p) => p.clone());
+  }
+
+  /** Gets the degree, which is 1 for lines, 2 for quadratic and 3 for cubic curves */
+  public get degree(): number {
+    return this.points.length - 1;
+  }
+
+  /** Gets the number of straight pieces used to measure the curve */
+  protected get resolution(): number {
+    return this.degree == 1 ? 1 : 64;
+  }
+
+  /**
+   * Finds the point on the curve
+   * @param t - The parameter between 0 and 1
+   */
+  public point(t: number): T {
+    return evaluate(this.points, t);
+  }
+
+  /**
+   * Finds a derivative of the curve with respect to t
+   * @param t - The parameter between 0 and 1
+   * @param order - The order of the derivative
+   */
+  public derivative(t: number, order: number = 1): T {
+    let points: ReadonlyArray<T> = this.points;
+    for (let i = 0; i < order; i++) {
+      if (points.length == 1) return points[0].clone().mult(0);
+      points = hodograph(points);
+    }
+    return evaluate(points, t);
+  }
+
+  /** Finds the smallest axis aligned box holding the curve, using the extremes of each component */
+  public bounds(): CurveBounds<T> {
+    let min: T = this.points[0].clone().min(this.points[this.degree]);
+    let max: T = this.points[0].clone().max(this.points[this.degree]);
+    let derivative: ReadonlyArray<T> = hodograph(this.points);
+    for (let i = 0; i < min.dimensions; i++) {
+      let d: number[] = derivative.map((p) => p.getComponent(i));
+      let roots: number[] = d.length == 2 ? [d[0] / (d[0] - d[1])] : d.length == 3 ? solveQuadratic(d[0] - 2 * d[1] + d[2], 2 * (d[1] - d[0]), d[0]) : [];
+      roots.filter((t) => t > 0 && t < 1).forEach((t) => {
+        let p: T = this.point(t);
+        min.min(p);
+        max.max(p);
+      });
+    }
+    return {min, max};
+  }
+
+  /**
+   * Splits the curve in two at a parameter
+   * @param t - The parameter between 0 and 1
+   * @returns The part before t followed by the part after t
+   */
+  public split(t: number): [Bezier<T>, Bezier<T>] {
+    let left: T[] = [];
+    let right: T[] = [];
+    let points: T[] = this.points.map((p) => p.clone());
+    while (points.length > 0) {
+      left.push(points[0]);
+      right.unshift(points[points.length - 1]);
+      points = points.slice(1).map((p, i) => points[i].clone().lerp(p, t));
+    }
+    return [new Bezier(left), new Bezier(right)];
+  }
+
+  /**
+   * Creates a quadratic {@link Bezier} curve
+   * @param start - The start point
+   * @param control - The control point
+   * @param end - The end point
+   */
+  public static quadratic<T extends Vector<T>>(start: T, control: T, end: T): Bezier<T> {
+    return new Bezier([start, control, end]);
+  }
+
+  /**
+   * Creates a cubic {@link Bezier} curve
+   * @param start - The start point
+   * @param control1 - The control point near the start
+   * @param control2 - The control point near the end
+   * @param end - The end point
+   */
+  public static cubic<T extends Vector<T>>(start: T, control1: T, control2: T, end: T): Bezier<T> {
+    return new Bezier([start, control1, control2, end]);
+  }
+}
+
+/** Class representing a curve made of {@link Bezier} segments, where each segment takes an equal share of t */
+export class Spline<T extends Vector<T>> extends Curve<T> {
+  /** The segments in order, each starting where the one before it ends */
+  public readonly segments: ReadonlyArray<Bezier<T>>;
+  /** Whether the last segment ends where the first one starts */
+  public readonly closed: boolean;
+
+  /**
+   * Creates a {@link Spline}
+   * @param segments - The segments in order
+   * @param closed - Whether the last segment ends where the first one starts
+   */
+  public constructor(segments: Bezier<T>[], closed: boolean = false) {
+    super();
+    if (segments.length == 0) throw new ValidationError("A Spline Needs At Least 1 Segment.", segments);
+    this.segments = segments.slice();
+    this.closed = closed;
+  }
+
+  /** Gets the number of straight pieces used to measure the curve */
+  protected get resolution(): number {
+    return this.segments.length * 64;
+  }
+
+  /**
+   * Finds the point on the curve
+   * @param t - The parameter between 0 and 1
+   */
+  public point(t: number): T {
+    let [i, local] = this.locate(t);
+    return this.segments[i].point(local);
+  }
+
+  /**
+   * Finds a derivative of the curve with respect to t
+   * @param t - The parameter between 0 and 1
+   * @param order - The order of the derivative
+   */
+  public derivative(t: number, order: number = 1): T {
+    let [i, local] = this.locate(t);
+    return this.segments[i].derivative(local, order).mult(Math.pow(this.segments.length, order));
+  }
+
+  /** Finds the smallest axis aligned box holding the curve */
+  public bounds(): CurveBounds<T> {
+    let bounds: CurveBounds<T> = this.segments[0].bounds();
+    this.segments.slice(1).forEach((segment) => {
+      let b: CurveBounds<T> = segment.bounds();
+      bounds.min.min(b.min);
+      bounds.max.max(b.max);
+    });
+    return bounds;
+  }
+
+  /**
+   * Splits the curve in two at a parameter, giving two open splines
+   * @param t - The parameter between 0 and 1
+   * @returns The part before t followed by the part after t
+   */
+  public split(t: number): [Spline<T>, Spline<T>] {
+    let [i, local] = this.locate(t);
+    if (local == 0 && i > 0) return [new Spline(this.segments.slice(0, i)), new Spline(this.segments.slice(i))];
+    let [left, right] = this.segments[i].split(local);
+    return [new Spline(this.segments.slice(0, i).concat(left)), new Spline([right].concat(this.segments.slice(i + 1)))];
+  }
+
+  /**
+   * Writes the curve as SVG path data, starting a new subpath wherever a segment doesn't start where the one before it ends
+   * @param decimals - The number of decimal places to round coordinates to
+   */
+  public toSVG(this: Spline<Vector2>, decimals: number = 3): string {
+    let format = (p: Vector2): string => `${roundToDec(p.x, decimals)},${roundToDec(p.y, decimals)}`;
+    let commands: string[] = [];
+    let current: Vector2|undefined;
+    this.segments.forEach((segment) => {
+      let points: ReadonlyArray<Vector2> = segment.points;
+      if (!current || !current.approxEquals(points[0])) commands.push(`M${format(points[0])}`);
+      commands.push(["L", "Q", "C"][segment.degree - 1] + points.slice(1).map(format).join(" "));
+      current = points[segment.degree];
+    });
+    if (this.closed) commands.push("Z");
+    return commands.join(" ");
+  }
+
+  /**
+   * Finds the segment at a parameter
+   * @param t - The parameter between 0 and 1
+   * @returns The index of the segment followed by the parameter within it
+   */
+  private locate(t: number): [number, number] {
+    let s: number = clamp(t, 1) * this.segments.length;
+    let i: number = Math.min(Math.floor(s), this.segments.length - 1);
+    return [i, s - i];
+  }
+
+  /**
+   * Creates a {@link Spline} passing through every point
+   * @param points - The points to pass through, at least 2
+   * @param type - The {@link CatmullRomType} spacing the knots
+   * @param closed - Whether to join the last point back to the first
+   */
+  public static catmullRom<T extends Vector<T>>(points: T[], type: CatmullRomType = CatmullRomType.Centripetal, closed: boolean = false): Spline<T> {
+    checkCount(points, closed ? 3 : 2);
+    let alpha: number = type == CatmullRomType.Uniform ? 0 : type == CatmullRomType.Centripetal ? 0.5 : 1;
+    let n: number = points.length;
+    let extended: T[] = closed ? [points[n - 1]].concat(points, points.slice(0, 2)) : [points[0].clone().mult(2).sub(points[1])].concat(points, [points[n - 1].clone().mult(2).sub(points[n - 2])]);
+    let segments: Bezier<T>[] = [];
+    for (let i = 0; i < (closed ? n : n - 1); i++) {
+      let [p0, p1, p2, p3] = extended.slice(i, i + 4);
+      let d0: number = knot(p0, p1, alpha);
+      let d1: number = knot(p1, p2, alpha);
+      let d2: number = knot(p2, p3, alpha);
+      let m1: T = p1.clone().sub(p0).div(d0).sub(p2.clone().sub(p0).div(d0 + d1)).add(p2.clone().sub(p1).div(d1)).mult(d1 / 3);
+      let m2: T = p2.clone().sub(p1).div(d1).sub(p3.clone().sub(p1).div(d1 + d2)).add(p3.clone().sub(p2).div(d2)).mult(d1 / 3);
+      segments.push(Bezier.cubic(p1, p1.clone().add(m1), p2.clone().sub(m2), p2));
+    }
+    return new Spline(segments, closed);
+  }
+
+  /**
+   * Creates a {@link Spline} passing through every point with the given tangents
+   * @param points - The points to pass through, at least 2
+   * @param tangents - The derivative of each segment where it meets each point
+   */
+  public static hermite<T extends Vector<T>>(points: T[], tangents: T[]): Spline<T> {
+    checkCount(points, 2);
+    if (tangents.length != points.length) throw new ValidationError(`Expected ${points.length} Tangents But Got ${tangents.length}.`, tangents);
+    let segments: Bezier<T>[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+      let control1: T = tangents[i].clone().div(3).add(points[i]);
+      let control2: T = points[i + 1].clone().sub(tangents[i + 1].clone().div(3));
+      segments.push(Bezier.cubic(points[i], control1, control2, points[i + 1]));
+    }
+    return new Spline(segments);
+  }
+
+  /**
+   * Creates a uniform cubic B-spline {@link Spline}, which passes near but not through its control points
+   * @param points - The control points, at least 2
+   * @param closed - Whether to loop back to the first point, otherwise the ends are clamped to the first and last points
+   */
+  public static bSpline<T extends Vector<T>>(points: T[], closed: boolean = false): Spline<T> {
+    checkCount(points, closed ? 3 : 2);
+    let n: number = points.length;
+    let first: T = points[0];
+    let last: T = points[n - 1];
+    let extended: T[] = closed ? points.concat(points.slice(0, 3)) : [first, first].concat(points, [last, last]);
+    let segments: Bezier<T>[] = [];
+    for (let i = 0; i + 3 < extended.length; i++) {
+      let [c0, c1, c2, c3] = extended.slice(i, i + 4);
+      let start: T = c1.clone().mult(4).add(c0).add(c2).div(6);
+      let end: T = c2.clone().mult(4).add(c1).add(c3).div(6);
+      segments.push(Bezier.cubic(start, c1.clone().lerp(c2, 1 / 3), c1.clone().lerp(c2, 2 / 3), end));
+    }
+    return new Spline(segments, closed);
+  }
+
+  /**
+   * Reads SVG path data, turning elliptical arcs into cubic {@link Bezier} segments
+   * @param d - The path data
+   * @returns A {@link Spline} for each subpath with at least 1 segment
+   */
+  public static fromSVG(d: string): Spline<Vector2>[] {
+    return new PathReader(d).read();
+  }
+}
+
+/**
+ * Finds a point on a Bezier curve with de Casteljau's algorithm
+ * @param points - The control points
+ * @param t - The parameter between 0 and 1
+ */
+function evaluate<T extends Vector<T>>(points: ReadonlyArray<T>, t: number): T {
+  let level: T[] = points.map((p) => p.clone());
+  for (let n = level.length - 1; n > 0; n--) {
+    for (let i = 0; i < n; i++) level[i].lerp(level[i + 1], t);
+  }
+  return level[0];
+}
+
+/**
+ * Finds the control points of the derivative of a Bezier curve
+ * @param points - The control points
+ */
+function hodograph<T extends Vector<T>>(points: ReadonlyArray<T>): T[] {
+  return points.slice(1).map((p, i) => p.clone().sub(points[i]).mult(points.length - 1));
+}
+
+/**
+ * Finds the real roots of a quadratic, or of a line if the quadratic term is 0
+ * @param a - The quadratic coefficient
+ * @param b - The linear coefficient
+ * @param c - The constant
+ */
+function solveQuadratic(a: number, b: number, c: number): number[] {
+  if (Math.abs(a) < 1e-12) return b == 0 ? [] : [-c / b];
+  let discriminant: number = b * b - 4 * a * c;
+  if (discriminant < 0) return [];
+  let root: number = Math.sqrt(discriminant);
+  return [(-b + root) / (2 * a), (-b - root) / (2 * a)];
+}
+
+/**
+ * Finds the knot interval between two points of a Catmull-Rom spline, treating coincident points as 1 apart
+ * @param a - The first point
+ * @param b - The second point
+ * @param alpha - The exponent applied to the distance
+ */
+function knot<T extends Vector<T>>(a: T, b: T, alpha: number): number {
+  let d: number = Math.pow(a.distance(b), alpha);
+  return d < 1e-9 ? 1 : d;
+}
+
+/**
+ * Throws a {@link ValidationError} if there are too few points
+ * @param points - The points
+ * @param min - The fewest points allowed
+ */
+function checkCount<T>(points: T[], min: number): void {
+  if (points.length < min) throw new ValidationError(`Expected At Least ${min} Points But Got ${points.length}.`, points);
+}
+
+/**
+ * Turns an SVG elliptical arc into cubic {@link Bezier} segments of at most a quarter turn each
+ * @param from - The start point
+ * @param rx - The x radius
+ * @param ry - The y radius
+ * @param rotation - The rotation of the ellipse in degrees
+ * @param large - Whether to take the longer way around
+ * @param sweep - Whether to go in the direction of increasing angle
+ * @param to - The end point
+ */
+function arc(from: Vector2, rx: number, ry: number, rotation: number, large: boolean, sweep: boolean, to: Vector2): Bezier<Vector2>[] {
+  if (from.approxEquals(to)) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx == 0 || ry == 0) return [new Bezier([from, to])];
+
+  let cos: number = Math.cos(rotation * Math.PI / 180);
+  let sin: number = Math.sin(rotation * Math.PI / 180);
+  let hx: number = (from.x - to.x) / 2;
+  let hy: number = (from.y - to.y) / 2;
+  let x1: number = cos * hx + sin * hy;
+  let y1: number = cos * hy - sin * hx;
+  let scale: number = x1 * x1 / (rx * rx) + y1 * y1 / (ry * ry);
+  if (scale > 1) {
+    rx *= Math.sqrt(scale);
+    ry *= Math.sqrt(scale);
+  }
+
+  let numerator: number = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  let coefficient: number = (large == sweep ? -1 : 1) * Math.sqrt(Math.max(numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1), 0));
+  let cx1: number = coefficient * rx * y1 / ry;
+  let cy1: number = -coefficient * ry * x1 / rx;
+  let cx: number = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  let cy: number = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  let start: number = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+  let delta: number = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - start;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+  else if (!sweep && delta > 0) delta -= 2 * Math.PI;
+
+  let map = (x: number, y: number): Vector2 => new Vector2().set(cx + rx * x * cos - ry * y * sin, cy + rx * x * sin + ry * y * cos);
+  let count: number = Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9);
+  let step: number = delta / count;
+  let k: number = 4 / 3 * Math.tan(step / 4);
+  let segments: Bezier<Vector2>[] = [];
+  for (let i = 0; i < count; i++) {
+    let a: number = start + i * step;
+    let b: number = a + step;
+    let p0: Vector2 = i == 0 ? from : map(Math.cos(a), Math.sin(a));
+    let p3: Vector2 = i == count - 1 ? to : map(Math.cos(b), Math.sin(b));
+    segments.push(Bezier.cubic(p0, map(Math.cos(a) - k * Math.sin(a), Math.sin(a) + k * Math.cos(a)), map(Math.cos(b) + k * Math.sin(b), Math.sin(b) - k * Math.cos(b)), p3));
+  }
+  return segments;
+}
+
+/** Class representing a reader of SVG path data */
+class PathReader {
+  /** The path data */
+  private d: string;
+  /** The index of the next character */
+  private i: number = 0;
+  /** The finished subpaths */
+  private paths: Spline<Vector2>[] = [];
+  /** The segments of the current subpath */
+  private segments: Bezier<Vector2>[] = [];
+  /** The start of the current subpath */
+  private start: Vector2 = new Vector2();
+  /** The current point */
+  private current: Vector2 = new Vector2();
+
+  /**
+   * Creates a {@link PathReader}
+   * @param d - The path data
+   */
+  public constructor(d: string) {
+    this.d = d;
+  }
+
+  /** Reads every subpath */
+  public read(): Spline<Vector2>[] {
+    let command: string = "";
+    while (this.skip() < this.d.length) {
+      let c: string = this.d[this.i];
+      if (/[a-z]/i.test(c)) {
+        command = c;
+        this.i++;
+      } else if (command == "" || /z/i.test(command)) {
+        this.fail();
+      }
+      let relative: boolean = command == command.toLowerCase();
+      let origin: Vector2 = relative ? this.current.clone() : new Vector2();
+      let last: Bezier<Vector2>|undefined = this.segments[this.segments.length - 1];
+      switch (command.toUpperCase()) {
+        case "M":
+          this.finish(false);
+          this.start = this.current = this.readPoint(origin);
+          command = relative ? "l" : "L";
+          break;
+        case "L":
+          this.push([this.readPoint(origin)]);
+          break;
+        case "H":
+          this.push([new Vector2().set(this.readNumber() + origin.x, this.current.y)]);
+          break;
+        case "V":
+          this.push([new Vector2().set(this.current.x, this.readNumber() + origin.y)]);
+          break;
+        case "Q":
+          this.push([this.readPoint(origin), this.readPoint(origin)]);
+          break;
+        case "T":
+          this.push([this.reflect(last, 2), this.readPoint(origin)]);
+          break;
+        case "C":
+          this.push([this.readPoint(origin), this.readPoint(origin), this.readPoint(origin)]);
+          break;
+        case "S":
+          this.push([this.reflect(last, 3), this.readPoint(origin), this.readPoint(origin)]);
+          break;
+        case "A": {
+          let rx: number = this.readNumber();
+          let ry: number = this.readNumber();
+          let rotation: number = this.readNumber();
+          let large: boolean = this.readFlag();
+          let sweep: boolean = this.readFlag();
+          let to: Vector2 = this.readPoint(origin);
+          this.segments.push(...arc(this.current, rx, ry, rotation, large, sweep, to));
+          this.current = to;
+          break;
+        }
+        case "Z":
+          if (!this.current.approxEquals(this.start)) this.push([this.start.clone()]);
+          this.finish(true);
+          this.current = this.start.clone();
+          break;
+        default:
+          this.fail(this.i - 1);
+      }
+    }
+    this.finish(false);
+    return this.paths;
+  }
+
+  /**
+   * Adds a segment from the current point
+   * @param points - The points after the current point
+   */
+  private push(points: Vector2[]): void {
+    this.segments.push(new Bezier([this.current].concat(points)));
+    this.current = points[points.length - 1];
+  }
+
+  /**
+   * Reflects the last control point of the previous segment about the current point, or uses the current point if the previous segment has a different degree
+   * @param last - The previous segment
+   * @param degree - The degree of the new segment
+   */
+  private reflect(last: Bezier<Vector2>|undefined, degree: number): Vector2 {
+    if (!last || last.degree != degree || !last.points[degree].equals(this.current)) return this.current.clone();
+    return this.current.clone().mult(2).sub(last.points[degree - 1]);
+  }
+
+  /**
+   * Ends the current subpath
+   * @param closed - Whether the subpath was closed
+   */
+  private finish(closed: boolean): void {
+    if (this.segments.length > 0) this.paths.push(new Spline(this.segments, closed));
+    this.segments = [];
+  }
+
+  /** Skips whitespace and commas, returning the index of the next character */
+  private skip(): number {
+    while (this.i < this.d.length && /[\s,]/.test(this.d[this.i])) this.i++;
+    return this.i;
+  }
+
+  /** Reads a number */
+  private readNumber(): number {
+    let match: RegExpExecArray|null = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(this.d.slice(this.skip()));
+    if (!match) this.fail();
+    this.i += match[0].length;
+    return parseFloat(match[0]);
+  }
+
+  /** Reads an arc flag, which may be written without a separator before the next value */
+  private readFlag(): boolean {
+    let c: string = this.d[this.skip()];
+    if (c != "0" && c != "1") this.fail();
+    this.i++;
+    return c == "1";
+  }
+
+  /**
+   * Reads a point
+   * @param origin - The point the coordinates are relative to
+   */
+  private readPoint(origin: Vector2): Vector2 {
+    let x: number = this.readNumber();
+    return new Vector2().set(x + origin.x, this.readNumber() + origin.y);
+  }
+
+  /**
+   * Throws a {@link ValidationError} for unexpected path data
+   * @param index - The index of the unexpected character
+   */
+  private fail(index: number = this.i): never {
+    throw new ValidationError(`Invalid SVG Path Data At Character ${index}.`, this.d);
+  }
+}
@@ -0,0 +1,106 @@
+"use strict";
+
+import {clamp, lerp} from "./fmath";
+
+/** The kinds of color vision deficiency, each covering both the dichromatic and the anomalous trichromatic form */
+export enum Deficiency {
+  /** Missing or shifted long wavelength (red) cones, protanopia and protanomaly */
+  Protan=0,
+  /** Missing or shifted medium wavelength (green) cones, deuteranopia and deuteranomaly */
+  Deutan=1,
+  /** Missing or shifted short wavelength (blue) cones, tritanopia and tritanomaly */
+  Tritan=2
+}
+
+/** The models available for simulating a {@link Deficiency} */
+export enum DeficiencyModel {
+  /** Brettel, Viénot and Mollon (1997), projecting onto two half-planes */
+  Brettel=0,
+  /** Viénot, Brettel and Mollon (1999), a single projection which falls back to {@link DeficiencyModel.Brettel} for tritan */
+  Vienot=1,
+  /** Machado, Oliveira and Fernandes (2009), the most accurate for anomalous trichromacy */
+  Machado=2
+}
+
+/** The parameters of {@link DeficiencyModel.Brettel} in linear sRGB, one set per {@link Deficiency} */
+const brettel: {planeA: number[][], planeB: number[][], normal: number[]}[] = [
+  {
+    planeA: [[0.14980, 1.19548, -0.34528], [0.10764, 0.84864, 0.04372], [0.00384, -0.00540, 1.00156]],
+    planeB: [[0.14570, 1.16172, -0.30742], [0.10816, 0.85291, 0.03892], [0.00386, -0.00524, 1.00139]],
+    normal: [0.00048, 0.00393, -0.00441]
+  },
+  {
+    planeA: [[0.36477, 0.86381, -0.22858], [0.26294, 0.64245, 0.09462], [-0.02006, 0.02728, 0.99278]],
+    planeB: [[0.37298, 0.88166, -0.25464], [0.25954, 0.63506, 0.10540], [-0.01980, 0.02784, 0.99196]],
+    normal: [-0.00281, -0.00611, 0.00892]
+  },
+  {
+    planeA: [[1.01277, 0.13548, -0.14826], [-0.01243, 0.86812, 0.14431], [0.07589, 0.80500, 0.11911]],
+    planeB: [[0.93678, 0.18979, -0.12657], [0.06154, 0.81526, 0.12320], [-0.37562, 1.12767, 0.24796]],
+    normal: [0.03901, -0.02788, -0.01113]
+  }
+];
+
+/** The matrices of {@link DeficiencyModel.Vienot} in linear sRGB for protan and deutan */
+const vienot: number[][][] = [
+  [[0.11238, 0.88762, 0], [0.11238, 0.88762, 0], [0.00401, -0.00401, 1]],
+  [[0.29275, 0.70725, 0], [0.29275, 0.70725, 0], [-0.02234, 0.02234, 1]]
+];
+
+/** The full severity matrices of {@link DeficiencyModel.Machado} in linear sRGB, one per {@link Deficiency} */
+const machado: number[][][] = [
+  [[0.152286, 1.052583, -0.204868], [0.114503, 0.786281, 0.099216], [-0.003882, -0.048116, 1.051998]],
+  [[0.367322, 0.860646, -0.227968], [0.280085, 0.672501, 0.047413], [-0.011820, 0.042940, 0.968881]],
+  [[1.255528, -0.076749, -0.178779], [-0.078411, 0.930809, 0.147602], [0.004733, 0.691367, 0.303900]]
+];
+
+/** The matrices Fidaner et al. use to shift the information lost to a {@link Deficiency} into visible channels */
+const daltonizeShift: number[][][] = [
+  [[0, 0, 0], [0.7, 1, 0], [0.7, 0, 1]],
+  [[0, 0, 0], [0.7, 1, 0], [0.7, 0, 1]],
+  [[1, 0, 0.7], [0, 1, 0.7], [0, 0, 0]]
+];
+
+/**
+ * Multiplies a 3x3 row-major matrix with a 3 component vector
+ * @param m - The matrix
+ * @param v - The vector
+ */
+function multiply(m: number[][], v: number[]): number[] {
+  return m.map((row) => row[0] * v[0] + row[1] * v[1] + row[2] * v[2]);
+}
+
+/**
+ * Simulates how a color is seen with a {@link Deficiency}
+ * @param rgb - The linear red, green and blue channels between 0 and 1
+ * @param kind - The {@link Deficiency} to simulate
+ * @param severity - The severity between 0 for normal vision and 1 for dichromacy, where values between are anomalous trichromacy
+ * @param model - The {@link DeficiencyModel} to use, where severities between 0 and 1 interpolate towards the dichromatic result
+ * @returns The simulated linear red, green and blue channels between 0 and 1
+ */
+export function simulateDeficiency(rgb: number[], kind: Deficiency, severity: number = 1, model: DeficiencyModel = DeficiencyModel.Machado): number[] {
+  severity = clamp(severity, 1);
+  let simulated: number[];
+  if (model == DeficiencyModel.Machado) {
+    simulated = multiply(machado[kind], rgb);
+  } else if (model == DeficiencyModel.Vienot && kind != Deficiency.Tritan) {
+    simulated = multiply(vienot[kind], rgb);
+  } else {
+    let {planeA, planeB, normal} = brettel[kind];
+    let side: number = rgb[0] * normal[0] + rgb[1] * normal[1] + rgb[2] * normal[2];
+    simulated = multiply(side >= 0 ? planeA : planeB, rgb);
+  }
+  return simulated.map((c, i) => clamp(lerp(rgb[i], c, severity), 1));
+}
+
+/**
+ * Shifts the difference between a color and its simulation into channels a {@link Deficiency} can still see
+ * @param rgb - The gamma encoded red, green and blue channels between 0 and 1
+ * @param simulated - The gamma encoded channels of the simulated color
+ * @param kind - The {@link Deficiency} the simulation was made for
+ * @returns The corrected gamma encoded red, green and blue channels between 0 and 1
+ */
+export function daltonizeChannels(rgb: number[], simulated: number[], kind: Deficiency): number[] {
+  let shift: number[] = multiply(daltonizeShift[kind], rgb.map((c, i) => c - simulated[i]));
+  return rgb.map((c, i) => clamp(c + shift[i], 1));
+}
@@ -0,0 +1,329 @@
+"use strict";
+
+import {clamp} from "./fmath";
+
+/** A function mapping linear progress between 0 and 1 to eased progress */
+export type Easing = (t: number) => number;
+
+/** The positions a {@link steps} easing can jump at, matching CSS */
+export enum StepPosition {
+  /** Jumps at the start of every step, so the first step is skipped */
+  JumpStart=0,
+  /** Jumps at the end of every step, so the last step is only reached at 1 */
+  JumpEnd=1,
+  /** Jumps between steps only, holding 0 and 1 for a step each */
+  JumpNone=2,
+  /** Jumps at the start and end, adding a step */
+  JumpBoth=3
+}
+
+/** The overshoot of the back easings */
+const back: number = 1.70158;
+
+/**
+ * Doesn't ease
+ * @param t - The progress between 0 and 1
+ */
+export function linear(t: number): number {
+  return t;
+}
+
+/**
+ * Eases in along a quarter sine wave
+ * @param t - The progress between 0 and 1
+ */
+export function easeInSine(t: number): number {
+  return 1 - Math.cos(t * Math.PI / 2);
+}
+
+/**
+ * Eases out along a quarter sine wave
+ * @param t - The progress between 0 and 1
+ */
+export function easeOutSine(t: number): number {
+  return Math.sin(t * Math.PI / 2);
+}
+
+/**
+ * Eases in and out along a half sine wave
+ * @param t - The progress between 0 and 1
+ */
+export function easeInOutSine(t: number): number {
+  return (1 - Math.cos(t * Math.PI)) / 2;
+}
+
+/**
+ * Eases in with t squared
+ * @param t - The progress between 0 and 1
+ */
+export function easeInQuad(t: number): number {
+  return t * t;
+}
+
+/**
+ * Eases out with t squared
+ * @param t - The progress between 0 and 1
+ */
+export function easeOutQuad(t: number): number {
+  return 1 - (1 - t) * (1 - t);
+}
+
+/**
+ * Eases in and out with t squared
+ * @param t - The progress between 0 and 1
+ */
+export function easeInOutQuad(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+}
+
+/**
+ * Eases in with t cubed
+ * @param t - The progress between 0 and 1
+ */
+export function easeInCubic(t: number): number {
+  return t * t * t;
+}
+
+/**
+ * Eases out with t cubed
+ * @param t - The progress between 0 and 1
+ */
+export function easeOutCubic(t: number): number {
+  return 1 - Math.pow(1 - t, 3);
+}
+
+/**
+ * Eases in and out with t cubed
+ * @param t - The progress between 0 and 1
+ */
+export function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+/**
+ * Eases in with t to the fourth
+ * @param t - The progress between 0 and 1
+ */
+export function easeInQuart(t: number): number {
+  return t * t * t * t;
+}
+
+/**
+ * Eases out with t to the fourth
+ * @param t - The progress between 0 and 1
+ */
+export function easeOutQuart(t: number): number {
+  return 1 - Math.pow(1 - t, 4);
+}
+
+/**
+ * Eases in and out with t to the fourth
+ * @param t - The progress between 0 and 1
+ */
+export function easeInOutQuart(t: number): number {
+  return t < 0.5 ? 8 * t * t * t * t : 1 - Math.pow(-2 * t + 2, 4) / 2;
+}
+
+/**
+ * Eases in with t to the fifth
+ * @param t - The progress between 0 and 1
+ */
+export function easeInQuint(t: number): number {
+  return t * t * t * t * t;
+}
+
+/**
+ * Eases out with t to the fifth
+ * @param t - The progress between 0 and 1
+ */
+export function easeOutQuint(t: number): number {
+  return 1 - Math.pow(1 - t, 5);
+}
+
+/**
+ * Eases in and out with t to the fifth
+ * @param t - The progress between 0 and 1
+ */
+export function easeInOutQuint(t: number): number {
+  return t < 0.5 ? 16 * t * t * t * t * t : 1 - Math.pow(-2 * t + 2, 5) / 2;
+}
+
+/**
+ * Eases in exponentially
+ * @param t - The progress between 0 and 1
+ */
+export function easeInExpo(t: number): number {
+  return t <= 0 ? 0 : Math.pow(2, 10 * t - 10);
+}
+
+/**
+ * Eases out exponentially
+ * @param t - The progress between 0 and 1
+ */
+export function easeOutExpo(t: number): number {
+  return t >= 1 ? 1 : 1 - Math.pow(2, -10 * t);
+}
+
+/**
+ * Eases in and out exponentially
+ * @param t - The progress between 0 and 1
+ */
+export function easeInOutExpo(t: number): number {
+  if (t <= 0 || t >= 1) return clamp(t, 1);
+  return t < 0.5 ? Math.pow(2, 20 * t - 10) / 2 : (2 - Math.pow(2, -20 * t + 10)) / 2;
+}
+
+/**
+ * Eases in along a quarter circle
+ * @param t - The progress between 0 and 1
+ */
+export function easeInCirc(t: number): number {
+  return 1 - Math.sqrt(1 - t * t);
+}
+
+/**
+ * Eases out along a quarter circle
+ * @param t - The progress between 0 and 1
+ */
+export function easeOutCirc(t: number): number {
+  return Math.sqrt(1 - (t - 1) * (t - 1));
+}
+
+/**
+ * Eases in and out along two quarter circles
+ * @param t - The progress between 0 and 1
+ */
+export function easeInOutCirc(t: number): number {
+  return t < 0.5 ? (1 - Math.sqrt(1 - 4 * t * t)) / 2 : (Math.sqrt(1 - Math.pow(-2 * t + 2, 2)) + 1) / 2;
+}
+
+/**
+ * Eases in, first pulling back below 0
+ * @param t - The progress between 0 and 1
+ */
+export function easeInBack(t: number): number {
+  return (back + 1) * t * t * t - back * t * t;
+}
+
+/**
+ * Eases out, overshooting 1 before settling
+ * @param t - The progress between 0 and 1
+ */
+export function easeOutBack(t: number): number {
+  return 1 + (back + 1) * Math.pow(t - 1, 3) + back * Math.pow(t - 1, 2);
+}
+
+/**
+ * Eases in and out, pulling back below 0 and overshooting 1
+ * @param t - The progress between 0 and 1
+ */
+export function easeInOutBack(t: number): number {
+  let c: number = back * 1.525;
+  return t < 0.5 ? Math.pow(2 * t, 2) * ((c + 1) * 2 * t - c) / 2 : (Math.pow(2 * t - 2, 2) * ((c + 1) * (t * 2 - 2) + c) + 2) / 2;
+}
+
+/**
+ * Eases in with a growing oscillation, like a plucked spring
+ * @param t - The progress between 0 and 1
+ */
+export function easeInElastic(t: number): number {
+  if (t <= 0 || t >= 1) return clamp(t, 1);
+  return -Math.pow(2, 10 * t - 10) * Math.sin((t * 10 - 10.75) * 2 * Math.PI / 3);
+}
+
+/**
+ * Eases out with a dying oscillation, like a released spring
+ * @param t - The progress between 0 and 1
+ */
+export function easeOutElastic(t: number): number {
+  if (t <= 0 || t >= 1) return clamp(t, 1);
+  return Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * 2 * Math.PI / 3) + 1;
+}
+
+/**
+ * Eases in and out with an oscillation at both ends
+ * @param t - The progress between 0 and 1
+ */
+export function easeInOutElastic(t: number): number {
+  if (t <= 0 || t >= 1) return clamp(t, 1);
+  let s: number = Math.sin((20 * t - 11.125) * 2 * Math.PI / 4.5);
+  return t < 0.5 ? -Math.pow(2, 20 * t - 10) * s / 2 : Math.pow(2, -20 * t + 10) * s / 2 + 1;
+}
+
+/**
+ * Eases in with bounces that grow toward 1
+ * @param t - The progress between 0 and 1
+ */
+export function easeInBounce(t: number): number {
+  return 1 - easeOutBounce(1 - t);
+}
+
+/**
+ * Eases out like a ball bouncing to rest at 1
+ * @param t - The progress between 0 and 1
+ */
+export function easeOutBounce(t: number): number {
+  let n: number = 7.5625;
+  let d: number = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+  if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+  return n * (t -= 2.625 / d) * t + 0.984375;
+}
+
+/**
+ * Eases in and out with bounces at both ends
+ * @param t - The progress between 0 and 1
+ */
+export function easeInOutBounce(t: number): number {
+  return t < 0.5 ? (1 - easeOutBounce(1 - 2 * t)) / 2 : (1 + easeOutBounce(2 * t - 1)) / 2;
+}
+
+/**
+ * Creates an {@link Easing} following a cubic bezier from (0, 0) to (1, 1), matching CSS cubic-bezier()
+ * @param x1 - The x value of the first control point, between 0 and 1
+ * @param y1 - The y value of the first control point
+ * @param x2 - The x value of the second control point, between 0 and 1
+ * @param y2 - The y value of the second control point
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): Easing {
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) throw new Error("Bezier X Values Must Be Between 0 And 1.");
+  let curve = (a: number, b: number, s: number): number => ((1 - 3 * b + 3 * a) * s + 3 * b - 6 * a) * s * s + 3 * a * s;
+  let slope = (a: number, b: number, s: number): number => 3 * (1 - 3 * b + 3 * a) * s * s + 2 * (3 * b - 6 * a) * s + 3 * a;
+  return (t: number): number => {
+    if (t <= 0 || t >= 1) return clamp(t, 1);
+    // Newton's method converges quickly on most curves, with bisection as a fallback for flat slopes
+    let s: number = t;
+    for (let i = 0; i < 8; i++) {
+      let error: number = curve(x1, x2, s) - t;
+      if (Math.abs(error) < 1e-7) return curve(y1, y2, s);
+      let d: number = slope(x1, x2, s);
+      if (Math.abs(d) < 1e-6) break;
+      s -= error / d;
+    }
+    let low: number = 0;
+    let high: number = 1;
+    s = t;
+    for (let i = 0; i < 50 && high - low > 1e-7; i++) {
+      if (curve(x1, x2, s) < t) low = s;
+      else high = s;
+      s = (low + high) / 2;
+    }
+    return curve(y1, y2, s);
+  };
+}
+
+/**
+ * Creates an {@link Easing} that jumps between a number of flat steps, matching CSS steps()
+ * @param count - The number of steps
+ * @param position - The {@link StepPosition} to jump at
+ */
+export function steps(count: number, position: StepPosition = StepPosition.JumpEnd): Easing {
+  let jumps: number = position == StepPosition.JumpBoth ? count + 1 : position == StepPosition.JumpNone ? count - 1 : count;
+  if (!Number.isInteger(count) || count < 1 || jumps < 1) throw new Error("Steps Must Be A Whole Number Of At Least 1, Or 2 For JumpNone.");
+  return (t: number): number => {
+    let step: number = Math.floor(clamp(t, 1) * count);
+    if (position == StepPosition.JumpStart || position == StepPosition.JumpBoth) step++;
+    return clamp(step / jumps, 1);
+  };
+}
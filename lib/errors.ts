@@ -0,0 +1,127 @@
+"use strict";
+
+/** Whether non-finite input is rejected */
+let strict: boolean = false;
+
+/**
+ * Turns strict validation on or off, which makes {@link Color}s and vectors reject NaN and Infinity instead of storing them
+ * @param enabled - Whether strict validation is on
+ */
+export function setStrictValidation(enabled: boolean): void {
+  strict = enabled;
+}
+
+/** Checks whether strict validation is on */
+export function isStrictValidation(): boolean {
+  return strict;
+}
+
+/** Class representing an error caused by invalid input, the base of every error this library throws for bad values */
+export class ValidationError extends Error {
+  /** The input that failed validation */
+  public readonly input: unknown;
+
+  /**
+   * Creates a new {@link ValidationError}
+   * @param message - The message describing the problem
+   * @param input - The input that failed validation
+   */
+  public constructor(message: string, input?: unknown) {
+    super(message);
+    this.name = "ValidationError";
+    this.input = input;
+  }
+}
+
+/** Class representing an error thrown when a string or JSON can't be parsed as a color */
+export class ColorParseError extends ValidationError {
+  /**
+   * Creates a new {@link ColorParseError}
+   * @param message - The message describing the problem
+   * @param input - The string or JSON that couldn't be parsed
+   */
+  public constructor(message: string, input?: unknown) {
+    super(message, input);
+    this.name = "ColorParseError";
+  }
+}
+
+/** Class representing an error thrown when encoded image data can't be decoded as a bitmap */
+export class ImageParseError extends ValidationError {
+  /**
+   * Creates a new {@link ImageParseError}
+   * @param message - The message describing the problem
+   * @param input - The image data that couldn't be decoded
+   */
+  public constructor(message: string, input?: unknown) {
+    super(message, input);
+    this.name = "ImageParseError";
+  }
+}
+
+/** Class representing an error thrown when a color channel is out of range or not a finite number */
+export class InvalidColorError extends ValidationError {
+  /**
+   * Creates a new {@link InvalidColorError}
+   * @param message - The message describing the problem
+   * @param input - The channel value that failed validation
+   */
+  public constructor(message: string, input?: unknown) {
+    super(message, input);
+    this.name = "InvalidColorError";
+  }
+}
+
+/** Class representing an error thrown when vector components don't match in number or aren't finite numbers */
+export class InvalidVectorError extends ValidationError {
+  /**
+   * Creates a new {@link InvalidVectorError}
+   * @param message - The message describing the problem
+   * @param input - The component or vector that failed validation
+   */
+  public constructor(message: string, input?: unknown) {
+    super(message, input);
+    this.name = "InvalidVectorError";
+  }
+}
+
+/**
+ * Throws if strict validation is on and any of the values aren't finite numbers
+ * @param values - The number values to check
+ * @param error - Creates the error to throw for a bad value
+ */
+export function checkFinite(values: (number|undefined)[], error: (v: number) => ValidationError): void {
+  if (!strict) return;
+  for (let v of values) {
+    if (v !== undefined && !Number.isFinite(v)) throw error(v);
+  }
+}
+
+/**
+ * Reads numbers out of versioned JSON, throwing if it isn't valid JSON for the type
+ * @param json - Either the JSON object or a string of it
+ * @param type - The expected name of the type
+ * @param keys - The names of the numbers to read
+ * @param version - The newest supported version
+ * @param error - The {@link ValidationError} class to throw
+ */
+export function readJSON(json: unknown, type: string, keys: string[], version: number, error: new (message: string, input?: unknown) => ValidationError): number[] {
+  let parsed: unknown = json;
+  if (typeof json === "string") {
+    try {
+      parsed = JSON.parse(json);
+    } catch (e) {
+      throw new error(`Invalid ${type} JSON.`, json);
+    }
+  }
+  if (typeof parsed !== "object" || parsed === null) throw new error(`Expected ${type} JSON.`, json);
+  let data: {[key: string]: unknown} = parsed as {[key: string]: unknown};
+  if (data.type !== type) throw new error(`Expected ${type} JSON.`, json);
+  let v: unknown = data.version;
+  if (typeof v !== "number" || v < 1 || v > version) throw new error(`Unsupported ${type} JSON Version ${v}.`, json);
+  return keys.map((key) => {
+    let value: unknown = data[key];
+    if (typeof value !== "number") throw new error(`Expected ${type} JSON To Have A Number "${key}".`, json);
+    return value;
+  });
+}
@@ -1,49 +1,576 @@
+import {Random} from "./random";
+
+/** The ways a value can be rounded to a whole number of steps */
+export enum RoundingMode {
+  /** Rounds to the nearest step, with ties away from zero */
+  HalfUp=0,
+  /** Rounds to the nearest step, with ties toward zero */
+  HalfDown=1,
+  /** Rounds to the nearest step, with ties to the even step, which avoids bias when summing */
+  HalfEven=2,
+  /** Rounds toward positive infinity */
+  Ceil=3,
+  /** Rounds toward negative infinity */
+  Floor=4,
+  /** Rounds toward zero */
+  Truncate=5
+}
+
+/** A {@link NumberRange} of numbers, where a missing bound is open */
+export interface NumberRange {
+  /** The min number value, defaulting to -Infinity */
+  min?: number;
+  /** The max number value, defaulting to Infinity */
+  max?: number;
+}
+
 /**
  * Clamps a value to the given bounds
  * @param v - The number value to clamp
  * @param max - The max number value to clamp too
  * @param min - The min number value to clamp too
  */
-export function clamp(v: number, max: number, min: number = 0): number {
+export function clamp(v: number, max: number, min?: number): number;
+/**
+ * Clamps a value to the given {@link NumberRange}
+ * @param v - The number value to clamp
+ * @param range - The {@link NumberRange} to clamp too
+ */
+export function clamp(v: number, range: NumberRange): number;
+export function clamp(v: number, max: number|NumberRange, min: number = 0): number {
+  if (typeof max !== "number") return Math.max(max.min === undefined ? -Infinity : max.min, Math.min(v, max.max === undefined ? Infinity : max.max));
   return Math.max(min, Math.min(v, max));
 }
 
+/**
+ * Finds how many representable doubles apart two values are
+ * @param a - The first number value
+ * @param b - The second number value
+ * @returns The distance in units in the last place, or NaN if either value is NaN
+ */
+export function ulpDistance(a: number, b: number): number {
+  if (isNaN(a) || isNaN(b)) return NaN;
+  if (a == b) return 0;
+  let view: DataView = new DataView(new ArrayBuffer(16));
+  view.setFloat64(0, a);
+  view.setFloat64(8, b);
+  let highA: number = view.getUint32(0);
+  let highB: number = view.getUint32(8);
+  let magnitudeA: number[] = [highA & 0x7fffffff, view.getUint32(4)];
+  let magnitudeB: number[] = [highB & 0x7fffffff, view.getUint32(12)];
+  if (highA >>> 31 == highB >>> 31) return Math.abs((magnitudeA[0] - magnitudeB[0]) * 4294967296 + magnitudeA[1] - magnitudeB[1]);
+  return magnitudeA[0] * 4294967296 + magnitudeA[1] + magnitudeB[0] * 4294967296 + magnitudeB[1];
+}
+
+/**
+ * Checks if two values are equal within an absolute epsilon or within a number of representable doubles, which scales with their size
+ * @param a - The first number value
+ * @param b - The second number value
+ * @param epsilon - The largest absolute difference allowed, which matters near 0
+ * @param ulps - The largest distance in units in the last place allowed, which matters for large values
+ */
+export function approxEqual(a: number, b: number, epsilon: number = 1e-6, ulps: number = 4): boolean {
+  return a == b || Math.abs(a - b) <= epsilon || ulpDistance(a, b) <= ulps;
+}
+
+/**
+ * Wraps a value into a range, so going past one end comes back in at the other
+ * @param v - The number value to wrap
+ * @param max - The max number value, which wraps to the min
+ * @param min - The min number value
+ */
+export function wrap(v: number, max: number, min: number = 0): number {
+  return min + repeat(v - min, max - min);
+}
+
+/**
+ * Loops a value between 0 and a length, like the modulo operator but never negative
+ * @param t - The number value to loop
+ * @param length - The length of the loop
+ */
+export function repeat(t: number, length: number): number {
+  return length == 0 ? 0 : t - Math.floor(t / length) * length;
+}
+
+/**
+ * Bounces a value back and forth between 0 and a length
+ * @param t - The number value to bounce
+ * @param length - The length to bounce over
+ */
+export function pingPong(t: number, length: number): number {
+  return length - Math.abs(repeat(t, length * 2) - length);
+}
+
+/**
+ * Converts degrees to radians
+ * @param degrees - The angle in degrees
+ */
+export function degToRad(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+/**
+ * Converts radians to degrees
+ * @param radians - The angle in radians
+ */
+export function radToDeg(radians: number): number {
+  return radians * 180 / Math.PI;
+}
+
+/**
+ * Finds the sign of a value, where unlike {@link Math.sign} -0 gives 0
+ * @param v - The number value
+ * @returns -1, 0 or 1, or NaN for NaN
+ */
+export function sign(v: number): number {
+  return v > 0 ? 1 : v < 0 ? -1 : v == 0 ? 0 : NaN;
+}
+
+/**
+ * Linearly interpolates between two values
+ * @param a - The number value at t = 0
+ * @param b - The number value at t = 1
+ * @param t - The interpolation amount, which isn't clamped
+ */
+export function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+/**
+ * Finds how far a value is between two values, the inverse of {@link lerp}
+ * @param a - The number value at t = 0
+ * @param b - The number value at t = 1
+ * @param v - The number value to find t for, which isn't clamped
+ * @returns The interpolation amount, or 0 when a and b are equal
+ */
+export function inverseLerp(a: number, b: number, v: number): number {
+  return a == b ? 0 : (v - a) / (b - a);
+}
+
+/**
+ * Maps a value from one range to another
+ * @param v - The number value to map
+ * @param inMin - The start of the range to map from
+ * @param inMax - The end of the range to map from
+ * @param outMin - The start of the range to map to
+ * @param outMax - The end of the range to map to
+ */
+export function remap(v: number, inMin: number, inMax: number, outMin: number, outMax: number): number {
+  return lerp(outMin, outMax, inverseLerp(inMin, inMax, v));
+}
+
+/**
+ * Smoothly steps from 0 to 1 between two edges, with a smooth start and end
+ * @param edge0 - The number value where the result starts leaving 0
+ * @param edge1 - The number value where the result reaches 1
+ * @param v - The number value to step
+ */
+export function smoothstep(edge0: number, edge1: number, v: number): number {
+  let t: number = clamp(inverseLerp(edge0, edge1, v), 1);
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Smoothly steps from 0 to 1 between two edges like {@link smoothstep}, but also with a smooth rate of change at both edges
+ * @param edge0 - The number value where the result starts leaving 0
+ * @param edge1 - The number value where the result reaches 1
+ * @param v - The number value to step
+ */
+export function smootherstep(edge0: number, edge1: number, v: number): number {
+  let t: number = clamp(inverseLerp(edge0, edge1, v), 1);
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
 /**
  * Finds a random integer between the given bounds
  * @param max - The max number value
  * @param min - The min number value
  * @param rFunc - The rounding function to use
+ * @param random - The {@link Random} to draw from instead of {@link Math.random}
  */
-export function randInt(max: number = 1, min: number = 0, rFunc = Math.floor): number {
-  return rFunc(randFloat(max, min));
+export function randInt(max: number = 1, min: number = 0, rFunc = Math.floor, random?: Random): number {
+  return rFunc(randFloat(max, min, random));
 }
 
 /**
  * Finds a random float between the given bounds
  * @param max - The max number value
  * @param min - The min number value
+ * @param random - The {@link Random} to draw from instead of {@link Math.random}
+ */
+export function randFloat(max: number = 1, min: number = 0, random?: Random): number {
+  return (random ? random.float() : Math.random()) * (max - min) + min;
+}
+
+/**
+ * Checks that values are safe integers
+ * @param values - The number values to check
+ */
+function checkIntegers(...values: number[]): void {
+  if (!values.every((v) => Number.isSafeInteger(v))) throw new Error("Expected Safe Integers.");
+}
+
+/**
+ * Finds the greatest common divisor of two integers
+ * @param a - The first integer
+ * @param b - The second integer
+ */
+export function gcd(a: number, b: number): number {
+  checkIntegers(a, b);
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b != 0) [a, b] = [b, a % b];
+  return a;
+}
+
+/**
+ * Finds the least common multiple of two integers
+ * @param a - The first integer
+ * @param b - The second integer
+ */
+export function lcm(a: number, b: number): number {
+  checkIntegers(a, b);
+  if (a == 0 || b == 0) return 0;
+  let result: number = Math.abs(a / gcd(a, b) * b);
+  checkIntegers(result);
+  return result;
+}
+
+/**
+ * Multiplies two integers modulo another without losing precision past 2^53
+ * @param a - The first integer, between 0 and the modulus
+ * @param b - The second integer, between 0 and the modulus
+ * @param mod - The modulus
  */
-export function randFloat(max: number = 1, min: number = 0): number {
-  return Math.random() * (max - min) + min;
+function mulMod(a: number, b: number, mod: number): number {
+  if (a * b <= Number.MAX_SAFE_INTEGER) return a * b % mod;
+  let result: number = 0;
+  for (; b > 0; b = Math.floor(b / 2)) {
+    if (b % 2 == 1) result = (result + a) % mod;
+    a = a * 2 % mod;
+  }
+  return result;
 }
 
 /**
- * Rounds the given value to the given decimal place
+ * Raises an integer to a power modulo another integer
+ * @param base - The integer base
+ * @param exp - The integer exponent, which must not be negative
+ * @param mod - The integer modulus, between 1 and 2^52
+ */
+export function modPow(base: number, exp: number, mod: number): number {
+  checkIntegers(base, exp, mod);
+  if (exp < 0) throw new Error("Exponent Must Not Be Negative.");
+  if (mod < 1 || mod > 4503599627370496) throw new Error("Modulus Must Be Between 1 And 2^52.");
+  let result: number = 1 % mod;
+  base = (base % mod + mod) % mod;
+  for (; exp > 0; exp = Math.floor(exp / 2)) {
+    if (exp % 2 == 1) result = mulMod(result, base, mod);
+    base = mulMod(base, base, mod);
+  }
+  return result;
+}
+
+/**
+ * Copies values into an array, throwing if there are none
+ * @param values - The number values
+ */
+function toValues(values: ArrayLike<number>): number[] {
+  if (values.length == 0) throw new Error("No Values Provided.");
+  return Array.from(values);
+}
+
+/**
+ * Finds the arithmetic mean of values
+ * @param values - The number values
+ */
+export function mean(values: ArrayLike<number>): number {
+  return toValues(values).reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Finds the median of values, averaging the middle two when there's an even number
+ * @param values - The number values
+ */
+export function median(values: ArrayLike<number>): number {
+  return percentile(values, 50);
+}
+
+/**
+ * Finds the variance of values
+ * @param values - The number values
+ * @param sample - Whether the values are a sample of a larger population, dividing by n - 1 instead of n
+ */
+export function variance(values: ArrayLike<number>, sample: boolean = false): number {
+  let m: number = mean(values);
+  if (sample && values.length < 2) throw new Error("Sample Variance Needs At Least 2 Values.");
+  return toValues(values).reduce((sum, v) => sum + (v - m) * (v - m), 0) / (sample ? values.length - 1 : values.length);
+}
+
+/**
+ * Finds the standard deviation of values
+ * @param values - The number values
+ * @param sample - Whether the values are a sample of a larger population, dividing by n - 1 instead of n
+ */
+export function stddev(values: ArrayLike<number>, sample: boolean = false): number {
+  return Math.sqrt(variance(values, sample));
+}
+
+/**
+ * Finds the value below which a percentage of values fall, interpolating linearly between the closest ranks
+ * @param values - The number values
+ * @param p - The percentage between 0 and 100
+ */
+export function percentile(values: ArrayLike<number>, p: number): number {
+  let sorted: number[] = toValues(values).sort((a, b) => a - b);
+  let rank: number = clamp(p, 100) / 100 * (sorted.length - 1);
+  let low: number = Math.floor(rank);
+  return low + 1 < sorted.length ? lerp(sorted[low], sorted[low + 1], rank - low) : sorted[low];
+}
+
+/** Class representing descriptive statistics accumulated one value at a time, without keeping the values */
+export class RunningStats {
+  /** The number of values */
+  public count: number = 0;
+  /** The arithmetic mean of the values */
+  public mean: number = 0;
+  /** The smallest value */
+  public min: number = Infinity;
+  /** The largest value */
+  public max: number = -Infinity;
+  /** The sum of squared differences from the mean */
+  private m2: number = 0;
+
+  /** Gets the sum of the values */
+  public get sum(): number {
+    return this.mean * this.count;
+  }
+
+  /** Gets the population variance of the values, or 0 if there are none */
+  public get variance(): number {
+    return this.count == 0 ? 0 : this.m2 / this.count;
+  }
+
+  /** Gets the sample variance of the values, or 0 if there are fewer than 2 */
+  public get sampleVariance(): number {
+    return this.count < 2 ? 0 : this.m2 / (this.count - 1);
+  }
+
+  /** Gets the population standard deviation of the values */
+  public get stddev(): number {
+    return Math.sqrt(this.variance);
+  }
+
+  /** Gets the sample standard deviation of the values */
+  public get sampleStddev(): number {
+    return Math.sqrt(this.sampleVariance);
+  }
+
+  /**
+   * Adds values, updating the statistics with Welford's algorithm
+   * @param values - The number values to add
+   */
+  public push(...values: number[]): this {
+    values.forEach((v) => {
+      this.count++;
+      let delta: number = v - this.mean;
+      this.mean += delta / this.count;
+      this.m2 += delta * (v - this.mean);
+      this.min = Math.min(this.min, v);
+      this.max = Math.max(this.max, v);
+    });
+    return this;
+  }
+
+  /**
+   * Combines the statistics of another {@link RunningStats} into these, as if its values were added
+   * @param other - The {@link RunningStats} to combine
+   */
+  public merge(other: RunningStats): this {
+    if (other.count == 0) return this;
+    let count: number = this.count + other.count;
+    let delta: number = other.mean - this.mean;
+    this.m2 += other.m2 + delta * delta * this.count * other.count / count;
+    this.mean += delta * other.count / count;
+    this.count = count;
+    this.min = Math.min(this.min, other.min);
+    this.max = Math.max(this.max, other.max);
+    return this;
+  }
+
+  /** Forgets every value */
+  public reset(): this {
+    this.count = 0;
+    this.mean = 0;
+    this.min = Infinity;
+    this.max = -Infinity;
+    this.m2 = 0;
+    return this;
+  }
+
+  /** Clones the {@link RunningStats} */
+  public clone(): RunningStats {
+    return new RunningStats().merge(this);
+  }
+}
+
+/**
+ * Rounds an integer-shifted value to a whole number
  * @param v - The number value to round
- * @param dec - The decimal place to round to
- * @param rFunc - The rounding function to use
+ * @param mode - Either the {@link RoundingMode} or a rounding function to use
  */
-export function roundToDec(v: number, dec: number = 2, rFunc = Math.floor): number {
-  let d: number = Math.pow(10, dec);
-  return rFunc(v * d) / d;
+function roundShifted(v: number, mode: RoundingMode|((v: number) => number)): number {
+  if (typeof mode === "function") return mode(v);
+  let floor: number = Math.floor(v);
+  let diff: number = v - floor;
+  switch (mode) {
+    case RoundingMode.Ceil:
+      return Math.ceil(v);
+    case RoundingMode.Floor:
+      return floor;
+    case RoundingMode.Truncate:
+      return Math.trunc(v);
+  }
+  if (diff != 0.5) return diff > 0.5 ? floor + 1 : floor;
+  switch (mode) {
+    case RoundingMode.HalfUp:
+      return v > 0 ? floor + 1 : floor;
+    case RoundingMode.HalfDown:
+      return v > 0 ? floor : floor + 1;
+    default:
+      return floor % 2 == 0 ? floor : floor + 1;
+  }
 }
 
 /**
- * Rounds to a given number
+ * Multiplies a value by a power of 10 by moving the decimal point of its shortest decimal form, so no binary error creeps in
+ * @param v - The number value to shift
+ * @param exp - The power of 10 to multiply by
+ */
+function shift(v: number, exp: number): number {
+  if (!isFinite(v) || exp == 0) return v;
+  let [mantissa, e] = String(v).split("e");
+  return Number(`${mantissa}e${Number(e || 0) + exp}`);
+}
+
+/**
+ * Counts the decimal places in the shortest decimal form of a value
+ * @param v - The number value
+ */
+function decimalPlaces(v: number): number {
+  let [mantissa, e] = String(v).split("e");
+  let fraction: string|undefined = mantissa.split(".")[1];
+  return Math.max(0, (fraction ? fraction.length : 0) - Number(e || 0));
+}
+
+/**
+ * Rounds the given value to the given decimal place, working on its decimal form so values like 1.005 round as written
  * @param v - The number value to round
- * @param n - The number value to round to
- * @param rFunc - The rounding function to use
+ * @param dec - The decimal place to round to, which may be negative to round to tens, hundreds and so on
+ * @param mode - Either the {@link RoundingMode} or a rounding function to use
+ */
+export function roundToDec(v: number, dec: number = 2, mode: RoundingMode|((v: number) => number) = RoundingMode.HalfUp): number {
+  return shift(roundShifted(shift(v, dec), mode), -dec);
+}
+
+/**
+ * Rounds the given value to a number of significant figures
+ * @param v - The number value to round
+ * @param figures - The number of significant figures to keep
+ * @param mode - Either the {@link RoundingMode} or a rounding function to use
+ */
+export function roundToSig(v: number, figures: number, mode: RoundingMode|((v: number) => number) = RoundingMode.HalfUp): number {
+  if (!Number.isInteger(figures) || figures < 1) throw new Error("Significant Figures Must Be A Whole Number Of At Least 1.");
+  if (v == 0 || !isFinite(v)) return v;
+  let exp: number = Number(v.toExponential().split("e")[1]);
+  return roundToDec(v, figures - 1 - exp, mode);
+}
+
+/**
+ * Rounds to a multiple of a given number, scaling both to integers first so fractional steps like 0.05 don't drift
+ * @param v - The number value to round
+ * @param n - The number value to round to a multiple of
+ * @param mode - Either the {@link RoundingMode} or a rounding function to use
+ */
+export function roundTo(v: number, n: number, mode: RoundingMode|((v: number) => number) = RoundingMode.HalfUp): number {
+  if (!(n > 0) || !isFinite(n)) throw new Error("Step Must Be A Finite Number Greater Than 0.");
+  let dec: number = decimalPlaces(n);
+  let step: number = shift(n, dec);
+  return shift(roundShifted(shift(v, dec) / step, mode) * step, -dec);
+}
+
+/** The {@link FormatOptions} used to format numbers */
+export interface FormatOptions {
+  /** The locale or locales to format for, defaulting to the runtime's locale */
+  locale?: string|string[];
+  /** The number of decimal places to show */
+  decimals?: number;
+  /** The {@link RoundingMode} used to drop the hidden decimal places */
+  mode?: RoundingMode;
+  /** Whether to group thousands with the locale's separator, defaulting to true */
+  grouping?: boolean;
+}
+
+/** The suffixes {@link formatCompact} uses, one per power of 1000 */
+const compactSuffixes: string[] = ["", "k", "M", "B", "T"];
+
+/**
+ * Formats a rounded value for a locale
+ * @param v - The number value, already rounded
+ * @param options - The {@link FormatOptions}
+ * @param min - The minimum number of decimal places to show
+ * @param max - The maximum number of decimal places to show
+ */
+function formatLocale(v: number, options: FormatOptions, min: number, max: number): string {
+  let {locale, grouping = true} = options;
+  return v.toLocaleString(locale, {minimumFractionDigits: min, maximumFractionDigits: max, useGrouping: grouping});
+}
+
+/**
+ * Formats a value with a fixed number of decimal places, like 1,234.50
+ * @param v - The number value to format
+ * @param options - The {@link FormatOptions}, where decimals defaults to 2
+ */
+export function formatFixed(v: number, options: FormatOptions = {}): string {
+  let {decimals = 2, mode} = options;
+  return formatLocale(roundToDec(v, decimals, mode), options, decimals, decimals);
+}
+
+/**
+ * Formats a value compactly with a short scale suffix, like 1.2k or 3.4M, dropping trailing zeros
+ * @param v - The number value to format
+ * @param options - The {@link FormatOptions}, where decimals is the most shown and defaults to 1
+ */
+export function formatCompact(v: number, options: FormatOptions = {}): string {
+  let {decimals = 1, mode} = options;
+  if (!isFinite(v)) return formatLocale(v, options, 0, decimals);
+  let tier: number = v == 0 ? 0 : Math.min(Math.max(Math.floor(Math.log10(Math.abs(v)) / 3), 0), compactSuffixes.length - 1);
+  let scaled: number = roundToDec(shift(v, -3 * tier), decimals, mode);
+  if (Math.abs(scaled) >= 1000 && tier < compactSuffixes.length - 1) scaled = roundToDec(shift(v, -3 * ++tier), decimals, mode);
+  return formatLocale(scaled, options, 0, decimals) + compactSuffixes[tier];
+}
+
+/**
+ * Formats a value in engineering notation, where the exponent is a multiple of 3, like 12.35e3
+ * @param v - The number value to format
+ * @param options - The {@link FormatOptions}, where decimals defaults to 2
+ */
+export function formatEngineering(v: number, options: FormatOptions = {}): string {
+  let {decimals = 2, mode} = options;
+  if (!isFinite(v)) return formatLocale(v, options, decimals, decimals);
+  let exp: number = v == 0 ? 0 : Math.floor(Number(v.toExponential().split("e")[1]) / 3) * 3;
+  let mantissa: number = roundToDec(shift(v, -exp), decimals, mode);
+  if (Math.abs(mantissa) >= 1000) mantissa = roundToDec(shift(v, -(exp += 3)), decimals, mode);
+  return `${formatLocale(mantissa, options, decimals, decimals)}e${exp}`;
+}
+
+/**
+ * Formats a fraction as a percentage, like 0.256 as 25.6%, using the locale's percent sign and spacing
+ * @param v - The number value to format, where 1 is 100%
+ * @param options - The {@link FormatOptions}, where decimals defaults to 0
  */
-export function roundTo(v: number, n: number, rFunc = Math.floor) {
-  return rFunc(v / n) * n;
+export function formatPercent(v: number, options: FormatOptions = {}): string {
+  let {locale, decimals = 0, mode, grouping = true} = options;
+  let rounded: number = shift(roundToDec(shift(v, 2), decimals, mode), -2);
+  return rounded.toLocaleString(locale, {style: "percent", minimumFractionDigits: decimals, maximumFractionDigits: decimals, useGrouping: grouping});
 }
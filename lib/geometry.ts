@@ -0,0 +1,890 @@
+"use strict";
+
+import {Vector2, Vector3} from "./vectors";
+
+/** A {@link RayHit} found by casting a {@link Ray} */
+export interface RayHit {
+  /** The distance along the ray to the hit */
+  distance: number;
+  /** The point of the hit */
+  point: Vector3;
+  /** The normal of the surface at the hit, facing the ray */
+  normal: Vector3;
+}
+
+/** Class representing an axis aligned rectangle */
+export class Rect {
+  public x: number;
+  public y: number;
+  public width: number;
+  public height: number;
+
+  /**
+   * Creates a {@link Rect}
+   * @param x - The x value of the corner with the smallest xy value
+   * @param y - The y value of the corner with the smallest xy value
+   * @param width - The width, which shouldn't be negative
+   * @param height - The height, which shouldn't be negative
+   */
+  public constructor(x: number = 0, y: number = 0, width: number = 0, height: number = 0) {
+    this.x = x;
+    this.y = y;
+    this.width = width;
+    this.height = height;
+  }
+
+  /** The corner with the smallest xy value */
+  public get min(): Vector2 {
+    return new Vector2().set(this.x, this.y);
+  }
+
+  /** The corner with the largest xy value */
+  public get max(): Vector2 {
+    return new Vector2().set(this.x + this.width, this.y + this.height);
+  }
+
+  /** The center of the {@link Rect} */
+  public get center(): Vector2 {
+    return new Vector2().set(this.x + this.width / 2, this.y + this.height / 2);
+  }
+
+  /** The area of the {@link Rect} */
+  public get area(): number {
+    return this.width * this.height;
+  }
+
+  /**
+   * Evaluates if a point is inside of the {@link Rect}, including its edges
+   * @param p - The point
+   */
+  public contains(p: Vector2): boolean {
+    return p.x >= this.x && p.x <= this.x + this.width && p.y >= this.y && p.y <= this.y + this.height;
+  }
+
+  /**
+   * Evaluates if another {@link Rect} is entirely inside of the {@link Rect}
+   * @param other - A {@link Rect}
+   */
+  public containsRect(other: Rect): boolean {
+    return other.x >= this.x && other.x + other.width <= this.x + this.width &&
+      other.y >= this.y && other.y + other.height <= this.y + this.height;
+  }
+
+  /**
+   * Evaluates if the {@link Rect} overlaps or touches another
+   * @param other - A {@link Rect}
+   */
+  public intersects(other: Rect): boolean {
+    return other.x <= this.x + this.width && other.x + other.width >= this.x &&
+      other.y <= this.y + this.height && other.y + other.height >= this.y;
+  }
+
+  /**
+   * Finds the overlap of the {@link Rect} and another
+   * @param other - A {@link Rect}
+   * @returns The overlapping {@link Rect}, or undefined when they don't intersect
+   */
+  public intersection(other: Rect): Rect|undefined {
+    if (!this.intersects(other)) return undefined;
+    let x: number = Math.max(this.x, other.x);
+    let y: number = Math.max(this.y, other.y);
+    return new Rect(x, y, Math.min(this.x + this.width, other.x + other.width) - x, Math.min(this.y + this.height, other.y + other.height) - y);
+  }
+
+  /**
+   * Finds the point of the {@link Rect} closest to another point
+   * @param p - The point
+   */
+  public closestPoint(p: Vector2): Vector2 {
+    return new Vector2().set(Math.min(Math.max(p.x, this.x), this.x + this.width), Math.min(Math.max(p.y, this.y), this.y + this.height));
+  }
+
+  /**
+   * Grows the {@link Rect} to include a point
+   * @param p - The point
+   */
+  public expand(p: Vector2): this {
+    let right: number = Math.max(this.x + this.width, p.x);
+    let bottom: number = Math.max(this.y + this.height, p.y);
+    this.x = Math.min(this.x, p.x);
+    this.y = Math.min(this.y, p.y);
+    this.width = right - this.x;
+    this.height = bottom - this.y;
+    return this;
+  }
+
+  /**
+   * Grows the {@link Rect} to include another
+   * @param other - A {@link Rect}
+   */
+  public union(other: Rect): this {
+    return this.expand(other.min).expand(other.max);
+  }
+
+  /** Creates a copy of the {@link Rect} */
+  public clone(): Rect {
+    return new Rect(this.x, this.y, this.width, this.height);
+  }
+
+  /**
+   * Evaluates if two {@link Rect}s are equal
+   * @param other - The {@link Rect} to compare with
+   */
+  public equals(other: Rect): boolean {
+    return this.x === other.x && this.y === other.y && this.width === other.width && this.height === other.height;
+  }
+
+  /**
+   * Finds the smallest {@link Rect} containing two others
+   * @param a - A {@link Rect}
+   * @param b - A {@link Rect}
+   */
+  public static union(a: Rect, b: Rect): Rect {
+    return a.clone().union(b);
+  }
+
+  /**
+   * Finds the smallest {@link Rect} containing every point
+   * @param points - The points, of which there must be at least one
+   */
+  public static fromPoints(points: Vector2[]): Rect {
+    if (points.length == 0) throw new Error("No Points Provided.");
+    let rect: Rect = new Rect(points[0].x, points[0].y);
+    points.forEach((p) => rect.expand(p));
+    return rect;
+  }
+}
+
+/** Class representing a circle */
+export class Circle {
+  public center: Vector2;
+  public radius: number;
+
+  /**
+   * Creates a {@link Circle}
+   * @param center - The center, which is copied
+   * @param radius - The radius
+   */
+  public constructor(center: Vector2 = new Vector2(), radius: number = 0) {
+    this.center = center.clone();
+    this.radius = radius;
+  }
+
+  /** The area of the {@link Circle} */
+  public get area(): number {
+    return Math.PI * this.radius * this.radius;
+  }
+
+  /** The smallest {@link Rect} containing the {@link Circle} */
+  public get bounds(): Rect {
+    return new Rect(this.center.x - this.radius, this.center.y - this.radius, this.radius * 2, this.radius * 2);
+  }
+
+  /**
+   * Evaluates if a point is inside of the {@link Circle}, including its edge
+   * @param p - The point
+   */
+  public contains(p: Vector2): boolean {
+    return this.center.sqrDistance(p) <= this.radius * this.radius;
+  }
+
+  /**
+   * Evaluates if the {@link Circle} overlaps or touches another {@link Circle} or a {@link Rect}
+   * @param other - A {@link Circle} or a {@link Rect}
+   */
+  public intersects(other: Circle|Rect): boolean {
+    if (other instanceof Rect) return this.contains(other.closestPoint(this.center));
+    let radius: number = this.radius + other.radius;
+    return this.center.sqrDistance(other.center) <= radius * radius;
+  }
+
+  /**
+   * Finds the point of the {@link Circle} closest to another point
+   * @param p - The point
+   */
+  public closestPoint(p: Vector2): Vector2 {
+    if (this.contains(p)) return p.clone();
+    return Vector2.sub(p, this.center).normalize().mult(this.radius).add(this.center);
+  }
+
+  /**
+   * Grows the {@link Circle} to the smallest one containing itself and another
+   * @param other - A {@link Circle}
+   */
+  public union(other: Circle): this {
+    let offset: Vector2 = Vector2.sub(other.center, this.center);
+    let distance: number = offset.magnitude;
+    if (distance + other.radius <= this.radius) return this;
+    if (distance + this.radius <= other.radius) {
+      this.center = other.center.clone();
+      this.radius = other.radius;
+      return this;
+    }
+    let radius: number = (distance + this.radius + other.radius) / 2;
+    this.center.add(offset.mult((radius - this.radius) / distance));
+    this.radius = radius;
+    return this;
+  }
+
+  /** Creates a copy of the {@link Circle} */
+  public clone(): Circle {
+    return new Circle(this.center, this.radius);
+  }
+
+  /**
+   * Finds the smallest {@link Circle} containing two others
+   * @param a - A {@link Circle}
+   * @param b - A {@link Circle}
+   */
+  public static union(a: Circle, b: Circle): Circle {
+    return a.clone().union(b);
+  }
+}
+
+/** Class representing an infinite 2D line */
+export class Line {
+  public point: Vector2;
+  public direction: Vector2;
+
+  /**
+   * Creates a {@link Line}
+   * @param point - A point on the line, which is copied
+   * @param direction - The direction of the line, which is copied and normalized
+   */
+  public constructor(point: Vector2, direction: Vector2) {
+    this.point = point.clone();
+    this.direction = direction.normalized;
+  }
+
+  /**
+   * Finds the point of the {@link Line} closest to another point
+   * @param p - The point
+   */
+  public closestPoint(p: Vector2): Vector2 {
+    return Vector2.sub(p, this.point).project(this.direction).add(this.point);
+  }
+
+  /**
+   * Finds the distance from a point to the {@link Line}
+   * @param p - The point
+   */
+  public distance(p: Vector2): number {
+    return Math.abs(this.direction.cross(Vector2.sub(p, this.point)));
+  }
+
+  /**
+   * Finds where the {@link Line} crosses another
+   * @param other - A {@link Line}
+   * @returns The point, or undefined when the lines are parallel
+   */
+  public intersection(other: Line): Vector2|undefined {
+    let denom: number = this.direction.cross(other.direction);
+    if (denom == 0) return undefined;
+    let t: number = Vector2.sub(other.point, this.point).cross(other.direction) / denom;
+    return this.direction.clone().mult(t).add(this.point);
+  }
+
+  /**
+   * Creates a {@link Line} through two points
+   * @param a - A point
+   * @param b - A different point
+   */
+  public static fromPoints(a: Vector2, b: Vector2): Line {
+    return new Line(a, Vector2.sub(b, a));
+  }
+}
+
+/** Class representing a 2D line segment */
+export class Segment {
+  public start: Vector2;
+  public end: Vector2;
+
+  /**
+   * Creates a {@link Segment}
+   * @param start - The start point, which is copied
+   * @param end - The end point, which is copied
+   */
+  public constructor(start: Vector2, end: Vector2) {
+    this.start = start.clone();
+    this.end = end.clone();
+  }
+
+  /** The length of the {@link Segment} */
+  public get length(): number {
+    return this.start.distance(this.end);
+  }
+
+  /** The smallest {@link Rect} containing the {@link Segment} */
+  public get bounds(): Rect {
+    return Rect.fromPoints([this.start, this.end]);
+  }
+
+  /**
+   * Finds a point along the {@link Segment}
+   * @param t - The amount from 0 at the start to 1 at the end
+   */
+  public at(t: number): Vector2 {
+    return Vector2.lerp(this.start, this.end, t);
+  }
+
+  /**
+   * Finds the point of the {@link Segment} closest to another point
+   * @param p - The point
+   */
+  public closestPoint(p: Vector2): Vector2 {
+    let d: Vector2 = Vector2.sub(this.end, this.start);
+    let sqr: number = d.sqrMagnitude;
+    if (sqr == 0) return this.start.clone();
+    return this.at(Math.min(Math.max(Vector2.sub(p, this.start).dot(d) / sqr, 0), 1));
+  }
+
+  /**
+   * Finds the distance from a point to the {@link Segment}
+   * @param p - The point
+   */
+  public distance(p: Vector2): number {
+    return this.closestPoint(p).distance(p);
+  }
+
+  /**
+   * Evaluates if the {@link Segment} crosses or touches another
+   * @param other - A {@link Segment}
+   */
+  public intersects(other: Segment): boolean {
+    return this.intersection(other) !== undefined;
+  }
+
+  /**
+   * Finds where the {@link Segment} crosses another
+   * @param other - A {@link Segment}
+   * @returns The point, the overlapping point closest to the start when they are collinear, or undefined when they don't intersect
+   */
+  public intersection(other: Segment): Vector2|undefined {
+    let r: Vector2 = Vector2.sub(this.end, this.start);
+    let s: Vector2 = Vector2.sub(other.end, other.start);
+    let q: Vector2 = Vector2.sub(other.start, this.start);
+    let denom: number = r.cross(s);
+    if (denom == 0) {
+      if (q.cross(r) != 0) return undefined;
+      let sqr: number = r.sqrMagnitude;
+      if (sqr == 0) return other.distance(this.start) == 0 ? this.start.clone() : undefined;
+      let t0: number = q.dot(r) / sqr;
+      let t1: number = t0 + s.dot(r) / sqr;
+      let lo: number = Math.max(Math.min(t0, t1), 0);
+      let hi: number = Math.min(Math.max(t0, t1), 1);
+      return lo <= hi ? this.at(lo) : undefined;
+    }
+    let t: number = q.cross(s) / denom;
+    let u: number = q.cross(r) / denom;
+    if (t < 0 || t > 1 || u < 0 || u > 1) return undefined;
+    return this.at(t);
+  }
+}
+
+/** Class representing a 2D polygon */
+export class Polygon {
+  /** The points, in order around the polygon */
+  public points: Vector2[];
+
+  /**
+   * Creates a {@link Polygon}
+   * @param points - The points in order around the polygon, which are copied
+   */
+  public constructor(points: Vector2[] = []) {
+    this.points = points.map((p) => p.clone());
+  }
+
+  /** The area of the {@link Polygon}, which is positive whichever way the points wind */
+  public get area(): number {
+    return Math.abs(this.signedArea);
+  }
+
+  /** The smallest {@link Rect} containing the {@link Polygon} */
+  public get bounds(): Rect {
+    return Rect.fromPoints(this.points);
+  }
+
+  /** The center of mass of the {@link Polygon} */
+  public get centroid(): Vector2 {
+    let area: number = this.signedArea;
+    if (area == 0) return this.points.reduce((sum, p) => sum.add(p), new Vector2()).div(Math.max(this.points.length, 1));
+    let centroid: Vector2 = new Vector2();
+    this.edges().forEach(({start, end}) => centroid.add(Vector2.add(start, end).mult(start.cross(end))));
+    return centroid.div(6 * area);
+  }
+
+  /** Evaluates if the {@link Polygon} is convex, which {@link Polygon.intersects} requires */
+  public get convex(): boolean {
+    let sign: number = 0;
+    let n: number = this.points.length;
+    for (let i = 0; i < n; i++) {
+      let a: Vector2 = this.points[i];
+      let b: Vector2 = this.points[(i + 1) % n];
+      let c: Vector2 = this.points[(i + 2) % n];
+      let cross: number = Vector2.sub(b, a).cross(Vector2.sub(c, b));
+      if (cross == 0) continue;
+      if (sign == 0) sign = Math.sign(cross);
+      else if (Math.sign(cross) != sign) return false;
+    }
+    return true;
+  }
+
+  /** The area of the {@link Polygon}, positive when the points turn from the x axis towards the y axis */
+  private get signedArea(): number {
+    return this.edges().reduce((sum, {start, end}) => sum + start.cross(end), 0) / 2;
+  }
+
+  /** Lists the edges of the {@link Polygon} as {@link Segment}s, closing back to the first point */
+  public edges(): Segment[] {
+    return this.points.map((p, i) => new Segment(p, this.points[(i + 1) % this.points.length]));
+  }
+
+  /**
+   * Evaluates if a point is inside of the {@link Polygon} by the even-odd rule, which works whether or not it is convex
+   * @param p - The point
+   */
+  public contains(p: Vector2): boolean {
+    let inside: boolean = false;
+    let n: number = this.points.length;
+    for (let i = 0, j = n - 1; i < n; j = i++) {
+      let a: Vector2 = this.points[i];
+      let b: Vector2 = this.points[j];
+      if ((a.y > p.y) != (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+    }
+    return inside;
+  }
+
+  /**
+   * Finds the point of the {@link Polygon} closest to another point
+   * @param p - The point, which is returned as is when inside
+   */
+  public closestPoint(p: Vector2): Vector2 {
+    if (this.contains(p)) return p.clone();
+    let closest: Vector2 = p.clone();
+    let best: number = Infinity;
+    this.edges().forEach((edge) => {
+      let point: Vector2 = edge.closestPoint(p);
+      let sqr: number = point.sqrDistance(p);
+      if (sqr < best) {
+        best = sqr;
+        closest = point;
+      }
+    });
+    return closest;
+  }
+
+  /**
+   * Evaluates if two convex {@link Polygon}s overlap or touch with the separating axis theorem
+   * @param other - A convex {@link Polygon}
+   */
+  public intersects(other: Polygon): boolean {
+    let axes: Vector2[] = this.edges().concat(other.edges()).map(({start, end}) => new Vector2().set(start.y - end.y, end.x - start.x));
+    return axes.every((axis) => {
+      let [minA, maxA] = Polygon.projectPoints(this.points, axis);
+      let [minB, maxB] = Polygon.projectPoints(other.points, axis);
+      return minA <= maxB && minB <= maxA;
+    });
+  }
+
+  /**
+   * Creates a {@link Polygon} from the corners of a {@link Rect}
+   * @param rect - The {@link Rect}
+   */
+  public static fromRect(rect: Rect): Polygon {
+    let {x, y, width, height} = rect;
+    return new Polygon([
+      new Vector2().set(x, y),
+      new Vector2().set(x + width, y),
+      new Vector2().set(x + width, y + height),
+      new Vector2().set(x, y + height)
+    ]);
+  }
+
+  /**
+   * Finds the smallest and largest dot products of points with an axis
+   * @param points - The points
+   * @param axis - The axis to project onto
+   */
+  private static projectPoints(points: Vector2[], axis: Vector2): number[] {
+    let min: number = Infinity;
+    let max: number = -Infinity;
+    points.forEach((p) => {
+      let d: number = p.dot(axis);
+      min = Math.min(min, d);
+      max = Math.max(max, d);
+    });
+    return [min, max];
+  }
+}
+
+/** Class representing an axis aligned bounding box */
+export class AABB {
+  public min: Vector3;
+  public max: Vector3;
+
+  /**
+   * Creates an {@link AABB}
+   * @param min - The corner with the smallest xyz value, which is copied
+   * @param max - The corner with the largest xyz value, which is copied
+   */
+  public constructor(min: Vector3 = new Vector3(), max: Vector3 = new Vector3()) {
+    this.min = min.clone();
+    this.max = max.clone();
+  }
+
+  /** The center of the {@link AABB} */
+  public get center(): Vector3 {
+    return Vector3.lerp(this.min, this.max, 0.5);
+  }
+
+  /** The width, height and depth of the {@link AABB} */
+  public get size(): Vector3 {
+    return Vector3.sub(this.max, this.min);
+  }
+
+  /**
+   * Evaluates if a point is inside of the {@link AABB}, including its faces
+   * @param p - The point
+   */
+  public contains(p: Vector3): boolean {
+    return p.x >= this.min.x && p.x <= this.max.x && p.y >= this.min.y && p.y <= this.max.y && p.z >= this.min.z && p.z <= this.max.z;
+  }
+
+  /**
+   * Evaluates if another {@link AABB} is entirely inside of the {@link AABB}
+   * @param other - An {@link AABB}
+   */
+  public containsAABB(other: AABB): boolean {
+    return this.contains(other.min) && this.contains(other.max);
+  }
+
+  /**
+   * Evaluates if the {@link AABB} overlaps or touches another {@link AABB} or a {@link Sphere}
+   * @param other - An {@link AABB} or a {@link Sphere}
+   */
+  public intersects(other: AABB|Sphere): boolean {
+    if (other instanceof Sphere) return other.contains(this.closestPoint(other.center));
+    return other.min.x <= this.max.x && other.max.x >= this.min.x &&
+      other.min.y <= this.max.y && other.max.y >= this.min.y &&
+      other.min.z <= this.max.z && other.max.z >= this.min.z;
+  }
+
+  /**
+   * Finds the point of the {@link AABB} closest to another point
+   * @param p - The point
+   */
+  public closestPoint(p: Vector3): Vector3 {
+    return Vector3.max(p, this.min).min(this.max);
+  }
+
+  /**
+   * Grows the {@link AABB} to include a point
+   * @param p - The point
+   */
+  public expand(p: Vector3): this {
+    this.min.min(p);
+    this.max.max(p);
+    return this;
+  }
+
+  /**
+   * Grows the {@link AABB} to include another
+   * @param other - An {@link AABB}
+   */
+  public union(other: AABB): this {
+    return this.expand(other.min).expand(other.max);
+  }
+
+  /** Creates a copy of the {@link AABB} */
+  public clone(): AABB {
+    return new AABB(this.min, this.max);
+  }
+
+  /**
+   * Evaluates if two {@link AABB}s are equal
+   * @param other - The {@link AABB} to compare with
+   */
+  public equals(other: AABB): boolean {
+    return this.min.equals(other.min) && this.max.equals(other.max);
+  }
+
+  /**
+   * Finds the smallest {@link AABB} containing two others
+   * @param a - An {@link AABB}
+   * @param b - An {@link AABB}
+   */
+  public static union(a: AABB, b: AABB): AABB {
+    return a.clone().union(b);
+  }
+
+  /**
+   * Finds the smallest {@link AABB} containing every point
+   * @param points - The points, of which there must be at least one
+   */
+  public static fromPoints(points: Vector3[]): AABB {
+    if (points.length == 0) throw new Error("No Points Provided.");
+    let box: AABB = new AABB(points[0], points[0]);
+    points.forEach((p) => box.expand(p));
+    return box;
+  }
+}
+
+/** Class representing a sphere */
+export class Sphere {
+  public center: Vector3;
+  public radius: number;
+
+  /**
+   * Creates a {@link Sphere}
+   * @param center - The center, which is copied
+   * @param radius - The radius
+   */
+  public constructor(center: Vector3 = new Vector3(), radius: number = 0) {
+    this.center = center.clone();
+    this.radius = radius;
+  }
+
+  /** The smallest {@link AABB} containing the {@link Sphere} */
+  public get bounds(): AABB {
+    return new AABB(Vector3.sub(this.center, new Vector3(this.radius)), Vector3.add(this.center, new Vector3(this.radius)));
+  }
+
+  /**
+   * Evaluates if a point is inside of the {@link Sphere}, including its surface
+   * @param p - The point
+   */
+  public contains(p: Vector3): boolean {
+    return this.center.sqrDistance(p) <= this.radius * this.radius;
+  }
+
+  /**
+   * Evaluates if the {@link Sphere} overlaps or touches another {@link Sphere} or an {@link AABB}
+   * @param other - A {@link Sphere} or an {@link AABB}
+   */
+  public intersects(other: Sphere|AABB): boolean {
+    if (other instanceof AABB) return other.intersects(this);
+    let radius: number = this.radius + other.radius;
+    return this.center.sqrDistance(other.center) <= radius * radius;
+  }
+
+  /**
+   * Finds the point of the {@link Sphere} closest to another point
+   * @param p - The point
+   */
+  public closestPoint(p: Vector3): Vector3 {
+    if (this.contains(p)) return p.clone();
+    return Vector3.sub(p, this.center).normalize().mult(this.radius).add(this.center);
+  }
+
+  /**
+   * Grows the {@link Sphere} to the smallest one containing itself and another
+   * @param other - A {@link Sphere}
+   */
+  public union(other: Sphere): this {
+    let offset: Vector3 = Vector3.sub(other.center, this.center);
+    let distance: number = offset.magnitude;
+    if (distance + other.radius <= this.radius) return this;
+    if (distance + this.radius <= other.radius) {
+      this.center = other.center.clone();
+      this.radius = other.radius;
+      return this;
+    }
+    let radius: number = (distance + this.radius + other.radius) / 2;
+    this.center.add(offset.mult((radius - this.radius) / distance));
+    this.radius = radius;
+    return this;
+  }
+
+  /** Creates a copy of the {@link Sphere} */
+  public clone(): Sphere {
+    return new Sphere(this.center, this.radius);
+  }
+
+  /**
+   * Finds the smallest {@link Sphere} containing two others
+   * @param a - A {@link Sphere}
+   * @param b - A {@link Sphere}
+   */
+  public static union(a: Sphere, b: Sphere): Sphere {
+    return a.clone().union(b);
+  }
+}
+
+/** Class representing an infinite plane where the dot product of its normal and any point on it plus its constant is 0 */
+export class Plane {
+  public normal: Vector3;
+  public constant: number;
+
+  /**
+   * Creates a {@link Plane}
+   * @param normal - The normal, which is copied and normalized along with the constant
+   * @param constant - The negated distance from the origin along the normal
+   */
+  public constructor(normal: Vector3 = Vector3.up, constant: number = 0) {
+    let magnitude: number = normal.magnitude;
+    if (magnitude == 0) throw new Error("Plane Normal Must Not Be Zero.");
+    this.normal = normal.clone().div(magnitude);
+    this.constant = constant / magnitude;
+  }
+
+  /**
+   * Finds the signed distance from the {@link Plane} to a point, positive on the side the normal faces
+   * @param p - The point
+   */
+  public distance(p: Vector3): number {
+    return this.normal.dot(p) + this.constant;
+  }
+
+  /**
+   * Finds the point of the {@link Plane} closest to another point
+   * @param p - The point
+   */
+  public closestPoint(p: Vector3): Vector3 {
+    return Vector3.sub(p, this.normal.clone().mult(this.distance(p)));
+  }
+
+  /**
+   * Creates a {@link Plane} with a normal through a point
+   * @param normal - The normal
+   * @param point - A point on the plane
+   */
+  public static fromNormalAndPoint(normal: Vector3, point: Vector3): Plane {
+    let n: Vector3 = normal.normalized;
+    return new Plane(n, -n.dot(point));
+  }
+
+  /**
+   * Creates a {@link Plane} through three points, facing the side they appear counter-clockwise from
+   * @param a - A point
+   * @param b - A point
+   * @param c - A point
+   */
+  public static fromPoints(a: Vector3, b: Vector3, c: Vector3): Plane {
+    return Plane.fromNormalAndPoint(Vector3.sub(b, a).cross(Vector3.sub(c, a)), a);
+  }
+}
+
+/** Class representing a 3D ray, a half line used for picking */
+export class Ray {
+  public origin: Vector3;
+  public direction: Vector3;
+
+  /**
+   * Creates a {@link Ray}
+   * @param origin - The point the ray starts at, which is copied
+   * @param direction - The direction of the ray, which is copied and normalized
+   */
+  public constructor(origin: Vector3, direction: Vector3) {
+    this.origin = origin.clone();
+    this.direction = direction.normalized;
+  }
+
+  /**
+   * Finds a point along the {@link Ray}
+   * @param distance - The distance from the origin
+   */
+  public at(distance: number): Vector3 {
+    return this.direction.clone().mult(distance).add(this.origin);
+  }
+
+  /**
+   * Finds the point of the {@link Ray} closest to another point
+   * @param p - The point
+   */
+  public closestPoint(p: Vector3): Vector3 {
+    return this.at(Math.max(Vector3.sub(p, this.origin).dot(this.direction), 0));
+  }
+
+  /**
+   * Finds the distance from a point to the {@link Ray}
+   * @param p - The point
+   */
+  public distance(p: Vector3): number {
+    return this.closestPoint(p).distance(p);
+  }
+
+  /**
+   * Casts the {@link Ray} against an {@link AABB} with the slab method
+   * @param box - The {@link AABB}
+   * @returns The first hit, which is where the ray leaves when it starts inside, or undefined when it misses
+   */
+  public intersectAABB(box: AABB): RayHit|undefined {
+    let near: number = -Infinity;
+    let far: number = Infinity;
+    let nearAxis: number = 0;
+    let farAxis: number = 0;
+    for (let i = 0; i < 3; i++) {
+      let o: number = this.origin.getComponent(i);
+      let d: number = this.direction.getComponent(i);
+      let min: number = box.min.getComponent(i);
+      let max: number = box.max.getComponent(i);
+      if (d == 0) {
+        if (o < min || o > max) return undefined;
+        continue;
+      }
+      let t1: number = (min - o) / d;
+      let t2: number = (max - o) / d;
+      if (t1 > t2) [t1, t2] = [t2, t1];
+      if (t1 > near) {
+        near = t1;
+        nearAxis = i;
+      }
+      if (t2 < far) {
+        far = t2;
+        farAxis = i;
+      }
+    }
+    if (near > far || far < 0) return undefined;
+
+    let inside: boolean = near < 0;
+    let axis: number = inside ? farAxis : nearAxis;
+    let normal: Vector3 = new Vector3().setComponent(axis, this.direction.getComponent(axis) > 0 ? -1 : 1);
+    let distance: number = inside ? far : near;
+    return {distance, point: this.at(distance), normal};
+  }
+
+  /**
+   * Casts the {@link Ray} against a {@link Sphere}
+   * @param sphere - The {@link Sphere}
+   * @returns The first hit, which is where the ray leaves when it starts inside, or undefined when it misses
+   */
+  public intersectSphere(sphere: Sphere): RayHit|undefined {
+    let offset: Vector3 = Vector3.sub(this.origin, sphere.center);
+    let b: number = offset.dot(this.direction);
+    let c: number = offset.sqrMagnitude - sphere.radius * sphere.radius;
+    let discriminant: number = b * b - c;
+    if (discriminant < 0) return undefined;
+
+    let root: number = Math.sqrt(discriminant);
+    let distance: number = -b - root;
+    let inside: boolean = distance < 0;
+    if (inside) distance = -b + root;
+    if (distance < 0) return undefined;
+
+    let point: Vector3 = this.at(distance);
+    let normal: Vector3 = Vector3.sub(point, sphere.center).normalize();
+    return {distance, point, normal: inside ? normal.mult(-1) : normal};
+  }
+
+  /**
+   * Casts the {@link Ray} against a {@link Plane}
+   * @param plane - The {@link Plane}
+   * @returns The hit, or undefined when the ray is parallel to or points away from the plane
+   */
+  public intersectPlane(plane: Plane): RayHit|undefined {
+    let denom: number = plane.normal.dot(this.direction);
+    if (denom == 0) return undefined;
+    let distance: number = -plane.distance(this.origin) / denom;
+    if (distance < 0) return undefined;
+    return {distance, point: this.at(distance), normal: denom < 0 ? plane.normal.clone() : plane.normal.clone().mult(-1)};
+  }
+
+  /**
+   * Creates a {@link Ray} from one point towards another
+   * @param from - The origin
+   * @param to - A different point the ray passes through
+   */
+  public static fromPoints(from: Vector3, to: Vector3): Ray {
+    return new Ray(from, Vector3.sub(to, from));
+  }
+}
@@ -0,0 +1,93 @@
+"use strict";
+
+import {Color, HueInterpolation, MixSpace} from "./colors";
+import type {Easing} from "./easing";
+import {clamp} from "./fmath";
+
+/** A {@link GradientStop} placing a {@link Color} along a {@link Gradient} */
+export interface GradientStop {
+  /** The position of the stop between 0 and 1 */
+  position: number;
+  /** The {@link Color} at the stop */
+  color: Color;
+  /** The {@link Easing} used between this stop and the next, defaulting to linear */
+  easing?: Easing;
+}
+
+/** Class representing a multi-stop gradient */
+export class Gradient {
+  /** The {@link MixSpace} colors are interpolated in */
+  public space: MixSpace;
+  /** The {@link HueInterpolation} used when interpolating in {@link MixSpace.HSL} */
+  public hue: HueInterpolation;
+  /** The stops, sorted by position */
+  private s: GradientStop[] = [];
+
+  /**
+   * Creates a {@link Gradient}
+   * @param stops - Either {@link GradientStop}s or {@link Color}s, which are spread evenly between 0 and 1
+   * @param space - The {@link MixSpace} colors are interpolated in
+   * @param hue - The {@link HueInterpolation} used when interpolating in {@link MixSpace.HSL}
+   */
+  public constructor(stops: (GradientStop|Color)[] = [], space: MixSpace = MixSpace.OKLab, hue: HueInterpolation = HueInterpolation.Shorter) {
+    this.space = space;
+    this.hue = hue;
+    stops.forEach((stop, i) => {
+      if (stop instanceof Color) this.addStop(stops.length == 1 ? 0 : i / (stops.length - 1), stop);
+      else this.addStop(stop.position, stop.color, stop.easing);
+    });
+  }
+
+  /** Gets a copy of the stops, sorted by position */
+  public get stops(): GradientStop[] {
+    return this.s.map((stop) => ({...stop}));
+  }
+
+  /**
+   * Adds a stop to the {@link Gradient}
+   * @param position - The position of the stop between 0 and 1
+   * @param color - The {@link Color} at the stop
+   * @param easing - The {@link Easing} used between this stop and the next
+   */
+  public addStop(position: number, color: Color, easing?: Easing): this {
+    let stop: GradientStop = {position: clamp(position, 1), color, easing};
+    let index: number = this.s.findIndex((other) => other.position > stop.position);
+    if (index == -1) this.s.push(stop);
+    else this.s.splice(index, 0, stop);
+    return this;
+  }
+
+  /**
+   * Finds the {@link Color} at a position along the {@link Gradient}
+   * @param t - The position between 0 and 1
+   */
+  public sample(t: number): Color {
+    if (this.s.length == 0) throw new Error("Gradient Has No Stops.");
+    t = clamp(t, 1);
+
+    let first: GradientStop = this.s[0];
+    let last: GradientStop = this.s[this.s.length - 1];
+    if (t <= first.position) return first.color.clone();
+    if (t >= last.position) return last.color.clone();
+
+    let i: number = 0;
+    while (this.s[i + 1].position < t) i++;
+    let from: GradientStop = this.s[i];
+    let to: GradientStop = this.s[i + 1];
+    let span: number = to.position - from.position;
+    let local: number = span == 0 ? 1 : (t - from.position) / span;
+    return Color.mix(from.color, to.color, from.easing ? from.easing(local) : local, this.space, this.hue);
+  }
+
+  /**
+   * Samples evenly spaced {@link Color}s from the start to the end of the {@link Gradient}
+   * @param n - The number of {@link Color}s to sample
+   */
+  public toArray(n: number): Color[] {
+    let colors: Color[] = [];
+    for (let i = 0; i < n; i++) {
+      colors.push(this.sample(n == 1 ? 0 : i / (n - 1)));
+    }
+    return colors;
+  }
+}
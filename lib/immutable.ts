@@ -0,0 +1,505 @@
+"use strict";
+
+import {Color} from "./colors";
+import {LabObject, LChObject, XYZObject} from "./colorspaces";
+import {ValidationError} from "./errors";
+import {Vector2, Vector3} from "./vectors";
+
+/** Class representing a frozen Vector2 whose operations return new instances */
+export class ImmutableVector2 {
+  public readonly x: number;
+  public readonly y: number;
+
+  /**
+   * Creates an {@link ImmutableVector2}
+   * @param a - Either a number to be used as the xy value or a {@link Vector2} or {@link ImmutableVector2}
+   * @param b - A number to be used as the y value
+   */
+  public constructor(a: number|Vector2|ImmutableVector2 = 0, b?: number) {
+    let v: Vector2 = ImmutableVector2.mutable(a, b);
+    this.x = v.x;
+    this.y = v.y;
+    Object.freeze(this);
+  }
+
+  /** The Magnitude of this */
+  public get magnitude(): number {
+    return this.toMutable().magnitude;
+  }
+
+  /** The Magnitude Squared of this */
+  public get sqrMagnitude(): number {
+    return this.toMutable().sqrMagnitude;
+  }
+
+  /** The normalized {@link ImmutableVector2} of this */
+  public get normalized(): ImmutableVector2 {
+    return new ImmutableVector2(this.toMutable().normalize());
+  }
+
+  /**
+   * Finds the sum of this and another value
+   * @param a - Either a number to be used as the xy value or a {@link Vector2} or {@link ImmutableVector2}
+   * @param b - A number to be used as the y value
+   */
+  public add(a: number|Vector2|ImmutableVector2, b?: number): ImmutableVector2 {
+    return new ImmutableVector2(this.toMutable().add(ImmutableVector2.mutable(a, b)));
+  }
+
+  /**
+   * Finds the difference of this and another value
+   * @param a - Either a number to be used as the xy value or a {@link Vector2} or {@link ImmutableVector2}
+   * @param b - A number to be used as the y value
+   */
+  public sub(a: number|Vector2|ImmutableVector2, b?: number): ImmutableVector2 {
+    return new ImmutableVector2(this.toMutable().sub(ImmutableVector2.mutable(a, b)));
+  }
+
+  /**
+   * Finds the product of this and another value
+   * @param a - Either a number to be used as the xy value or a {@link Vector2} or {@link ImmutableVector2}
+   * @param b - A number to be used as the y value
+   */
+  public mult(a: number|Vector2|ImmutableVector2, b?: number): ImmutableVector2 {
+    return new ImmutableVector2(this.toMutable().mult(ImmutableVector2.mutable(a, b)));
+  }
+
+  /**
+   * Finds the quotient of this and another value
+   * @param a - Either a number to be used as the xy value or a {@link Vector2} or {@link ImmutableVector2}
+   * @param b - A number to be used as the y value
+   */
+  public div(a: number|Vector2|ImmutableVector2, b?: number): ImmutableVector2 {
+    return new ImmutableVector2(this.toMutable().div(ImmutableVector2.mutable(a, b)));
+  }
+
+  /**
+   * Evaluates if this equals another vector
+   * @param other - The {@link Vector2} or {@link ImmutableVector2} to compare with
+   */
+  public equals(other: Vector2|ImmutableVector2): boolean {
+    return this.x === other.x && this.y === other.y;
+  }
+
+  /** Creates a mutable {@link Vector2} copy of this */
+  public toMutable(): Vector2 {
+    return new Vector2(this.x, this.y);
+  }
+
+  /** Converts the {@link ImmutableVector2} to an {@link Array} */
+  public toArray(): number[] {
+    return this.toMutable().toArray();
+  }
+
+  /** Converts the {@link ImmutableVector2} to a {@link String} */
+  public toString(): string {
+    return this.toMutable().toString();
+  }
+
+  /**
+   * Creates an {@link ImmutableVector2} from a {@link Vector2}, reusing it when it is already immutable
+   * @param v - The vector to freeze
+   */
+  public static from(v: Vector2|ImmutableVector2): ImmutableVector2 {
+    return v instanceof ImmutableVector2 ? v : new ImmutableVector2(v);
+  }
+
+  /**
+   * Creates a mutable {@link Vector2} from the parameters of an operation
+   * @param a - Either a number to be used as the xy value or a {@link Vector2} or {@link ImmutableVector2}
+   * @param b - A number to be used as the y value
+   */
+  private static mutable(a: number|Vector2|ImmutableVector2, b?: number): Vector2 {
+    return a instanceof ImmutableVector2 ? a.toMutable() : new Vector2(a, b);
+  }
+
+  /** A shared {@link ImmutableVector2} with the xy value of 0, 0 */
+  public static readonly zero: ImmutableVector2 = new ImmutableVector2(0, 0);
+  /** A shared {@link ImmutableVector2} with the xy value of 0, -1 */
+  public static readonly up: ImmutableVector2 = new ImmutableVector2(0, -1);
+  /** A shared {@link ImmutableVector2} with the xy value of 0, 1 */
+  public static readonly down: ImmutableVector2 = new ImmutableVector2(0, 1);
+  /** A shared {@link ImmutableVector2} with the xy value of -1, 0 */
+  public static readonly left: ImmutableVector2 = new ImmutableVector2(-1, 0);
+  /** A shared {@link ImmutableVector2} with the xy value of 1, 0 */
+  public static readonly right: ImmutableVector2 = new ImmutableVector2(1, 0);
+}
+
+/** Class representing a frozen Vector3 whose operations return new instances */
+export class ImmutableVector3 {
+  public readonly x: number;
+  public readonly y: number;
+  public readonly z: number;
+
+  /**
+   * Creates an {@link ImmutableVector3}
+   * @param a - Either a number to be used as the xyz value or a {@link Vector3} or {@link ImmutableVector3}
+   * @param b - A number to be used as the y value
+   * @param c - A number to be used as the z value
+   */
+  public constructor(a: number|Vector3|ImmutableVector3 = 0, b?: number, c?: number) {
+    let v: Vector3 = ImmutableVector3.mutable(a, b, c);
+    this.x = v.x;
+    this.y = v.y;
+    this.z = v.z;
+    Object.freeze(this);
+  }
+
+  /** The Magnitude of this */
+  public get magnitude(): number {
+    return this.toMutable().magnitude;
+  }
+
+  /** The Magnitude Squared of this */
+  public get sqrMagnitude(): number {
+    return this.toMutable().sqrMagnitude;
+  }
+
+  /** The normalized {@link ImmutableVector3} of this */
+  public get normalized(): ImmutableVector3 {
+    return new ImmutableVector3(this.toMutable().normalize());
+  }
+
+  /**
+   * Finds the sum of this and another value
+   * @param a - Either a number to be used as the xyz value or a {@link Vector3} or {@link ImmutableVector3}
+   * @param b - A number to be used as the y value
+   * @param c - A number to be used as the z value
+   */
+  public add(a: number|Vector3|ImmutableVector3, b?: number, c?: number): ImmutableVector3 {
+    return new ImmutableVector3(this.toMutable().add(ImmutableVector3.mutable(a, b, c)));
+  }
+
+  /**
+   * Finds the difference of this and another value
+   * @param a - Either a number to be used as the xyz value or a {@link Vector3} or {@link ImmutableVector3}
+   * @param b - A number to be used as the y value
+   * @param c - A number to be used as the z value
+   */
+  public sub(a: number|Vector3|ImmutableVector3, b?: number, c?: number): ImmutableVector3 {
+    return new ImmutableVector3(this.toMutable().sub(ImmutableVector3.mutable(a, b, c)));
+  }
+
+  /**
+   * Finds the product of this and another value
+   * @param a - Either a number to be used as the xyz value or a {@link Vector3} or {@link ImmutableVector3}
+   * @param b - A number to be used as the y value
+   * @param c - A number to be used as the z value
+   */
+  public mult(a: number|Vector3|ImmutableVector3, b?: number, c?: number): ImmutableVector3 {
+    return new ImmutableVector3(this.toMutable().mult(ImmutableVector3.mutable(a, b, c)));
+  }
+
+  /**
+   * Finds the quotient of this and another value
+   * @param a - Either a number to be used as the xyz value or a {@link Vector3} or {@link ImmutableVector3}
+   * @param b - A number to be used as the y value
+   * @param c - A number to be used as the z value
+   */
+  public div(a: number|Vector3|ImmutableVector3, b?: number, c?: number): ImmutableVector3 {
+    return new ImmutableVector3(this.toMutable().div(ImmutableVector3.mutable(a, b, c)));
+  }
+
+  /**
+   * Evaluates if this equals another vector
+   * @param other - The {@link Vector3} or {@link ImmutableVector3} to compare with
+   */
+  public equals(other: Vector3|ImmutableVector3): boolean {
+    return this.x === other.x && this.y === other.y && this.z === other.z;
+  }
+
+  /** Creates a mutable {@link Vector3} copy of this */
+  public toMutable(): Vector3 {
+    return new Vector3(this.x, this.y, this.z);
+  }
+
+  /** Converts the {@link ImmutableVector3} to an {@link Array} */
+  public toArray(): number[] {
+    return this.toMutable().toArray();
+  }
+
+  /** Converts the {@link ImmutableVector3} to a {@link String} */
+  public toString(): string {
+    return this.toMutable().toString();
+  }
+
+  /**
+   * Creates an {@link ImmutableVector3} from a {@link Vector3}, reusing it when it is already immutable
+   * @param v - The vector to freeze
+   */
+  public static from(v: Vector3|ImmutableVector3): ImmutableVector3 {
+    return v instanceof ImmutableVector3 ? v : new ImmutableVector3(v);
+  }
+
+  /**
+   * Creates a mutable {@link Vector3} from the parameters of an operation
+   * @param a - Either a number to be used as the xyz value or a {@link Vector3} or {@link ImmutableVector3}
+   * @param b - A number to be used as the y value
+   * @param c - A number to be used as the z value
+   */
+  private static mutable(a: number|Vector3|ImmutableVector3, b?: number, c?: number): Vector3 {
+    return a instanceof ImmutableVector3 ? a.toMutable() : new Vector3(a, b, c);
+  }
+
+  /** A shared {@link ImmutableVector3} with the xyz value of 0, 0, 0 */
+  public static readonly zero: ImmutableVector3 = new ImmutableVector3(0, 0, 0);
+  /** A shared {@link ImmutableVector3} with the xyz value of 0, -1, 0 */
+  public static readonly up: ImmutableVector3 = new ImmutableVector3(0, -1, 0);
+  /** A shared {@link ImmutableVector3} with the xyz value of 0, 1, 0 */
+  public static readonly down: ImmutableVector3 = new ImmutableVector3(0, 1, 0);
+  /** A shared {@link ImmutableVector3} with the xyz value of -1, 0, 0 */
+  public static readonly left: ImmutableVector3 = new ImmutableVector3(-1, 0, 0);
+  /** A shared {@link ImmutableVector3} with the xyz value of 1, 0, 0 */
+  public static readonly right: ImmutableVector3 = new ImmutableVector3(1, 0, 0);
+  /** A shared {@link ImmutableVector3} with the xyz value of 0, 0, -1 */
+  public static readonly back: ImmutableVector3 = new ImmutableVector3(0, 0, -1);
+  /** A shared {@link ImmutableVector3} with the xyz value of 0, 0, 1 */
+  public static readonly forth: ImmutableVector3 = new ImmutableVector3(0, 0, 1);
+}
+
+/** Class representing a {@link Color} that can't be modified, where every setter throws */
+export class ImmutableColor extends Color {
+  /**
+   * Creates a new {@link ImmutableColor}
+   * @param a - Either a {@link Color} to copy, a hexadecimal string or a number representing the first channel of the current ColorMode
+   * @param b - A number representing the second channel of the current ColorMode
+   * @param c - A number representing the third channel of the current ColorMode
+   * @param d - A number representing the Alpha value, or the Key value in CMYK
+   * @param e - A number representing the Alpha value in CMYK
+   */
+  public constructor(a: Color|string|number, b?: number, c?: number, d?: number, e?: number) {
+    super(a instanceof Color ? a.toHex(true) : a, b, c, d, e);
+  }
+
+  /** Gets the red value */
+  public get red(): number {
+    return super.red;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param red - The ignored value
+   */
+  public set red(red: number) {
+    ImmutableColor.readonly("red");
+  }
+
+  /** Gets the green value */
+  public get green(): number {
+    return super.green;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param green - The ignored value
+   */
+  public set green(green: number) {
+    ImmutableColor.readonly("green");
+  }
+
+  /** Gets the blue value */
+  public get blue(): number {
+    return super.blue;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param blue - The ignored value
+   */
+  public set blue(blue: number) {
+    ImmutableColor.readonly("blue");
+  }
+
+  /** Gets the hue value */
+  public get hue(): number {
+    return super.hue;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param hue - The ignored value
+   */
+  public set hue(hue: number) {
+    ImmutableColor.readonly("hue");
+  }
+
+  /** Gets the saturation value */
+  public get saturation(): number {
+    return super.saturation;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param saturation - The ignored value
+   */
+  public set saturation(saturation: number) {
+    ImmutableColor.readonly("saturation");
+  }
+
+  /** Gets the lightness value */
+  public get lightness(): number {
+    return super.lightness;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param lightness - The ignored value
+   */
+  public set lightness(lightness: number) {
+    ImmutableColor.readonly("lightness");
+  }
+
+  /** Gets the alpha value */
+  public get alpha(): number {
+    return super.alpha;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param alpha - The ignored value
+   */
+  public set alpha(alpha: number) {
+    ImmutableColor.readonly("alpha");
+  }
+
+  /** Gets the hsv value */
+  public get hsv(): Color["hsv"] {
+    return super.hsv;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param hsv - The ignored value
+   */
+  public set hsv(hsv: Color["hsv"]) {
+    ImmutableColor.readonly("hsv");
+  }
+
+  /** Gets the hwb value */
+  public get hwb(): Color["hwb"] {
+    return super.hwb;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param hwb - The ignored value
+   */
+  public set hwb(hwb: Color["hwb"]) {
+    ImmutableColor.readonly("hwb");
+  }
+
+  /** Gets the cmyk value */
+  public get cmyk(): Color["cmyk"] {
+    return super.cmyk;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param cmyk - The ignored value
+   */
+  public set cmyk(cmyk: Color["cmyk"]) {
+    ImmutableColor.readonly("cmyk");
+  }
+
+  /** Gets the xyz value */
+  public get xyz(): XYZObject {
+    return super.xyz;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param xyz - The ignored value
+   */
+  public set xyz(xyz: XYZObject) {
+    ImmutableColor.readonly("xyz");
+  }
+
+  /** Gets the lab value */
+  public get lab(): LabObject {
+    return super.lab;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param lab - The ignored value
+   */
+  public set lab(lab: LabObject) {
+    ImmutableColor.readonly("lab");
+  }
+
+  /** Gets the lch value */
+  public get lch(): LChObject {
+    return super.lch;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param lch - The ignored value
+   */
+  public set lch(lch: LChObject) {
+    ImmutableColor.readonly("lch");
+  }
+
+  /** Gets the oklab value */
+  public get oklab(): LabObject {
+    return super.oklab;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param oklab - The ignored value
+   */
+  public set oklab(oklab: LabObject) {
+    ImmutableColor.readonly("oklab");
+  }
+
+  /** Gets the oklch value */
+  public get oklch(): LChObject {
+    return super.oklch;
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param oklch - The ignored value
+   */
+  public set oklch(oklch: LChObject) {
+    ImmutableColor.readonly("oklch");
+  }
+
+  /**
+   * Throws, as an {@link ImmutableColor} can't be modified
+   * @param hex - The ignored value
+   */
+  public set hex(hex: string) {
+    ImmutableColor.readonly("hex");
+  }
+
+  /**
+   * Creates a new {@link ImmutableColor} with some of its channels replaced
+   * @param changes - The channels to replace, applied in RGB, then HSL, then alpha order
+   */
+  public with(changes: {red?: number, green?: number, blue?: number, hue?: number, saturation?: number, lightness?: number, alpha?: number}): ImmutableColor {
+    let color: Color = this.toMutable();
+    if (changes.red !== undefined) color.red = changes.red;
+    if (changes.green !== undefined) color.green = changes.green;
+    if (changes.blue !== undefined) color.blue = changes.blue;
+    if (changes.hue !== undefined) color.hue = changes.hue;
+    if (changes.saturation !== undefined) color.saturation = changes.saturation;
+    if (changes.lightness !== undefined) color.lightness = changes.lightness;
+    if (changes.alpha !== undefined) color.alpha = changes.alpha;
+    return new ImmutableColor(color);
+  }
+
+  /** Creates a mutable {@link Color} copy of this */
+  public toMutable(): Color {
+    return super.clone();
+  }
+
+  /**
+   * Throws the error for modifying an {@link ImmutableColor}
+   * @param name - The name of the property that was set
+   */
+  private static readonly(name: string): never {
+    throw new ValidationError(`Cannot Set "${name}" On An ImmutableColor.`, name);
+  }
+}
@@ -1,5 +1,25 @@
 "use strict";
 
+export * from "./errors";
 export * from "./vectors";
+export * from "./matrices";
+export * from "./quaternions";
+export * from "./geometry";
+export * from "./curves";
+export * from "./random";
+export * from "./noise";
 export * from "./colors";
+export * from "./colornames";
+export * from "./colorspaces";
+export * from "./compositing";
+export * from "./contrast";
+export * from "./deficiency";
+export * from "./easing";
+export * from "./gradients";
+export * from "./palettes";
+export * from "./immutable";
+export * from "./buffers";
+export * from "./bitmaps";
+export * from "./codecs";
+export * from "./tweens";
 export * from "./fmath";
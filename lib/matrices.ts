@@ -0,0 +1,656 @@
+"use strict";
+
+import {Vector2, Vector3, Vector4} from "./vectors";
+
+/** Class containing the operations shared by every square matrix, stored column-major so it can be uploaded to WebGL as is */
+export abstract class Matrix<T extends Matrix<T>> {
+  /** The number of rows and columns */
+  public readonly size: number;
+  /** The elements, column by column */
+  public readonly elements: Float32Array;
+
+  /**
+   * Creates a matrix
+   * @param size - The number of rows and columns
+   * @param elements - The elements column by column, defaulting to the identity matrix
+   */
+  protected constructor(size: number, elements?: ArrayLike<number>) {
+    this.size = size;
+    this.elements = new Float32Array(size * size);
+    if (elements) {
+      if (elements.length != this.elements.length) throw new Error(`Expected ${this.elements.length} Elements But Found ${elements.length}.`);
+      this.elements.set(elements);
+    } else {
+      this.identity();
+    }
+  }
+
+  /** Creates a matrix of the same type filled with the identity matrix */
+  protected abstract create(): T;
+
+  /** The determinant of this */
+  public get determinant(): number {
+    let n: number = this.size;
+    let m: number[] = this.toArray();
+    let det: number = 1;
+    for (let col = 0; col < n; col++) {
+      let pivot: number = this.pivot(m, col);
+      if (m[col * n + pivot] == 0) return 0;
+      if (pivot != col) {
+        this.swapRows(m, col, pivot);
+        det = -det;
+      }
+      let p: number = m[col * n + col];
+      det *= p;
+      for (let row = col + 1; row < n; row++) {
+        let f: number = m[col * n + row] / p;
+        for (let c = col; c < n; c++) {
+          m[c * n + row] -= f * m[c * n + col];
+        }
+      }
+    }
+    return det;
+  }
+
+  /** The transposed matrix of this */
+  public get transposed(): T {
+    return this.clone().transpose();
+  }
+
+  /** The inverse matrix of this */
+  public get inverse(): T {
+    return this.clone().invert();
+  }
+
+  /**
+   * Finds an element
+   * @param row - The index of the row
+   * @param col - The index of the column
+   */
+  public get(row: number, col: number): number {
+    return this.elements[col * this.size + row];
+  }
+
+  /**
+   * Sets an element
+   * @param row - The index of the row
+   * @param col - The index of the column
+   * @param v - The number to be used as the element
+   */
+  public set(row: number, col: number, v: number): this {
+    this.elements[col * this.size + row] = v;
+    return this;
+  }
+
+  /** Sets the matrix to the identity matrix */
+  public identity(): this {
+    this.elements.fill(0);
+    for (let i = 0; i < this.size; i++) {
+      this.elements[i * this.size + i] = 1;
+    }
+    return this;
+  }
+
+  /**
+   * Sets this to the product of this and another matrix, so other is applied first when transforming
+   * @param other - A matrix of the same type
+   */
+  public multiply(other: Matrix<T>): this {
+    let n: number = this.size;
+    let a: Float32Array = this.elements;
+    let b: Float32Array = other.elements;
+    let out: number[] = [];
+    for (let col = 0; col < n; col++) {
+      for (let row = 0; row < n; row++) {
+        let sum: number = 0;
+        for (let k = 0; k < n; k++) {
+          sum += a[k * n + row] * b[col * n + k];
+        }
+        out.push(sum);
+      }
+    }
+    this.elements.set(out);
+    return this;
+  }
+
+  /**
+   * Sets this to the product of another matrix and this, so other is applied last when transforming
+   * @param other - A matrix of the same type
+   */
+  public premultiply(other: Matrix<T>): this {
+    let product: T = other.clone().multiply(this);
+    this.elements.set(product.elements);
+    return this;
+  }
+
+  /** Swaps the rows and columns of the matrix */
+  public transpose(): this {
+    let n: number = this.size;
+    let e: Float32Array = this.elements;
+    for (let col = 0; col < n; col++) {
+      for (let row = col + 1; row < n; row++) {
+        let v: number = e[col * n + row];
+        e[col * n + row] = e[row * n + col];
+        e[row * n + col] = v;
+      }
+    }
+    return this;
+  }
+
+  /** Inverts the matrix using Gauss-Jordan elimination with partial pivoting */
+  public invert(): this {
+    let n: number = this.size;
+    let m: number[] = this.toArray();
+    let inv: number[] = this.create().toArray();
+    for (let col = 0; col < n; col++) {
+      let pivot: number = this.pivot(m, col);
+      if (m[col * n + pivot] == 0) throw new Error("Matrix Is Not Invertible.");
+      this.swapRows(m, col, pivot);
+      this.swapRows(inv, col, pivot);
+
+      let p: number = m[col * n + col];
+      for (let c = 0; c < n; c++) {
+        m[c * n + col] /= p;
+        inv[c * n + col] /= p;
+      }
+      for (let row = 0; row < n; row++) {
+        let f: number = m[col * n + row];
+        if (row == col || f == 0) continue;
+        for (let c = 0; c < n; c++) {
+          m[c * n + row] -= f * m[c * n + col];
+          inv[c * n + row] -= f * inv[c * n + col];
+        }
+      }
+    }
+    this.elements.set(inv);
+    return this;
+  }
+
+  /**
+   * Evaluates if two matrices are equal within a tolerance
+   * @param other - The matrix to compare with
+   * @param epsilon - The largest difference allowed between each element
+   */
+  public approxEquals(other: Matrix<T>, epsilon: number = 1e-6): boolean {
+    if (other.size != this.size) return false;
+    for (let i = 0; i < this.elements.length; i++) {
+      if (!(Math.abs(this.elements[i] - other.elements[i]) <= epsilon)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Evaluates if two matrices are equal
+   * @param other - The matrix to compare with
+   */
+  public equals(other: Matrix<T>): boolean {
+    return this.approxEquals(other, 0);
+  }
+
+  /** Creates a copy of the matrix */
+  public clone(): T {
+    let m: T = this.create();
+    m.elements.set(this.elements);
+    return m;
+  }
+
+  /** Converts the matrix to an {@link Array} of its elements, column by column */
+  public toArray(): number[] {
+    return Array.prototype.slice.call(this.elements);
+  }
+
+  /** Converts the matrix to a {@link String} */
+  public toString(): string {
+    return this.toArray().toString();
+  }
+
+  /**
+   * Multiplies the columns of the matrix with the components of a vector
+   * @param v - The components, one per column
+   */
+  protected transformComponents(v: number[]): number[] {
+    let n: number = this.size;
+    let out: number[] = [];
+    for (let row = 0; row < n; row++) {
+      let sum: number = 0;
+      for (let col = 0; col < n; col++) {
+        sum += this.elements[col * n + row] * v[col];
+      }
+      out.push(sum);
+    }
+    return out;
+  }
+
+  /**
+   * Finds the row from a column down with the largest absolute value in that column
+   * @param m - The elements column by column
+   * @param col - The index of the column
+   */
+  private pivot(m: number[], col: number): number {
+    let n: number = this.size;
+    let best: number = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[col * n + row]) > Math.abs(m[col * n + best])) best = row;
+    }
+    return best;
+  }
+
+  /**
+   * Swaps two rows of elements
+   * @param m - The elements column by column
+   * @param a - The index of a row
+   * @param b - The index of a row
+   */
+  private swapRows(m: number[], a: number, b: number): void {
+    if (a == b) return;
+    let n: number = this.size;
+    for (let col = 0; col < n; col++) {
+      let v: number = m[col * n + a];
+      m[col * n + a] = m[col * n + b];
+      m[col * n + b] = v;
+    }
+  }
+
+  /**
+   * Finds the product of two matrices
+   * @param a - The matrix applied last
+   * @param b - The matrix applied first
+   */
+  public static multiply<T extends Matrix<T>>(a: T, b: Matrix<T>): T {
+    return a.clone().multiply(b);
+  }
+
+  /**
+   * Finds the transpose of a matrix
+   * @param m - A matrix
+   */
+  public static transpose<T extends Matrix<T>>(m: T): T {
+    return m.transposed;
+  }
+
+  /**
+   * Finds the inverse of a matrix
+   * @param m - A matrix
+   */
+  public static inverse<T extends Matrix<T>>(m: T): T {
+    return m.inverse;
+  }
+}
+
+/** Class representing a 2x2 matrix, a linear transformation of {@link Vector2}s */
+export class Matrix2 extends Matrix<Matrix2> {
+  /**
+   * Creates a {@link Matrix2}
+   * @param elements - The 4 elements column by column, defaulting to the identity matrix
+   */
+  public constructor(elements?: ArrayLike<number>) {
+    super(2, elements);
+  }
+
+  /**
+   * Rotates the matrix
+   * @param angle - The angle in radians, turning from the x axis towards the y axis
+   */
+  public rotate(angle: number): this {
+    let cos: number = Math.cos(angle);
+    let sin: number = Math.sin(angle);
+    return this.multiply(new Matrix2([cos, sin, -sin, cos]));
+  }
+
+  /**
+   * Scales the matrix
+   * @param v - Either a number to scale both axes by or a {@link Vector2}
+   */
+  public scale(v: number|Vector2): this {
+    let {x, y} = typeof v === "number" ? {x: v, y: v} : v;
+    return this.multiply(new Matrix2([x, 0, 0, y]));
+  }
+
+  /**
+   * Transforms a {@link Vector2}
+   * @param v - The {@link Vector2} to transform, which is left unchanged
+   */
+  public transform(v: Vector2): Vector2 {
+    let [x, y] = this.transformComponents([v.x, v.y]);
+    return new Vector2().set(x, y);
+  }
+
+  /** Creates a {@link Matrix2} of the identity matrix */
+  protected create(): Matrix2 {
+    return new Matrix2();
+  }
+
+  /** A {@link Matrix2} of the identity matrix */
+  public static get identity(): Matrix2 {
+    return new Matrix2();
+  }
+
+  /**
+   * Creates a rotation {@link Matrix2}
+   * @param angle - The angle in radians
+   */
+  public static rotate(angle: number): Matrix2 {
+    return new Matrix2().rotate(angle);
+  }
+
+  /**
+   * Creates a scale {@link Matrix2}
+   * @param v - Either a number to scale both axes by or a {@link Vector2}
+   */
+  public static scale(v: number|Vector2): Matrix2 {
+    return new Matrix2().scale(v);
+  }
+}
+
+/** Class representing a 3x3 matrix, an affine transformation of {@link Vector2}s or a linear transformation of {@link Vector3}s */
+export class Matrix3 extends Matrix<Matrix3> {
+  /**
+   * Creates a {@link Matrix3}
+   * @param elements - The 9 elements column by column, defaulting to the identity matrix
+   */
+  public constructor(elements?: ArrayLike<number>) {
+    super(3, elements);
+  }
+
+  /**
+   * Translates the matrix
+   * @param v - The {@link Vector2} to translate by
+   */
+  public translate(v: Vector2): this {
+    return this.multiply(new Matrix3([1, 0, 0, 0, 1, 0, v.x, v.y, 1]));
+  }
+
+  /**
+   * Rotates the matrix
+   * @param angle - The angle in radians, turning from the x axis towards the y axis
+   */
+  public rotate(angle: number): this {
+    let cos: number = Math.cos(angle);
+    let sin: number = Math.sin(angle);
+    return this.multiply(new Matrix3([cos, sin, 0, -sin, cos, 0, 0, 0, 1]));
+  }
+
+  /**
+   * Scales the matrix
+   * @param v - Either a number to scale both axes by or a {@link Vector2}
+   */
+  public scale(v: number|Vector2): this {
+    let {x, y} = typeof v === "number" ? {x: v, y: v} : v;
+    return this.multiply(new Matrix3([x, 0, 0, 0, y, 0, 0, 0, 1]));
+  }
+
+  /**
+   * Transforms a {@link Vector3}
+   * @param v - The {@link Vector3} to transform, which is left unchanged
+   */
+  public transform(v: Vector3): Vector3 {
+    let [x, y, z] = this.transformComponents([v.x, v.y, v.z]);
+    return new Vector3().set(x, y, z);
+  }
+
+  /**
+   * Transforms a point, applying translation and dividing by the resulting w
+   * @param v - The {@link Vector2} to transform, which is left unchanged
+   */
+  public transformPoint(v: Vector2): Vector2 {
+    let [x, y, w] = this.transformComponents([v.x, v.y, 1]);
+    return new Vector2().set(x / w, y / w);
+  }
+
+  /**
+   * Transforms a direction, ignoring translation
+   * @param v - The {@link Vector2} to transform, which is left unchanged
+   */
+  public transformDirection(v: Vector2): Vector2 {
+    let [x, y] = this.transformComponents([v.x, v.y, 0]);
+    return new Vector2().set(x, y);
+  }
+
+  /** Creates a {@link Matrix3} of the identity matrix */
+  protected create(): Matrix3 {
+    return new Matrix3();
+  }
+
+  /** A {@link Matrix3} of the identity matrix */
+  public static get identity(): Matrix3 {
+    return new Matrix3();
+  }
+
+  /**
+   * Creates a translation {@link Matrix3}
+   * @param v - The {@link Vector2} to translate by
+   */
+  public static translate(v: Vector2): Matrix3 {
+    return new Matrix3().translate(v);
+  }
+
+  /**
+   * Creates a rotation {@link Matrix3}
+   * @param angle - The angle in radians
+   */
+  public static rotate(angle: number): Matrix3 {
+    return new Matrix3().rotate(angle);
+  }
+
+  /**
+   * Creates a scale {@link Matrix3}
+   * @param v - Either a number to scale both axes by or a {@link Vector2}
+   */
+  public static scale(v: number|Vector2): Matrix3 {
+    return new Matrix3().scale(v);
+  }
+}
+
+/** Class representing a 4x4 matrix, an affine or projective transformation of {@link Vector3}s */
+export class Matrix4 extends Matrix<Matrix4> {
+  /**
+   * Creates a {@link Matrix4}
+   * @param elements - The 16 elements column by column, defaulting to the identity matrix
+   */
+  public constructor(elements?: ArrayLike<number>) {
+    super(4, elements);
+  }
+
+  /** The inverse transpose of the upper left 3x3 of this, which transforms normals */
+  public get normalMatrix(): Matrix3 {
+    return this.toMatrix3().invert().transpose();
+  }
+
+  /**
+   * Translates the matrix
+   * @param v - The {@link Vector3} to translate by
+   */
+  public translate(v: Vector3): this {
+    return this.multiply(new Matrix4([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, v.x, v.y, v.z, 1]));
+  }
+
+  /**
+   * Rotates the matrix around an axis through the origin
+   * @param axis - The axis to rotate around, following the right hand rule
+   * @param angle - The angle in radians
+   */
+  public rotate(axis: Vector3, angle: number): this {
+    let {x, y, z} = axis.normalized;
+    let cos: number = Math.cos(angle);
+    let sin: number = Math.sin(angle);
+    let t: number = 1 - cos;
+    return this.multiply(new Matrix4([
+      x * x * t + cos, y * x * t + z * sin, z * x * t - y * sin, 0,
+      x * y * t - z * sin, y * y * t + cos, z * y * t + x * sin, 0,
+      x * z * t + y * sin, y * z * t - x * sin, z * z * t + cos, 0,
+      0, 0, 0, 1
+    ]));
+  }
+
+  /**
+   * Scales the matrix
+   * @param v - Either a number to scale every axis by or a {@link Vector3}
+   */
+  public scale(v: number|Vector3): this {
+    let {x, y, z} = typeof v === "number" ? {x: v, y: v, z: v} : v;
+    return this.multiply(new Matrix4([x, 0, 0, 0, 0, y, 0, 0, 0, 0, z, 0, 0, 0, 0, 1]));
+  }
+
+  /**
+   * Applies a view matrix of a camera at a position looking at a target
+   * @param eye - The position of the camera
+   * @param target - The position the camera looks at
+   * @param up - The direction the top of the camera points towards
+   */
+  public lookAt(eye: Vector3, target: Vector3, up: Vector3): this {
+    let z: Vector3 = Vector3.sub(eye, target);
+    if (z.sqrMagnitude == 0) throw new Error("Eye And Target Must Differ.");
+    z.normalize();
+    let x: Vector3 = Vector3.cross(up, z);
+    if (x.sqrMagnitude == 0) throw new Error("Up Must Not Be Parallel To The View Direction.");
+    x.normalize();
+    let y: Vector3 = Vector3.cross(z, x);
+    return this.multiply(new Matrix4([
+      x.x, y.x, z.x, 0,
+      x.y, y.y, z.y, 0,
+      x.z, y.z, z.z, 0,
+      -x.dot(eye), -y.dot(eye), -z.dot(eye), 1
+    ]));
+  }
+
+  /**
+   * Applies a perspective projection, mapping the view frustum to clip space between -1 and 1 like WebGL
+   * @param fov - The vertical field of view in radians
+   * @param aspect - The width divided by the height of the viewport
+   * @param near - The distance to the near plane
+   * @param far - The distance to the far plane, which can be {@link Infinity}
+   */
+  public perspective(fov: number, aspect: number, near: number, far: number = Infinity): this {
+    let f: number = 1 / Math.tan(fov / 2);
+    let a: number = -1;
+    let b: number = -2 * near;
+    if (far != Infinity) {
+      a = (far + near) / (near - far);
+      b = 2 * far * near / (near - far);
+    }
+    return this.multiply(new Matrix4([f / aspect, 0, 0, 0, 0, f, 0, 0, 0, 0, a, -1, 0, 0, b, 0]));
+  }
+
+  /**
+   * Applies an orthographic projection, mapping a box to clip space between -1 and 1 like WebGL
+   * @param left - The left edge of the box
+   * @param right - The right edge of the box
+   * @param bottom - The bottom edge of the box
+   * @param top - The top edge of the box
+   * @param near - The distance to the near plane
+   * @param far - The distance to the far plane
+   */
+  public orthographic(left: number, right: number, bottom: number, top: number, near: number, far: number): this {
+    let w: number = 1 / (right - left);
+    let h: number = 1 / (top - bottom);
+    let d: number = 1 / (far - near);
+    return this.multiply(new Matrix4([
+      2 * w, 0, 0, 0,
+      0, 2 * h, 0, 0,
+      0, 0, -2 * d, 0,
+      -(right + left) * w, -(top + bottom) * h, -(far + near) * d, 1
+    ]));
+  }
+
+  /**
+   * Transforms a {@link Vector4}
+   * @param v - The {@link Vector4} to transform, which is left unchanged
+   */
+  public transform(v: Vector4): Vector4 {
+    let [x, y, z, w] = this.transformComponents([v.x, v.y, v.z, v.w]);
+    return new Vector4().set(x, y, z, w);
+  }
+
+  /**
+   * Transforms a point, applying translation and dividing by the resulting w
+   * @param v - The {@link Vector3} to transform, which is left unchanged
+   */
+  public transformPoint(v: Vector3): Vector3 {
+    let [x, y, z, w] = this.transformComponents([v.x, v.y, v.z, 1]);
+    return new Vector3().set(x / w, y / w, z / w);
+  }
+
+  /**
+   * Transforms a direction, ignoring translation
+   * @param v - The {@link Vector3} to transform, which is left unchanged
+   */
+  public transformDirection(v: Vector3): Vector3 {
+    let [x, y, z] = this.transformComponents([v.x, v.y, v.z, 0]);
+    return new Vector3().set(x, y, z);
+  }
+
+  /** Converts the upper left 3x3 of the {@link Matrix4}, its rotation and scale, to a {@link Matrix3} */
+  public toMatrix3(): Matrix3 {
+    let e: Float32Array = this.elements;
+    return new Matrix3([e[0], e[1], e[2], e[4], e[5], e[6], e[8], e[9], e[10]]);
+  }
+
+  /** Creates a {@link Matrix4} of the identity matrix */
+  protected create(): Matrix4 {
+    return new Matrix4();
+  }
+
+  /** A {@link Matrix4} of the identity matrix */
+  public static get identity(): Matrix4 {
+    return new Matrix4();
+  }
+
+  /**
+   * Creates a translation {@link Matrix4}
+   * @param v - The {@link Vector3} to translate by
+   */
+  public static translate(v: Vector3): Matrix4 {
+    return new Matrix4().translate(v);
+  }
+
+  /**
+   * Creates a rotation {@link Matrix4}
+   * @param axis - The axis to rotate around
+   * @param angle - The angle in radians
+   */
+  public static rotate(axis: Vector3, angle: number): Matrix4 {
+    return new Matrix4().rotate(axis, angle);
+  }
+
+  /**
+   * Creates a scale {@link Matrix4}
+   * @param v - Either a number to scale every axis by or a {@link Vector3}
+   */
+  public static scale(v: number|Vector3): Matrix4 {
+    return new Matrix4().scale(v);
+  }
+
+  /**
+   * Creates a view {@link Matrix4}
+   * @param eye - The position of the camera
+   * @param target - The position the camera looks at
+   * @param up - The direction the top of the camera points towards
+   */
+  public static lookAt(eye: Vector3, target: Vector3, up: Vector3): Matrix4 {
+    return new Matrix4().lookAt(eye, target, up);
+  }
+
+  /**
+   * Creates a perspective projection {@link Matrix4}
+   * @param fov - The vertical field of view in radians
+   * @param aspect - The width divided by the height of the viewport
+   * @param near - The distance to the near plane
+   * @param far - The distance to the far plane, which can be {@link Infinity}
+   */
+  public static perspective(fov: number, aspect: number, near: number, far: number = Infinity): Matrix4 {
+    return new Matrix4().perspective(fov, aspect, near, far);
+  }
+
+  /**
+   * Creates an orthographic projection {@link Matrix4}
+   * @param left - The left edge of the box
+   * @param right - The right edge of the box
+   * @param bottom - The bottom edge of the box
+   * @param top - The top edge of the box
+   * @param near - The distance to the near plane
+   * @param far - The distance to the far plane
+   */
+  public static orthographic(left: number, right: number, bottom: number, top: number, near: number, far: number): Matrix4 {
+    return new Matrix4().orthographic(left, right, bottom, top, near, far);
+  }
+}
@@ -0,0 +1,503 @@
+"use strict";
+
+import {clamp} from "./fmath";
+import {Random} from "./random";
+import {Vector2, Vector3, Vector4} from "./vectors";
+
+/** A {@link NoiseInput} sampled by {@link Noise}, where the number of components decides the dimension between 1 and 4 */
+export type NoiseInput = number|number[]|Vector2|Vector3|Vector4;
+
+/** The kinds of coherent noise {@link Noise} can sample */
+export enum NoiseType {
+  /** Improved Perlin gradient noise */
+  Perlin=0,
+  /** OpenSimplex2 gradient noise, which has fewer directional artifacts than Perlin */
+  Simplex=1,
+  /** Interpolated random values, the blurriest and cheapest */
+  Value=2,
+  /** Worley cellular noise, the distance to the nearest feature point */
+  Worley=3
+}
+
+/** The ways distances to the feature points of Worley noise can be measured */
+export enum DistanceMetric {
+  /** The straight line distance, giving round cells */
+  Euclidean=0,
+  /** The sum of the distances along each axis, giving diamond cells */
+  Manhattan=1,
+  /** The largest distance along any axis, giving square cells */
+  Chebyshev=2
+}
+
+/** The features of Worley noise that can be returned */
+export enum WorleyFeature {
+  /** The distance to the nearest feature point */
+  F1=0,
+  /** The distance to the second nearest feature point */
+  F2=1,
+  /** The difference of {@link WorleyFeature.F2} and {@link WorleyFeature.F1}, which outlines the cells */
+  F2MinusF1=2
+}
+
+/** The {@link FractalOptions} used to layer octaves of noise */
+export interface FractalOptions {
+  /** The {@link NoiseType} of each octave */
+  type?: NoiseType;
+  /** The number of octaves */
+  octaves?: number;
+  /** The frequency of the first octave */
+  frequency?: number;
+  /** The factor the frequency grows by each octave */
+  lacunarity?: number;
+  /** The factor the amplitude shrinks by each octave */
+  gain?: number;
+}
+
+/** The {@link WarpOptions} used to distort the input of fractal noise with more fractal noise */
+export interface WarpOptions extends FractalOptions {
+  /** How far the input is pushed, in input units */
+  strength?: number;
+}
+
+/** The numbers {@link Noise.perlin} is scaled by to fill -1 to 1, one per dimension */
+const perlinScale: number[] = [0, 0.188, 0.507, 0.936, 0.87];
+
+/** The skew and unskew factors of the OpenSimplex2 lattices */
+const skew2: number = 0.366025403784439;
+const unskew2: number = -0.21132486540518713;
+const skew4: number = -0.138196601125011;
+const unskew4: number = 0.309016994374947;
+
+/** The 24 gradients of 2D OpenSimplex2, scaled so the noise fills -1 to 1 */
+const gradients2: number[][] = [];
+for (let i = 0; i < 24; i++) {
+  let angle: number = (i * 15 + 7.5) * Math.PI / 180;
+  gradients2.push([Math.cos(angle) / 0.01001634121365712, Math.sin(angle) / 0.01001634121365712]);
+}
+
+/** The 48 gradients of 3D OpenSimplex2, scaled so the noise fills -1 to 1 */
+const gradients3: number[][] = [];
+for (let axis = 0; axis < 3; axis++) {
+  for (let signs = 0; signs < 8; signs++) {
+    let g: number[] = [2.22474487139, 2.22474487139, 2.22474487139];
+    g[axis] = 1;
+    gradients3.push(g.map((v, i) => (signs >> i & 1 ? -v : v) / 0.07969837668935331));
+  }
+  for (let other = 0; other < 3; other++) {
+    if (other == axis) continue;
+    for (let signs = 0; signs < 4; signs++) {
+      let g: number[] = [0, 0, 0];
+      g[axis] = signs & 1 ? -3.0862664687972017 : 3.0862664687972017;
+      g[other] = signs & 2 ? -1.1721513422464978 : 1.1721513422464978;
+      gradients3.push(g.map((v) => v / 0.07969837668935331));
+    }
+  }
+}
+
+/** The 32 gradients of 4D noise, the midpoints of the edges of a tesseract, scaled so the noise fills -1 to 1 */
+const gradients4: number[][] = [];
+for (let zero = 0; zero < 4; zero++) {
+  for (let signs = 0; signs < 8; signs++) {
+    let g: number[] = [];
+    for (let i = 0, bit = 0; i < 4; i++) {
+      g.push(i == zero ? 0 : (signs >> bit++ & 1 ? -1 : 1) / 0.0365);
+    }
+    gradients4.push(g);
+  }
+}
+
+/**
+ * Finds the gradient of improved Perlin noise for a hash and its dot product with an offset
+ * @param hash - The hash of the lattice point
+ * @param d - The offset from the lattice point
+ */
+function perlinGradient(hash: number, d: number[]): number {
+  let [x, y, z, w] = d;
+  switch (d.length) {
+    case 1: {
+      let g: number = 1 + (hash & 7);
+      return (hash & 8 ? -g : g) * x;
+    }
+    case 2: {
+      let h: number = hash & 7;
+      let u: number = h < 4 ? x : y;
+      let v: number = h < 4 ? y : x;
+      return (h & 1 ? -u : u) + (h & 2 ? -2 * v : 2 * v);
+    }
+    case 3: {
+      let h: number = hash & 15;
+      let u: number = h < 8 ? x : y;
+      let v: number = h < 4 ? y : h == 12 || h == 14 ? x : z;
+      return (h & 1 ? -u : u) + (h & 2 ? -v : v);
+    }
+    default: {
+      let h: number = hash & 31;
+      let u: number = h < 24 ? x : y;
+      let v: number = h < 16 ? y : z;
+      let t: number = h < 8 ? z : w;
+      return (h & 1 ? -u : u) + (h & 2 ? -v : v) + (h & 4 ? -t : t);
+    }
+  }
+}
+
+/**
+ * Eases an offset inside of a lattice cell so the noise is smooth across cells
+ * @param t - The offset between 0 and 1
+ */
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+/**
+ * Converts a {@link NoiseInput} to its components
+ * @param p - The {@link NoiseInput}
+ */
+function components(p: NoiseInput): number[] {
+  let c: number[] = typeof p === "number" ? [p] : Array.isArray(p) ? p : p.toArray();
+  if (c.length < 1 || c.length > 4) throw new Error(`Expected 1 To 4 Dimensions But Found ${c.length}.`);
+  return c;
+}
+
+/** Class representing a seeded source of coherent noise, where the same seed always gives the same noise */
+export class Noise {
+  /** The permutation table, twice over so lookups don't need to wrap */
+  private p: Uint8Array = new Uint8Array(512);
+
+  /**
+   * Creates a {@link Noise}
+   * @param seed - Either a seed or a {@link Random} to shuffle the permutation table with
+   */
+  public constructor(seed: number|Random = new Random()) {
+    let random: Random = typeof seed === "number" ? new Random(seed) : seed;
+    let table: number[] = [];
+    for (let i = 0; i < 256; i++) table.push(i);
+    random.shuffle(table);
+    this.p.set(table);
+    this.p.set(table, 256);
+  }
+
+  /**
+   * Samples a {@link NoiseType}
+   * @param p - The {@link NoiseInput} to sample at
+   * @param type - The {@link NoiseType} to sample
+   */
+  public sample(p: NoiseInput, type: NoiseType = NoiseType.Perlin): number {
+    switch (type) {
+      case NoiseType.Simplex:
+        return this.simplex(p);
+      case NoiseType.Value:
+        return this.value(p);
+      case NoiseType.Worley:
+        return this.worley(p);
+      default:
+        return this.perlin(p);
+    }
+  }
+
+  /**
+   * Samples improved Perlin noise
+   * @param p - The {@link NoiseInput} to sample at
+   * @returns A number between about -1 and 1, which is 0 at every integer point
+   */
+  public perlin(p: NoiseInput): number {
+    let c: number[] = components(p);
+    let cell: number[] = c.map(Math.floor);
+    let offset: number[] = c.map((v, i) => v - cell[i]);
+    let eased: number[] = offset.map(fade);
+    let value: number = 0;
+    for (let corner = 0; corner < 1 << c.length; corner++) {
+      let weight: number = 1;
+      let d: number[] = [];
+      let hash: number = 0;
+      for (let i = 0; i < c.length; i++) {
+        let bit: number = corner >> i & 1;
+        weight *= bit ? eased[i] : 1 - eased[i];
+        hash = this.p[hash + (cell[i] + bit & 255)];
+        d.push(offset[i] - bit);
+      }
+      value += weight * perlinGradient(hash, d);
+    }
+    return value * perlinScale[c.length];
+  }
+
+  /**
+   * Samples OpenSimplex2 noise, where 1D input samples the 2D noise along the x axis
+   * @param p - The {@link NoiseInput} to sample at
+   * @returns A number between about -1 and 1
+   */
+  public simplex(p: NoiseInput): number {
+    let c: number[] = components(p);
+    if (c.length <= 2) return this.simplex2(c[0], c.length == 2 ? c[1] : 0);
+    if (c.length == 3) return this.simplex3(c[0], c[1], c[2]);
+    return this.simplex4(c[0], c[1], c[2], c[3]);
+  }
+
+  /**
+   * Samples value noise
+   * @param p - The {@link NoiseInput} to sample at
+   * @returns A number between -1 and 1
+   */
+  public value(p: NoiseInput): number {
+    let c: number[] = components(p);
+    let cell: number[] = c.map(Math.floor);
+    let eased: number[] = c.map((v, i) => fade(v - cell[i]));
+    let value: number = 0;
+    for (let corner = 0; corner < 1 << c.length; corner++) {
+      let weight: number = 1;
+      let hash: number = 0;
+      for (let i = 0; i < c.length; i++) {
+        let bit: number = corner >> i & 1;
+        weight *= bit ? eased[i] : 1 - eased[i];
+        hash = this.p[hash + (cell[i] + bit & 255)];
+      }
+      value += weight * (this.p[hash + 101] / 127.5 - 1);
+    }
+    return value;
+  }
+
+  /**
+   * Samples Worley noise, with one feature point scattered in every lattice cell
+   * @param p - The {@link NoiseInput} to sample at
+   * @param metric - The {@link DistanceMetric} to measure with
+   * @param feature - The {@link WorleyFeature} to return
+   * @returns A distance of at least 0, which rarely goes above 1 for {@link WorleyFeature.F1}
+   */
+  public worley(p: NoiseInput, metric: DistanceMetric = DistanceMetric.Euclidean, feature: WorleyFeature = WorleyFeature.F1): number {
+    let c: number[] = components(p);
+    let n: number = c.length;
+    let cell: number[] = c.map(Math.floor);
+    let f1: number = Infinity;
+    let f2: number = Infinity;
+    let neighbors: number = Math.pow(3, n);
+    for (let neighbor = 0; neighbor < neighbors; neighbor++) {
+      let hash: number = 0;
+      let at: number[] = [];
+      for (let i = 0, rest = neighbor; i < n; i++, rest = Math.floor(rest / 3)) {
+        let v: number = cell[i] + rest % 3 - 1;
+        hash = this.p[hash + (v & 255)];
+        at.push(v);
+      }
+      let distance: number = 0;
+      for (let i = 0; i < n; i++) {
+        let h: number = this.p[hash + 37 * i + 17];
+        let jitter: number = (h + this.p[h + 59] / 256) / 256;
+        let d: number = Math.abs(at[i] + jitter - c[i]);
+        if (metric == DistanceMetric.Chebyshev) distance = Math.max(distance, d);
+        else distance += metric == DistanceMetric.Manhattan ? d : d * d;
+      }
+      if (metric == DistanceMetric.Euclidean) distance = Math.sqrt(distance);
+      if (distance < f1) {
+        f2 = f1;
+        f1 = distance;
+      } else if (distance < f2) {
+        f2 = distance;
+      }
+    }
+    if (feature == WorleyFeature.F2) return f2;
+    if (feature == WorleyFeature.F2MinusF1) return f2 - f1;
+    return f1;
+  }
+
+  /**
+   * Samples fractal Brownian motion, layering octaves of noise with rising frequency and falling amplitude
+   * @param p - The {@link NoiseInput} to sample at
+   * @param options - The {@link FractalOptions}
+   * @returns A number in the range of the {@link NoiseType}
+   */
+  public fbm(p: NoiseInput, options: FractalOptions = {}): number {
+    let {type = NoiseType.Perlin, octaves = 5, frequency = 1, lacunarity = 2, gain = 0.5} = options;
+    let c: number[] = components(p);
+    let sum: number = 0;
+    let amplitude: number = 1;
+    let total: number = 0;
+    for (let i = 0; i < octaves; i++) {
+      sum += amplitude * this.sample(c.map((v) => v * frequency), type);
+      total += amplitude;
+      amplitude *= gain;
+      frequency *= lacunarity;
+    }
+    return total == 0 ? 0 : sum / total;
+  }
+
+  /**
+   * Samples a ridged multifractal, folding each octave into sharp crests that are weighted by the octave before
+   * @param p - The {@link NoiseInput} to sample at
+   * @param options - The {@link FractalOptions}, where the {@link NoiseType} should be centered on 0
+   * @returns A number between 0 and 1
+   */
+  public ridged(p: NoiseInput, options: FractalOptions = {}): number {
+    let {type = NoiseType.Perlin, octaves = 5, frequency = 1, lacunarity = 2, gain = 0.5} = options;
+    let c: number[] = components(p);
+    let sum: number = 0;
+    let amplitude: number = 1;
+    let total: number = 0;
+    let weight: number = 1;
+    for (let i = 0; i < octaves; i++) {
+      let signal: number = 1 - Math.abs(this.sample(c.map((v) => v * frequency), type));
+      signal *= signal * weight;
+      weight = clamp(signal * 2, 1);
+      sum += amplitude * signal;
+      total += amplitude;
+      amplitude *= gain;
+      frequency *= lacunarity;
+    }
+    return total == 0 ? 0 : sum / total;
+  }
+
+  /**
+   * Samples domain warped fractal noise, pushing the input by fractal noise before sampling it
+   * @param p - The {@link NoiseInput} to sample at
+   * @param options - The {@link WarpOptions}
+   * @returns A number in the range of the {@link NoiseType}
+   */
+  public warp(p: NoiseInput, options: WarpOptions = {}): number {
+    let {strength = 1} = options;
+    let c: number[] = components(p);
+    let warped: number[] = c.map((v, i) => v + strength * this.fbm(c.map((u, j) => u + (i + 1) * (j + 1) * 5.2), options));
+    return this.fbm(warped, options);
+  }
+
+  /**
+   * Finds the index of the gradient at a lattice point
+   * @param lattice - The coordinates of the lattice point
+   * @param count - The number of gradients
+   */
+  private gradient(lattice: number[], count: number): number {
+    let hash: number = 0;
+    lattice.forEach((v) => hash = this.p[hash + (v & 255)]);
+    return (hash + this.p[hash + 83] * 256) % count;
+  }
+
+  /**
+   * Adds the contribution of a lattice point to OpenSimplex2 noise
+   * @param lattice - The coordinates of the lattice point
+   * @param d - The offset from the lattice point
+   * @param gradients - The gradients to pick from
+   */
+  private contribution(lattice: number[], d: number[], gradients: number[][]): number {
+    let g: number[] = gradients[this.gradient(lattice, gradients.length)];
+    return d.reduce((sum, v, i) => sum + v * g[i], 0);
+  }
+
+  /**
+   * Samples 2D OpenSimplex2 noise
+   * @param x - The x value
+   * @param y - The y value
+   */
+  private simplex2(x: number, y: number): number {
+    let s: number = skew2 * (x + y);
+    let xs: number = x + s;
+    let ys: number = y + s;
+    let xsb: number = Math.floor(xs);
+    let ysb: number = Math.floor(ys);
+    let xi: number = xs - xsb;
+    let yi: number = ys - ysb;
+    let t: number = (xi + yi) * unskew2;
+    let dx0: number = xi + t;
+    let dy0: number = yi + t;
+
+    let value: number = 0;
+    let a0: number = 0.5 - dx0 * dx0 - dy0 * dy0;
+    if (a0 > 0) value += a0 * a0 * a0 * a0 * this.contribution([xsb, ysb], [dx0, dy0], gradients2);
+
+    let dx1: number = dx0 - (1 + 2 * unskew2);
+    let dy1: number = dy0 - (1 + 2 * unskew2);
+    let a1: number = 0.5 - dx1 * dx1 - dy1 * dy1;
+    if (a1 > 0) value += a1 * a1 * a1 * a1 * this.contribution([xsb + 1, ysb + 1], [dx1, dy1], gradients2);
+
+    let xo: number = dy0 > dx0 ? 0 : 1;
+    let dx2: number = dx0 - unskew2 - xo;
+    let dy2: number = dy0 - unskew2 - (1 - xo);
+    let a2: number = 0.5 - dx2 * dx2 - dy2 * dy2;
+    if (a2 > 0) value += a2 * a2 * a2 * a2 * this.contribution([xsb + xo, ysb + 1 - xo], [dx2, dy2], gradients2);
+    return value;
+  }
+
+  /**
+   * Samples 3D OpenSimplex2 noise on two offset cubic lattices forming a body centered cubic lattice
+   * @param x - The x value
+   * @param y - The y value
+   * @param z - The z value
+   */
+  private simplex3(x: number, y: number, z: number): number {
+    let r: number = 2 / 3 * (x + y + z);
+    let p: number[] = [r - x, r - y, r - z];
+    let base: number[] = p.map(Math.round);
+    let d: number[] = p.map((v, i) => v - base[i]);
+    let sign: number[] = d.map((v) => v > 0 ? -1 : 1);
+    let distance: number[] = d.map((v, i) => -v * sign[i]);
+
+    let value: number = 0;
+    let a: number = 0.6 - d[0] * d[0] - d[1] * d[1] - d[2] * d[2];
+    for (let lattice = 0; lattice < 2; lattice++) {
+      let tag: number = lattice * 128;
+      if (a > 0) value += a * a * a * a * this.contribution([base[0] + tag, base[1], base[2]], d, gradients3);
+
+      let axis: number = distance[0] >= distance[1] && distance[0] >= distance[2] ? 0 : distance[1] > distance[0] && distance[1] >= distance[2] ? 1 : 2;
+      let b: number = a + 2 * distance[axis];
+      if (b > 1) {
+        b -= 1;
+        let lp: number[] = base.map((v, i) => i == axis ? v - sign[i] : v);
+        let ld: number[] = d.map((v, i) => i == axis ? v + sign[i] : v);
+        value += b * b * b * b * this.contribution([lp[0] + tag, lp[1], lp[2]], ld, gradients3);
+      }
+      if (lattice == 1) break;
+
+      distance = distance.map((v) => 0.5 - v);
+      d = distance.map((v, i) => sign[i] * v);
+      a += 0.75 - distance[0] - distance[1] - distance[2];
+      base = base.map((v, i) => sign[i] < 0 ? v + 1 : v);
+      sign = sign.map((v) => -v);
+    }
+    return value;
+  }
+
+  /**
+   * Samples 4D OpenSimplex2 noise on five offset lattices
+   * @param x - The x value
+   * @param y - The y value
+   * @param z - The z value
+   * @param w - The w value
+   */
+  private simplex4(x: number, y: number, z: number, w: number): number {
+    let s: number = skew4 * (x + y + z + w);
+    let p: number[] = [x + s, y + s, z + s, w + s];
+    let base: number[] = p.map(Math.floor);
+    let si: number[] = p.map((v, i) => v - base[i]);
+    let sum: number = si[0] + si[1] + si[2] + si[3];
+    let start: number = Math.floor(sum * 1.25);
+    let offset: number = start * -0.2;
+    si = si.map((v) => v + offset);
+    let ssi: number = (sum + offset * 4) * unskew4;
+
+    let value: number = 0;
+    let lattice: number = start;
+    for (let i = 0; i < 5; i++) {
+      let score: number = 1 + ssi * (-1 / unskew4);
+      let best: number = -1;
+      for (let axis = 0; axis < 4; axis++) {
+        if (si[axis] >= score && (best == -1 || si[axis] > si[best])) best = axis;
+      }
+      if (best != -1) {
+        base[best] += 1;
+        si[best] -= 1;
+        ssi -= unskew4;
+      }
+      let d: number[] = si.map((v) => v + ssi);
+      let a: number = d[0] * d[0] + d[1] * d[1] + d[2] * d[2] + d[3] * d[3];
+      if (a < 0.6) {
+        a = (a - 0.6) * (a - 0.6);
+        value += a * a * this.contribution([base[0] + lattice * 51, base[1], base[2], base[3]], d, gradients4);
+      }
+
+      si = si.map((v) => v + 0.2);
+      ssi += 0.2 * 4 * unskew4;
+      if (i == start) {
+        base = base.map((v) => v - 1);
+        lattice += 5;
+      }
+      lattice--;
+    }
+    return value;
+  }
+}
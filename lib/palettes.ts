@@ -0,0 +1,141 @@
+"use strict";
+
+import {Color} from "./colors";
+import {Deficiency, DeficiencyModel} from "./deficiency";
+
+/** A {@link PaletteEntry} as written by {@link Palette.toJSON} */
+export interface PaletteEntry {
+  /** The name of the entry */
+  name: string;
+  /** The color as a hexadecimal string */
+  color: string;
+}
+
+/** Class representing an ordered collection of named {@link Color}s */
+export class Palette implements Iterable<Color> {
+  /** The names of the entries */
+  private n: string[] = [];
+  /** The colors of the entries */
+  private c: Color[] = [];
+
+  /**
+   * Creates a {@link Palette}
+   * @param colors - The {@link Color}s of the palette
+   * @param names - The names of the {@link Color}s, defaulting to their index
+   */
+  public constructor(colors: Color[] = [], names: string[] = []) {
+    colors.forEach((color, i) => this.set(i < names.length ? names[i] : `${i}`, color));
+  }
+
+  /** The number of entries in the {@link Palette} */
+  public get size(): number {
+    return this.c.length;
+  }
+
+  /** The names of the entries, in order */
+  public get names(): string[] {
+    return this.n.slice();
+  }
+
+  /** The {@link Color}s of the entries, in order */
+  public get colors(): Color[] {
+    return this.c.slice();
+  }
+
+  /**
+   * Finds an entry by name or index
+   * @param key - Either the name of the entry or its index
+   */
+  public get(key: string|number): Color|undefined {
+    return typeof key === "number" ? this.c[key] : this.c[this.n.indexOf(key)];
+  }
+
+  /**
+   * Evaluates if the {@link Palette} has an entry with a name
+   * @param name - The name of the entry
+   */
+  public has(name: string): boolean {
+    return this.n.indexOf(name) != -1;
+  }
+
+  /**
+   * Replaces the entry with a name, or adds it to the end when there is none
+   * @param name - The name of the entry
+   * @param color - The {@link Color} of the entry
+   */
+  public set(name: string, color: Color): this {
+    let index: number = this.n.indexOf(name);
+    if (index == -1) {
+      this.n.push(name);
+      this.c.push(color);
+    } else {
+      this.c[index] = color;
+    }
+    return this;
+  }
+
+  /** Lists the entries as name and {@link Color} pairs */
+  public entries(): [string, Color][] {
+    return this.n.map((name, i): [string, Color] => [name, this.c[i]]);
+  }
+
+  /**
+   * Creates a new {@link Palette} by transforming every entry
+   * @param fn - The function to transform each {@link Color} with
+   */
+  public map(fn: (color: Color, name: string, index: number) => Color): Palette {
+    return new Palette(this.c.map((color, i) => fn(color, this.n[i], i)), this.n);
+  }
+
+  /**
+   * Creates a new {@link Palette} as it is seen with a color vision deficiency
+   * @param kind - The {@link Deficiency} to simulate
+   * @param severity - The severity between 0 for normal vision and 1 for dichromacy
+   * @param model - The {@link DeficiencyModel} to use
+   */
+  public simulate(kind: Deficiency, severity: number = 1, model: DeficiencyModel = DeficiencyModel.Machado): Palette {
+    return this.map((color) => color.simulate(kind, severity, model));
+  }
+
+  /**
+   * Creates a new {@link Palette} shifted so its colors stay distinguishable with a color vision deficiency
+   * @param kind - The {@link Deficiency} to correct for
+   * @param severity - The severity between 0 for normal vision and 1 for dichromacy
+   * @param model - The {@link DeficiencyModel} used to find what information is lost
+   */
+  public daltonize(kind: Deficiency, severity: number = 1, model: DeficiencyModel = DeficiencyModel.Machado): Palette {
+    return this.map((color) => color.daltonize(kind, severity, model));
+  }
+
+  /** Iterates over the {@link Color}s of the {@link Palette} */
+  public [Symbol.iterator](): Iterator<Color> {
+    return this.c[Symbol.iterator]();
+  }
+
+  /** Converts the {@link Palette} to an array of {@link PaletteEntry}s */
+  public toJSON(): PaletteEntry[] {
+    return this.n.map((name, i) => ({name, color: this.c[i].toHex()}));
+  }
+
+  /**
+   * Converts the {@link Palette} to CSS custom properties
+   * @param prefix - The prefix of each property name
+   */
+  public toCSS(prefix: string = "color"): string {
+    return this.n.map((name, i) => `--${prefix}-${name}: ${this.c[i].toHex()};`).join("\n");
+  }
+
+  /** Converts the {@link Palette} to a {@link String} */
+  public toString(): string {
+    return this.c.map((color) => color.toHex()).join(",");
+  }
+
+  /**
+   * Creates a {@link Palette} from the output of {@link Palette.toJSON}
+   * @param json - Either an array of {@link PaletteEntry}s or its JSON string
+   */
+  public static fromJSON(json: PaletteEntry[]|string): Palette {
+    let entries: PaletteEntry[] = typeof json === "string" ? JSON.parse(json) : json;
+    return new Palette(entries.map((entry) => Color.parse(entry.color)), entries.map((entry) => entry.name));
+  }
+}
@@ -0,0 +1,431 @@
+"use strict";
+
+import {Matrix3, Matrix4} from "./matrices";
+import {Vector3} from "./vectors";
+
+/** The orders Euler angles can be applied in, named by the axis applied first to the axis applied last */
+export enum EulerOrder {
+  /** Around x, then y, then z */
+  XYZ=0,
+  /** Around x, then z, then y */
+  XZY=1,
+  /** Around y, then x, then z */
+  YXZ=2,
+  /** Around y, then z, then x */
+  YZX=3,
+  /** Around z, then x, then y */
+  ZXY=4,
+  /** Around z, then y, then x */
+  ZYX=5
+}
+
+/** The axes of each {@link EulerOrder}, as indices of x, y and z */
+const eulerAxes: number[][] = [[0, 1, 2], [0, 2, 1], [1, 0, 2], [1, 2, 0], [2, 0, 1], [2, 1, 0]];
+
+/** Class representing a Quaternion, a rotation in 3D without gimbal lock */
+export class Quaternion {
+  public x: number;
+  public y: number;
+  public z: number;
+  public w: number;
+
+  /**
+   * Creates a {@link Quaternion}, defaulting to the identity rotation
+   * @param a - Either a number to be used as the x value or a {@link Quaternion}
+   * @param y - A number to be used as the y value
+   * @param z - A number to be used as the z value
+   * @param w - A number to be used as the w value
+   */
+  public constructor(a: number|Quaternion = 0, y: number = 0, z: number = 0, w: number = 1) {
+    if (a instanceof Quaternion) {
+      this.x = a.x;
+      this.y = a.y;
+      this.z = a.z;
+      this.w = a.w;
+    } else {
+      this.x = a;
+      this.y = y;
+      this.z = z;
+      this.w = w;
+    }
+  }
+
+  /** The Magnitude of this */
+  public get magnitude(): number {
+    return Math.sqrt(this.sqrMagnitude);
+  }
+
+  /** The Magnitude Squared of this */
+  public get sqrMagnitude(): number {
+    return this.dot(this);
+  }
+
+  /** The normalized {@link Quaternion} of this */
+  public get normalized(): Quaternion {
+    return new Quaternion(this).normalize();
+  }
+
+  /** The inverse {@link Quaternion} of this, which undoes its rotation */
+  public get inverse(): Quaternion {
+    return new Quaternion(this).invert();
+  }
+
+  /** The direction {@link Vector3.forth} points to after the rotation */
+  public get forth(): Vector3 {
+    return this.rotate(Vector3.forth);
+  }
+
+  /** The direction {@link Vector3.up} points to after the rotation */
+  public get up(): Vector3 {
+    return this.rotate(Vector3.up);
+  }
+
+  /** The direction {@link Vector3.right} points to after the rotation */
+  public get right(): Vector3 {
+    return this.rotate(new Vector3().set(1, 0, 0));
+  }
+
+  /**
+   * Sets the xyzw value of the {@link Quaternion}
+   * @param x - A number to be used as the x value
+   * @param y - A number to be used as the y value
+   * @param z - A number to be used as the z value
+   * @param w - A number to be used as the w value
+   */
+  public set(x: number, y: number, z: number, w: number): this {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    this.w = w;
+    return this;
+  }
+
+  /** Sets the {@link Quaternion} to the identity rotation */
+  public identity(): this {
+    return this.set(0, 0, 0, 1);
+  }
+
+  /** Normalizes the {@link Quaternion}, leaving a zero length one as the identity rotation */
+  public normalize(): this {
+    let magnitude: number = this.magnitude;
+    if (magnitude == 0) return this.identity();
+    return this.set(this.x / magnitude, this.y / magnitude, this.z / magnitude, this.w / magnitude);
+  }
+
+  /** Negates the xyz value of the {@link Quaternion}, which inverts a normalized rotation */
+  public conjugate(): this {
+    return this.set(-this.x, -this.y, -this.z, this.w);
+  }
+
+  /** Inverts the {@link Quaternion}, whether or not it is normalized */
+  public invert(): this {
+    let sqr: number = this.sqrMagnitude;
+    if (sqr == 0) throw new Error("Quaternion Is Not Invertible.");
+    return this.set(-this.x / sqr, -this.y / sqr, -this.z / sqr, this.w / sqr);
+  }
+
+  /**
+   * Sets this to the product of this and another {@link Quaternion}, so other is applied first when rotating
+   * @param other - A {@link Quaternion}
+   */
+  public multiply(other: Quaternion): this {
+    let {x, y, z, w} = this;
+    return this.set(
+      w * other.x + x * other.w + y * other.z - z * other.y,
+      w * other.y - x * other.z + y * other.w + z * other.x,
+      w * other.z + x * other.y - y * other.x + z * other.w,
+      w * other.w - x * other.x - y * other.y - z * other.z
+    );
+  }
+
+  /**
+   * Sets this to the product of another {@link Quaternion} and this, so other is applied last when rotating
+   * @param other - A {@link Quaternion}
+   */
+  public premultiply(other: Quaternion): this {
+    let product: Quaternion = new Quaternion(other).multiply(this);
+    return this.set(product.x, product.y, product.z, product.w);
+  }
+
+  /**
+   * Finds the dot product of this and another {@link Quaternion}
+   * @param other - A {@link Quaternion}
+   */
+  public dot(other: Quaternion): number {
+    return this.x * other.x + this.y * other.y + this.z * other.z + this.w * other.w;
+  }
+
+  /**
+   * Finds the angle in radians of the rotation from this to another normalized {@link Quaternion}
+   * @param other - A {@link Quaternion}
+   */
+  public angle(other: Quaternion): number {
+    return 2 * Math.acos(Math.min(Math.abs(this.dot(other)), 1));
+  }
+
+  /**
+   * Linearly interpolates this towards another {@link Quaternion} along the shortest path and normalizes the result
+   * @param other - The {@link Quaternion} at t = 1
+   * @param t - The interpolation amount, which isn't clamped
+   */
+  public nlerp(other: Quaternion, t: number): this {
+    let s: number = this.dot(other) < 0 ? -t : t;
+    return this.set(
+      this.x + (other.x * s - this.x * t),
+      this.y + (other.y * s - this.y * t),
+      this.z + (other.z * s - this.z * t),
+      this.w + (other.w * s - this.w * t)
+    ).normalize();
+  }
+
+  /**
+   * Spherically interpolates this towards another {@link Quaternion} along the shortest path at a constant angular speed
+   * @param other - The {@link Quaternion} at t = 1
+   * @param t - The interpolation amount, which isn't clamped
+   */
+  public slerp(other: Quaternion, t: number): this {
+    let cos: number = this.dot(other);
+    let sign: number = cos < 0 ? -1 : 1;
+    cos *= sign;
+    if (cos > 0.9995) return this.nlerp(other, t);
+
+    let theta: number = Math.acos(cos);
+    let sin: number = Math.sin(theta);
+    let a: number = Math.sin((1 - t) * theta) / sin;
+    let b: number = sign * Math.sin(t * theta) / sin;
+    return this.set(
+      this.x * a + other.x * b,
+      this.y * a + other.y * b,
+      this.z * a + other.z * b,
+      this.w * a + other.w * b
+    );
+  }
+
+  /**
+   * Rotates a {@link Vector3} by the normalized {@link Quaternion}
+   * @param v - The {@link Vector3} to rotate, which is left unchanged
+   */
+  public rotate(v: Vector3): Vector3 {
+    let {x, y, z, w} = this;
+    let tx: number = 2 * (y * v.z - z * v.y);
+    let ty: number = 2 * (z * v.x - x * v.z);
+    let tz: number = 2 * (x * v.y - y * v.x);
+    return new Vector3().set(
+      v.x + w * tx + y * tz - z * ty,
+      v.y + w * ty + z * tx - x * tz,
+      v.z + w * tz + x * ty - y * tx
+    );
+  }
+
+  /** Converts the normalized {@link Quaternion} to the axis and angle in radians it rotates by */
+  public toAxisAngle(): {axis: Vector3, angle: number} {
+    let q: Quaternion = this.w < 0 ? new Quaternion(-this.x, -this.y, -this.z, -this.w) : this;
+    let sin: number = Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z);
+    if (sin == 0) return {axis: Vector3.forth, angle: 0};
+    return {axis: new Vector3().set(q.x / sin, q.y / sin, q.z / sin), angle: 2 * Math.atan2(sin, q.w)};
+  }
+
+  /** Converts the normalized {@link Quaternion} to a rotation {@link Matrix3} */
+  public toMatrix3(): Matrix3 {
+    let {x, y, z, w} = this;
+    return new Matrix3([
+      1 - 2 * (y * y + z * z), 2 * (x * y + z * w), 2 * (x * z - y * w),
+      2 * (x * y - z * w), 1 - 2 * (x * x + z * z), 2 * (y * z + x * w),
+      2 * (x * z + y * w), 2 * (y * z - x * w), 1 - 2 * (x * x + y * y)
+    ]);
+  }
+
+  /** Converts the normalized {@link Quaternion} to a rotation {@link Matrix4} */
+  public toMatrix4(): Matrix4 {
+    let e: Float32Array = this.toMatrix3().elements;
+    return new Matrix4([e[0], e[1], e[2], 0, e[3], e[4], e[5], 0, e[6], e[7], e[8], 0, 0, 0, 0, 1]);
+  }
+
+  /**
+   * Evaluates if two {@link Quaternion}s are equal within a tolerance
+   * @param other - The {@link Quaternion} to compare with
+   * @param epsilon - The largest difference allowed between each component
+   */
+  public approxEquals(other: Quaternion, epsilon: number = 1e-6): boolean {
+    return Math.abs(this.x - other.x) <= epsilon && Math.abs(this.y - other.y) <= epsilon &&
+      Math.abs(this.z - other.z) <= epsilon && Math.abs(this.w - other.w) <= epsilon;
+  }
+
+  /**
+   * Evaluates if two {@link Quaternion}s are equal
+   * @param other - The {@link Quaternion} to compare with
+   */
+  public equals(other: Quaternion): boolean {
+    return this.x === other.x && this.y === other.y && this.z === other.z && this.w === other.w;
+  }
+
+  /** Converts the {@link Quaternion} to an {@link Array} */
+  public toArray(): number[] {
+    return [this.x, this.y, this.z, this.w];
+  }
+
+  /** Converts the {@link Quaternion} to a {@link String} */
+  public toString(): string {
+    return this.toArray().toString();
+  }
+
+  /** A {@link Quaternion} of the identity rotation */
+  public static get identity(): Quaternion {
+    return new Quaternion();
+  }
+
+  /**
+   * Creates a {@link Quaternion} rotating around an axis through the origin
+   * @param axis - The axis to rotate around, following the right hand rule
+   * @param angle - The angle in radians
+   */
+  public static fromAxisAngle(axis: Vector3, angle: number): Quaternion {
+    let k: Vector3 = axis.normalized;
+    let sin: number = Math.sin(angle / 2);
+    return new Quaternion(k.x * sin, k.y * sin, k.z * sin, Math.cos(angle / 2));
+  }
+
+  /**
+   * Creates a {@link Quaternion} from Euler angles
+   * @param x - The angle in radians around the x axis
+   * @param y - The angle in radians around the y axis
+   * @param z - The angle in radians around the z axis
+   * @param order - The {@link EulerOrder} the angles are applied in
+   */
+  public static fromEuler(x: number, y: number, z: number, order: EulerOrder = EulerOrder.XYZ): Quaternion {
+    let angles: number[] = [x, y, z];
+    let q: Quaternion = new Quaternion();
+    eulerAxes[order].forEach((axis) => {
+      let half: number = angles[axis] / 2;
+      let components: number[] = [0, 0, 0];
+      components[axis] = Math.sin(half);
+      q.premultiply(new Quaternion(components[0], components[1], components[2], Math.cos(half)));
+    });
+    return q;
+  }
+
+  /**
+   * Creates the shortest {@link Quaternion} rotating one direction onto another
+   * @param from - The direction to rotate from
+   * @param to - The direction to rotate to
+   */
+  public static fromToRotation(from: Vector3, to: Vector3): Quaternion {
+    let a: Vector3 = from.normalized;
+    let b: Vector3 = to.normalized;
+    let d: number = a.dot(b);
+    if (d < -1 + 1e-6) {
+      let axis: Vector3 = Vector3.cross(a, Math.abs(a.x) < 0.9 ? new Vector3().set(1, 0, 0) : new Vector3().set(0, 1, 0));
+      return Quaternion.fromAxisAngle(axis, Math.PI);
+    }
+    let c: Vector3 = Vector3.cross(a, b);
+    return new Quaternion(c.x, c.y, c.z, 1 + d).normalize();
+  }
+
+  /**
+   * Creates a {@link Quaternion} rotating {@link Vector3.forth} onto a direction and {@link Vector3.up} as close to another as possible
+   * @param forward - The direction to look towards
+   * @param up - The direction the top should point towards
+   */
+  public static lookRotation(forward: Vector3, up: Vector3 = Vector3.up): Quaternion {
+    if (forward.sqrMagnitude == 0) throw new Error("Forward Must Not Be Zero.");
+    if (up.sqrMagnitude == 0) throw new Error("Up Must Not Be Zero.");
+    let f: Vector3 = forward.normalized;
+    let u: Vector3 = Vector3.reject(up, f);
+    if (u.sqrMagnitude <= 1e-12 * up.sqrMagnitude) throw new Error("Up Must Not Be Parallel To Forward.");
+    u.normalize();
+
+    let source: Matrix3 = Quaternion.basis(Vector3.forth, Vector3.up).transpose();
+    return Quaternion.fromMatrix(Quaternion.basis(f, u).multiply(source));
+  }
+
+  /**
+   * Creates a {@link Quaternion} from the rotation of a {@link Matrix3} or the upper left 3x3 of a {@link Matrix4}
+   * @param m - A matrix without scale or shear
+   */
+  public static fromMatrix(m: Matrix3|Matrix4): Quaternion {
+    let m00: number = m.get(0, 0), m01: number = m.get(0, 1), m02: number = m.get(0, 2);
+    let m10: number = m.get(1, 0), m11: number = m.get(1, 1), m12: number = m.get(1, 2);
+    let m20: number = m.get(2, 0), m21: number = m.get(2, 1), m22: number = m.get(2, 2);
+    let trace: number = m00 + m11 + m22;
+    let q: Quaternion;
+    if (trace > 0) {
+      let s: number = 2 * Math.sqrt(trace + 1);
+      q = new Quaternion((m21 - m12) / s, (m02 - m20) / s, (m10 - m01) / s, s / 4);
+    } else if (m00 > m11 && m00 > m22) {
+      let s: number = 2 * Math.sqrt(1 + m00 - m11 - m22);
+      q = new Quaternion(s / 4, (m01 + m10) / s, (m02 + m20) / s, (m21 - m12) / s);
+    } else if (m11 > m22) {
+      let s: number = 2 * Math.sqrt(1 + m11 - m00 - m22);
+      q = new Quaternion((m01 + m10) / s, s / 4, (m12 + m21) / s, (m02 - m20) / s);
+    } else {
+      let s: number = 2 * Math.sqrt(1 + m22 - m00 - m11);
+      q = new Quaternion((m02 + m20) / s, (m12 + m21) / s, s / 4, (m10 - m01) / s);
+    }
+    return q.normalize();
+  }
+
+  /**
+   * Finds the product of two {@link Quaternion}s
+   * @param a - The {@link Quaternion} applied last
+   * @param b - The {@link Quaternion} applied first
+   */
+  public static multiply(a: Quaternion, b: Quaternion): Quaternion {
+    return new Quaternion(a).multiply(b);
+  }
+
+  /**
+   * Finds the dot product of two {@link Quaternion}s
+   * @param a - A {@link Quaternion}
+   * @param b - A {@link Quaternion}
+   */
+  public static dot(a: Quaternion, b: Quaternion): number {
+    return a.dot(b);
+  }
+
+  /**
+   * Finds the angle in radians of the rotation between two normalized {@link Quaternion}s
+   * @param a - A {@link Quaternion}
+   * @param b - A {@link Quaternion}
+   */
+  public static angle(a: Quaternion, b: Quaternion): number {
+    return a.angle(b);
+  }
+
+  /**
+   * Linearly interpolates between two {@link Quaternion}s and normalizes the result
+   * @param a - The {@link Quaternion} at t = 0
+   * @param b - The {@link Quaternion} at t = 1
+   * @param t - The interpolation amount, which isn't clamped
+   */
+  public static nlerp(a: Quaternion, b: Quaternion, t: number): Quaternion {
+    return new Quaternion(a).nlerp(b, t);
+  }
+
+  /**
+   * Spherically interpolates between two {@link Quaternion}s
+   * @param a - The {@link Quaternion} at t = 0
+   * @param b - The {@link Quaternion} at t = 1
+   * @param t - The interpolation amount, which isn't clamped
+   */
+  public static slerp(a: Quaternion, b: Quaternion, t: number): Quaternion {
+    return new Quaternion(a).slerp(b, t);
+  }
+
+  /**
+   * Finds the inverse of a {@link Quaternion}
+   * @param q - A {@link Quaternion}
+   */
+  public static inverse(q: Quaternion): Quaternion {
+    return q.inverse;
+  }
+
+  /**
+   * Creates the {@link Matrix3} whose columns are two perpendicular normalized directions and their cross product
+   * @param forth - The direction of the first column
+   * @param up - The direction of the second column
+   */
+  private static basis(forth: Vector3, up: Vector3): Matrix3 {
+    let side: Vector3 = Vector3.cross(forth, up);
+    return new Matrix3([forth.x, forth.y, forth.z, up.x, up.y, up.z, side.x, side.y, side.z]);
+  }
+}
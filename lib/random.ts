@@ -0,0 +1,397 @@
+"use strict";
+
+/** A {@link RandomGenerator} producing uniformly distributed unsigned 32 bit integers from a saveable state */
+export interface RandomGenerator {
+  /** Advances the state and finds the next unsigned 32 bit integer */
+  next(): number;
+  /** Finds a copy of the state */
+  getState(): number[];
+  /**
+   * Replaces the state with one found by {@link RandomGenerator.getState}
+   * @param state - The state
+   */
+  setState(state: number[]): void;
+}
+
+/**
+ * Expands a seed into unsigned 32 bit integers with SplitMix32, so similar seeds give unrelated states
+ * @param seed - The seed
+ * @param count - The number of integers
+ */
+function splitMix32(seed: number, count: number): number[] {
+  let values: number[] = [];
+  let s: number = seed >>> 0;
+  for (let i = 0; i < count; i++) {
+    s = s + 0x9e3779b9 | 0;
+    let z: number = s;
+    z = Math.imul(z ^ z >>> 16, 0x85ebca6b);
+    z = Math.imul(z ^ z >>> 13, 0xc2b2ae35);
+    values.push((z ^ z >>> 16) >>> 0);
+  }
+  return values;
+}
+
+/**
+ * Rotates the bits of an unsigned 32 bit integer left
+ * @param v - The integer
+ * @param n - The number of bits to rotate by
+ */
+function rotl(v: number, n: number): number {
+  return (v << n | v >>> (32 - n)) >>> 0;
+}
+
+/** Class representing the Mulberry32 generator, the smallest and fastest with a period of 2^32 */
+export class Mulberry32 implements RandomGenerator {
+  /** The state */
+  private s: number;
+
+  /**
+   * Creates a {@link Mulberry32}
+   * @param seed - The seed, of which the low 32 bits are used
+   */
+  public constructor(seed: number) {
+    this.s = seed >>> 0;
+  }
+
+  /** Advances the state and finds the next unsigned 32 bit integer */
+  public next(): number {
+    this.s = this.s + 0x6d2b79f5 >>> 0;
+    let t: number = this.s;
+    t = Math.imul(t ^ t >>> 15, t | 1);
+    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+    return (t ^ t >>> 14) >>> 0;
+  }
+
+  /** Finds a copy of the state */
+  public getState(): number[] {
+    return [this.s];
+  }
+
+  /**
+   * Replaces the state
+   * @param state - The state
+   */
+  public setState(state: number[]): void {
+    this.s = state[0] >>> 0;
+  }
+}
+
+/** Class representing the xoshiro128** generator, a fast general purpose generator with a period of 2^128 - 1 */
+export class Xoshiro128 implements RandomGenerator {
+  /** The state */
+  private s: number[];
+
+  /**
+   * Creates a {@link Xoshiro128}
+   * @param seed - The seed, of which the low 32 bits are expanded into the state
+   */
+  public constructor(seed: number) {
+    this.s = splitMix32(seed, 4);
+    if (this.s.every((v) => v == 0)) this.s[0] = 1;
+  }
+
+  /** Advances the state and finds the next unsigned 32 bit integer */
+  public next(): number {
+    let s: number[] = this.s;
+    let result: number = Math.imul(rotl(Math.imul(s[1], 5) >>> 0, 7), 9) >>> 0;
+    let t: number = s[1] << 9;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+    return result;
+  }
+
+  /** Finds a copy of the state */
+  public getState(): number[] {
+    return this.s.map((v) => v >>> 0);
+  }
+
+  /**
+   * Replaces the state
+   * @param state - The state
+   */
+  public setState(state: number[]): void {
+    if (state.length != 4) throw new Error("Expected 4 State Values.");
+    this.s = state.map((v) => v >>> 0);
+  }
+}
+
+/** Class representing the PCG32 generator (PCG-XSH-RR), a statistically strong generator with 64 bit state and selectable streams */
+export class PCG32 implements RandomGenerator {
+  /** The high 32 bits of the state */
+  private hi: number = 0;
+  /** The low 32 bits of the state */
+  private lo: number = 0;
+  /** The high 32 bits of the increment, which selects the stream */
+  private incHi: number = 0;
+  /** The low 32 bits of the increment, which is always odd */
+  private incLo: number = 1;
+
+  /**
+   * Creates a {@link PCG32}, seeded like the reference pcg32_srandom
+   * @param seed - The seed, an integer up to 2^53
+   * @param stream - The stream, an integer up to 2^53 selecting one of 2^63 independent sequences
+   */
+  public constructor(seed: number, stream: number = 54) {
+    let streamHi: number = Math.floor(stream / 0x100000000) >>> 0;
+    let streamLo: number = stream >>> 0;
+    this.incHi = (streamHi << 1 | streamLo >>> 31) >>> 0;
+    this.incLo = (streamLo << 1 | 1) >>> 0;
+    this.step();
+    [this.hi, this.lo] = PCG32.add(this.hi, this.lo, Math.floor(seed / 0x100000000) >>> 0, seed >>> 0);
+    this.step();
+  }
+
+  /** Advances the state and finds the next unsigned 32 bit integer */
+  public next(): number {
+    let {hi, lo} = this;
+    this.step();
+    let xorHi: number = hi ^ hi >>> 18;
+    let xorLo: number = lo ^ (lo >>> 18 | hi << 14);
+    let shifted: number = (xorLo >>> 27 | xorHi << 5) >>> 0;
+    let rot: number = hi >>> 27;
+    return (shifted >>> rot | shifted << (-rot & 31)) >>> 0;
+  }
+
+  /** Finds a copy of the state */
+  public getState(): number[] {
+    return [this.hi, this.lo, this.incHi, this.incLo];
+  }
+
+  /**
+   * Replaces the state
+   * @param state - The state
+   */
+  public setState(state: number[]): void {
+    if (state.length != 4) throw new Error("Expected 4 State Values.");
+    [this.hi, this.lo, this.incHi, this.incLo] = state.map((v) => v >>> 0);
+  }
+
+  /** Advances the 64 bit state by one linear congruential step */
+  private step(): void {
+    let [hi, lo] = PCG32.multiply(this.hi, this.lo, 0x5851f42d, 0x4c957f2d);
+    [this.hi, this.lo] = PCG32.add(hi, lo, this.incHi, this.incLo);
+  }
+
+  /**
+   * Multiplies two 64 bit integers split into 32 bit halves, modulo 2^64
+   * @param aHi - The high 32 bits of a
+   * @param aLo - The low 32 bits of a
+   * @param bHi - The high 32 bits of b
+   * @param bLo - The low 32 bits of b
+   */
+  private static multiply(aHi: number, aLo: number, bHi: number, bLo: number): number[] {
+    let a0: number = aLo & 0xffff;
+    let a1: number = aLo >>> 16;
+    let b0: number = bLo & 0xffff;
+    let b1: number = bLo >>> 16;
+    let low: number = a0 * b0 + (a1 * b0 + a0 * b1) * 0x10000;
+    let carry: number = Math.floor(low / 0x100000000);
+    let hi: number = a1 * b1 + carry + Math.imul(aHi, bLo) + Math.imul(aLo, bHi);
+    return [hi >>> 0, low >>> 0];
+  }
+
+  /**
+   * Adds two 64 bit integers split into 32 bit halves, modulo 2^64
+   * @param aHi - The high 32 bits of a
+   * @param aLo - The low 32 bits of a
+   * @param bHi - The high 32 bits of b
+   * @param bLo - The low 32 bits of b
+   */
+  private static add(aHi: number, aLo: number, bHi: number, bLo: number): number[] {
+    let lo: number = aLo + bLo;
+    return [(aHi + bHi + (lo > 0xffffffff ? 1 : 0)) >>> 0, lo >>> 0];
+  }
+}
+
+/** The generators a {@link Random} can be created with from a seed */
+export enum RandomAlgorithm {
+  /** {@link Mulberry32} */
+  Mulberry32=0,
+  /** {@link Xoshiro128} */
+  Xoshiro128=1,
+  /** {@link PCG32} */
+  PCG32=2
+}
+
+/**
+ * Finds the natural logarithm of the gamma function with the Lanczos approximation
+ * @param x - A positive number
+ */
+function logGamma(x: number): number {
+  let c: number[] = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let tmp: number = x + 5.5;
+  let ser: number = 1.000000000190015;
+  c.forEach((v, i) => ser += v / (x + i + 1));
+  return (x + 0.5) * Math.log(tmp) - tmp + Math.log(2.5066282746310005 * ser / x);
+}
+
+/** Class representing a deterministic source of random numbers and the distributions built on it */
+export class Random {
+  /** The generator */
+  public readonly generator: RandomGenerator;
+
+  /**
+   * Creates a {@link Random}
+   * @param seed - Either a seed or a {@link RandomGenerator}, defaulting to a seed from {@link Math.random}
+   * @param algorithm - The {@link RandomAlgorithm} used when a seed is given
+   */
+  public constructor(seed: number|RandomGenerator = Math.random() * 0x100000000, algorithm: RandomAlgorithm = RandomAlgorithm.Xoshiro128) {
+    if (typeof seed !== "number") {
+      this.generator = seed;
+    } else if (algorithm == RandomAlgorithm.Mulberry32) {
+      this.generator = new Mulberry32(seed);
+    } else if (algorithm == RandomAlgorithm.PCG32) {
+      this.generator = new PCG32(seed);
+    } else {
+      this.generator = new Xoshiro128(seed);
+    }
+  }
+
+  /** The state of the generator, which can be restored later to repeat the same numbers */
+  public get state(): number[] {
+    return this.generator.getState();
+  }
+
+  public set state(state: number[]) {
+    this.generator.setState(state);
+  }
+
+  /** Finds the next unsigned 32 bit integer */
+  public next(): number {
+    return this.generator.next();
+  }
+
+  /**
+   * Finds a random float between the given bounds, including min but excluding max
+   * @param max - The max number value
+   * @param min - The min number value
+   */
+  public float(max: number = 1, min: number = 0): number {
+    return this.next() / 0x100000000 * (max - min) + min;
+  }
+
+  /**
+   * Finds a random integer between the given bounds, including min but excluding max
+   * @param max - The max number value
+   * @param min - The min number value
+   */
+  public int(max: number = 1, min: number = 0): number {
+    return Math.floor(this.float(max, min));
+  }
+
+  /**
+   * Finds a random boolean
+   * @param probability - The chance of true between 0 and 1
+   */
+  public bool(probability: number = 0.5): boolean {
+    return this.float() < probability;
+  }
+
+  /**
+   * Finds a random item
+   * @param items - The items to pick from, of which there must be at least one
+   */
+  public pick<T>(items: T[]): T {
+    if (items.length == 0) throw new Error("No Items Provided.");
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Shuffles items in place with the Fisher-Yates algorithm
+   * @param items - The items to shuffle
+   * @returns The same array
+   */
+  public shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      let j: number = this.int(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * Finds a random item where each is as likely as its weight
+   * @param items - The items to pick from, of which there must be at least one
+   * @param weights - The non-negative weight of each item
+   */
+  public weightedPick<T>(items: T[], weights: number[]): T {
+    if (items.length == 0) throw new Error("No Items Provided.");
+    if (weights.length != items.length) throw new Error("Expected One Weight Per Item.");
+    let total: number = weights.reduce((sum, w) => sum + w, 0);
+    if (!(total > 0)) throw new Error("Weights Must Add Up To More Than 0.");
+    let target: number = this.float(total);
+    for (let i = 0; i < items.length; i++) {
+      target -= weights[i];
+      if (target < 0) return items[i];
+    }
+    return items[items.length - 1];
+  }
+
+  /**
+   * Finds a random number from a normal distribution with the Box-Muller transform
+   * @param mean - The mean of the distribution
+   * @param stddev - The standard deviation of the distribution
+   */
+  public gaussian(mean: number = 0, stddev: number = 1): number {
+    let u: number = 1 - this.float();
+    let v: number = this.float();
+    return mean + stddev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Finds a random number from an exponential distribution, such as the time between events
+   * @param rate - The average number of events per unit of time
+   */
+  public exponential(rate: number = 1): number {
+    return -Math.log(1 - this.float()) / rate;
+  }
+
+  /**
+   * Finds a random integer from a Poisson distribution, such as the number of events in a unit of time
+   * @param lambda - The average number of events, using Knuth's method below 30 and Hörmann's PTRS above
+   */
+  public poisson(lambda: number): number {
+    if (lambda <= 0) return 0;
+    if (lambda < 30) {
+      let limit: number = Math.exp(-lambda);
+      let k: number = 0;
+      let p: number = this.float();
+      while (p > limit) {
+        k++;
+        p *= this.float();
+      }
+      return k;
+    }
+
+    let sqrt: number = Math.sqrt(lambda);
+    let log: number = Math.log(lambda);
+    let b: number = 0.931 + 2.53 * sqrt;
+    let a: number = -0.059 + 0.02483 * b;
+    let alpha: number = 1.1239 + 1.1328 / (b - 3.4);
+    let vr: number = 0.9277 - 3.6224 / (b - 2);
+    for (;;) {
+      let u: number = this.float() - 0.5;
+      let v: number = this.float();
+      let us: number = 0.5 - Math.abs(u);
+      let k: number = Math.floor((2 * a / us + b) * u + lambda + 0.43);
+      if (us >= 0.07 && v <= vr) return k;
+      if (k < 0 || (us < 0.013 && v > us)) continue;
+      if (Math.log(v * alpha / (a / (us * us) + b)) <= -lambda + k * log - logGamma(k + 1)) return k;
+    }
+  }
+
+  /** Creates a copy of the {@link Random} with its own generator in the same state, using the same algorithm when it is built in */
+  public clone(): Random {
+    let generator: RandomGenerator;
+    if (this.generator instanceof Mulberry32) generator = new Mulberry32(0);
+    else if (this.generator instanceof PCG32) generator = new PCG32(0);
+    else if (this.generator instanceof Xoshiro128) generator = new Xoshiro128(0);
+    else throw new Error("Cannot Clone A Custom Generator.");
+    generator.setState(this.state);
+    return new Random(generator);
+  }
+}
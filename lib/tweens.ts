@@ -0,0 +1,266 @@
+"use strict";
+
+import {Color, MixSpace} from "./colors";
+import {Easing, linear} from "./easing";
+import {lerp} from "./fmath";
+import {Vector2, Vector3} from "./vectors";
+
+/** A value a {@link Tween} can drive */
+export type Tweenable = number|Vector2|Vector3|Color;
+
+/** The keys of an object whose values a {@link Tween} can drive */
+export type TweenableKey<T> = {[K in keyof T]: T[K] extends Tweenable ? K : never}[keyof T];
+
+/** The states a {@link Tween} can be in */
+export enum TweenState {
+  /** The tween hasn't been started, or was stopped */
+  Idle=0,
+  /** The tween is waiting out its delay or animating */
+  Running=1,
+  /** The tween is paused and ignores updates until resumed */
+  Paused=2,
+  /** The tween has finished, and passes updates on to the tweens chained after it */
+  Complete=3
+}
+
+/** Something driven by time that a {@link Tween} can chain and a {@link TweenGroup} can hold, whatever it animates */
+export interface Updatable {
+  /** The {@link TweenState} */
+  readonly state: TweenState;
+  /** Starts from the beginning */
+  start(): this;
+  /**
+   * Advances by some time
+   * @param dt - The time passed since the last update
+   * @returns Whether it's still running
+   */
+  update(dt: number): boolean;
+}
+
+/** The {@link TweenOptions} used to create a {@link Tween} */
+export interface TweenOptions<V extends Tweenable> {
+  /** The value to start from, defaulting to the value of the property when the delay ends */
+  from?: V;
+  /** The length of one run, in the same units as the time passed to {@link Tween.update} */
+  duration?: number;
+  /** The time to wait after starting before animating */
+  delay?: number;
+  /** The {@link Easing} applied to the progress of each run */
+  easing?: Easing;
+  /** The number of extra runs, which may be Infinity */
+  repeat?: number;
+  /** Whether every other run plays backwards */
+  yoyo?: boolean;
+  /** The {@link MixSpace} {@link Color}s are interpolated in */
+  space?: MixSpace;
+  /** Called when the delay ends and the tween starts animating */
+  onStart?: () => void;
+  /** Called with the new value every time the property is set */
+  onUpdate?: (value: V) => void;
+  /** Called with the index of the run whenever a new run begins */
+  onRepeat?: (run: number) => void;
+  /** Called once the last run ends */
+  onComplete?: () => void;
+}
+
+/**
+ * Copies a {@link Tweenable} so later changes to the original don't affect it
+ * @param v - The {@link Tweenable} to copy
+ */
+function copy<V extends Tweenable>(v: V): V {
+  return (typeof v === "number" ? v : (v as Vector2|Vector3|Color).clone()) as V;
+}
+
+/** Class representing an animation of one property of an object, driven manually by {@link Tween.update} */
+export class Tween<T, K extends TweenableKey<T> = TweenableKey<T>> implements Updatable {
+  /** The object whose property is animated */
+  public readonly target: T;
+  /** The key of the animated property */
+  public readonly key: K;
+  /** The value the property ends at */
+  public to: T[K] & Tweenable;
+  /** The {@link TweenOptions} */
+  public options: TweenOptions<T[K] & Tweenable>;
+  /** The value the property started at */
+  private from?: T[K] & Tweenable;
+  /** The time passed since starting */
+  private elapsed: number = 0;
+  /** Whether the delay has ended */
+  private started: boolean = false;
+  /** The index of the current run */
+  private run: number = 0;
+  /** The {@link TweenState} */
+  private s: TweenState = TweenState.Idle;
+  /** The tweens started once this one completes */
+  private chained: Updatable[] = [];
+
+  /**
+   * Creates a {@link Tween}, which doesn't run until {@link Tween.start} is called
+   * @param target - The object whose property is animated
+   * @param key - The key of the animated property
+   * @param to - The value the property ends at
+   * @param options - The {@link TweenOptions}
+   */
+  public constructor(target: T, key: K, to: T[K] & Tweenable, options: TweenOptions<T[K] & Tweenable> = {}) {
+    let {duration = 1, delay = 0, repeat = 0} = options;
+    if (duration < 0 || delay < 0) throw new Error("Duration And Delay Must Not Be Negative.");
+    if (repeat < 0) throw new Error("Repeat Must Not Be Negative.");
+    this.target = target;
+    this.key = key;
+    this.to = copy(to);
+    this.options = options;
+  }
+
+  /** Gets the {@link TweenState} */
+  public get state(): TweenState {
+    return this.s;
+  }
+
+  /** Gets the eased progress of the current run, between 0 and 1 before easing */
+  public get progress(): number {
+    let {duration = 1, delay = 0, repeat = 0, easing = linear} = this.options;
+    let time: number = Math.max(this.elapsed - delay, 0);
+    if (this.s == TweenState.Complete) time = duration * (repeat + 1);
+    let local: number = duration == 0 || time >= duration * (repeat + 1) ? 1 : (time - this.run * duration) / duration;
+    return easing(this.options.yoyo && this.run % 2 == 1 ? 1 - local : local);
+  }
+
+  /** Starts the {@link Tween} from the beginning */
+  public start(): this {
+    this.s = TweenState.Running;
+    this.elapsed = 0;
+    this.run = 0;
+    this.started = false;
+    this.from = this.options.from === undefined ? undefined : copy(this.options.from);
+    return this;
+  }
+
+  /** Stops the {@link Tween}, leaving the property where it is */
+  public stop(): this {
+    this.s = TweenState.Idle;
+    return this;
+  }
+
+  /** Pauses the {@link Tween} if it's running */
+  public pause(): this {
+    if (this.s == TweenState.Running) this.s = TweenState.Paused;
+    return this;
+  }
+
+  /** Resumes the {@link Tween} if it's paused */
+  public resume(): this {
+    if (this.s == TweenState.Paused) this.s = TweenState.Running;
+    return this;
+  }
+
+  /**
+   * Chains tweens to start once this one completes, which are then updated through this one
+   * @param tweens - The tweens to chain
+   */
+  public chain(...tweens: Updatable[]): this {
+    this.chained.push(...tweens);
+    return this;
+  }
+
+  /**
+   * Advances the {@link Tween}, setting the property
+   * @param dt - The time passed since the last update
+   * @returns Whether this or a chained tween is still running
+   */
+  public update(dt: number): boolean {
+    if (this.s == TweenState.Idle) return false;
+    if (this.s == TweenState.Paused) return true;
+    if (this.s == TweenState.Complete) return this.updateChained(dt);
+
+    let {duration = 1, delay = 0, repeat = 0, onStart, onRepeat, onComplete} = this.options;
+    this.elapsed += dt;
+    let time: number = this.elapsed - delay;
+    if (time < 0) return true;
+
+    if (!this.started) {
+      this.started = true;
+      if (this.from === undefined) this.from = copy(this.target[this.key] as T[K] & Tweenable);
+      if (onStart) onStart();
+    }
+
+    let total: number = duration * (repeat + 1);
+    let run: number = time >= total ? repeat : duration == 0 ? 0 : Math.floor(time / duration);
+    for (; this.run < run; this.run++) {
+      if (onRepeat) onRepeat(this.run + 1);
+    }
+    this.apply(this.progress);
+
+    if (time < total) return true;
+    this.s = TweenState.Complete;
+    if (onComplete) onComplete();
+    this.chained.forEach((tween) => tween.start());
+    return this.updateChained(time - total);
+  }
+
+  /**
+   * Sets the property to the value at a point between the start and end values
+   * @param t - The eased progress, which may go past 0 and 1
+   */
+  private apply(t: number): void {
+    let from: Tweenable = this.from as Tweenable;
+    let to: Tweenable = this.to;
+    let value: Tweenable;
+    if (typeof from === "number") value = lerp(from, to as number, t);
+    else if (from instanceof Color) value = Color.mix(from, to as Color, t, this.options.space);
+    else value = (from.clone() as Vector2).lerp(to as Vector2, t);
+    this.target[this.key] = value as T[K];
+    if (this.options.onUpdate) this.options.onUpdate(value as T[K] & Tweenable);
+  }
+
+  /**
+   * Updates the chained tweens
+   * @param dt - The time passed since the last update
+   */
+  private updateChained(dt: number): boolean {
+    let running: boolean = false;
+    this.chained.forEach((tween) => running = tween.update(dt) || running);
+    return running;
+  }
+}
+
+/** Class representing a group of {@link Tween}s updated together, which forgets tweens once they finish */
+export class TweenGroup {
+  /** The tweens in the group */
+  private t: Updatable[] = [];
+
+  /** Gets the number of tweens in the group */
+  public get size(): number {
+    return this.t.length;
+  }
+
+  /**
+   * Adds tweens to the group, starting any that are idle
+   * @param tweens - The tweens to add
+   */
+  public add(...tweens: Updatable[]): this {
+    tweens.forEach((tween) => {
+      if (tween.state == TweenState.Idle) tween.start();
+      this.t.push(tween);
+    });
+    return this;
+  }
+
+  /**
+   * Removes a tween from the group without stopping it
+   * @param tween - The tween to remove
+   */
+  public remove(tween: Updatable): this {
+    this.t = this.t.filter((other) => other !== tween);
+    return this;
+  }
+
+  /**
+   * Advances every tween in the group
+   * @param dt - The time passed since the last update
+   * @returns Whether any tween is still running
+   */
+  public update(dt: number): boolean {
+    this.t = this.t.filter((tween) => tween.update(dt));
+    return this.t.length > 0;
+  }
+}
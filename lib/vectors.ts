@@ -1,6 +1,65 @@
 "use strict";
 
-/** A {@Point} represented by an X, Y, and Z value */
+import {Color} from "./colors";
+import {InvalidVectorError, checkFinite, readJSON} from "./errors";
+import {randFloat} from "./fmath";
+import {Random} from "./random";
+import type {AABB, Rect} from "./geometry";
+
+/**
+ * Throws an {@link InvalidVectorError} if strict validation is on and any component isn't a finite number
+ * @param components - The components to check, where undefined ones are skipped
+ */
+function checkComponents(components: (number|undefined)[]): void {
+  checkFinite(components, (v) => new InvalidVectorError(`Vector Components Must Be Finite Numbers But Found ${v}.`, v));
+}
+
+/** The version of the schema written by the toJSON methods of the vectors */
+const jsonVersion: number = 1;
+
+/** The {@link Vector2JSON} schema written by {@link Vector2.toJSON} */
+export interface Vector2JSON {
+  /** The version of the schema */
+  version: number;
+  /** The name of the type */
+  type: "Vector2";
+  /** The x value */
+  x: number;
+  /** The y value */
+  y: number;
+}
+
+/** The {@link Vector3JSON} schema written by {@link Vector3.toJSON} */
+export interface Vector3JSON {
+  /** The version of the schema */
+  version: number;
+  /** The name of the type */
+  type: "Vector3";
+  /** The x value */
+  x: number;
+  /** The y value */
+  y: number;
+  /** The z value */
+  z: number;
+}
+
+/** The {@link Vector4JSON} schema written by {@link Vector4.toJSON} */
+export interface Vector4JSON {
+  /** The version of the schema */
+  version: number;
+  /** The name of the type */
+  type: "Vector4";
+  /** The x value */
+  x: number;
+  /** The y value */
+  y: number;
+  /** The z value */
+  z: number;
+  /** The w value */
+  w: number;
+}
+
+/** A {@Point} represented by an X, Y, Z, and W value */
 interface Point {
   /** The X value of the Point */
   x: number;
@@ -8,12 +67,512 @@ interface Point {
   y: number;
   /** The Z value of the Point */
   z?: number;
+  /** The W value of the Point */
+  w?: number;
+}
+
+/** Class containing the operations shared by every vector, whatever its number of components */
+export abstract class Vector<T extends Vector<T>> {
+  /** The number of components */
+  public abstract readonly dimensions: number;
+
+  /**
+   * Finds a component by index
+   * @param i - The index of the component, where 0 is x
+   */
+  public abstract getComponent(i: number): number;
+
+  /**
+   * Sets a component by index
+   * @param i - The index of the component, where 0 is x
+   * @param v - The number to be used as the component
+   */
+  public abstract setComponent(i: number, v: number): this;
+
+  /** Creates a vector of the same type and length filled with zeros */
+  protected abstract create(): T;
+
+  /** The Magnitude of this */
+  public get magnitude(): number {
+    return Math.sqrt(this.sqrMagnitude);
+  }
+
+  /** The Magnitude Squared of this */
+  public get sqrMagnitude(): number {
+    return this.dot(this);
+  }
+
+  /** The normalized vector of this */
+  public get normalized(): T {
+    return this.clone().normalize();
+  }
+
+  /** Normalizes the vector */
+  public normalize(): this {
+    return this.div(this.magnitude);
+  }
+
+  /**
+   * Performs addition on the vector
+   * @param a - Either a number to be used as every component or a vector
+   * @param rest - Numbers to be used as the following components
+   */
+  public add(a: number|Vector<T>, ...rest: number[]): this {
+    return this.apply(a, rest, (c, v) => c + v);
+  }
+
+  /**
+   * Performs subtraction on the vector
+   * @param a - Either a number to be used as every component or a vector
+   * @param rest - Numbers to be used as the following components
+   */
+  public sub(a: number|Vector<T>, ...rest: number[]): this {
+    return this.apply(a, rest, (c, v) => c - v);
+  }
+
+  /**
+   * Performs multiplication on the vector
+   * @param a - Either a number to be used as every component or a vector
+   * @param rest - Numbers to be used as the following components
+   */
+  public mult(a: number|Vector<T>, ...rest: number[]): this {
+    return this.apply(a, rest, (c, v) => c * v);
+  }
+
+  /**
+   * Performs division on the vector
+   * @param a - Either a number to be used as every component or a vector
+   * @param rest - Numbers to be used as the following components
+   */
+  public div(a: number|Vector<T>, ...rest: number[]): this {
+    return this.apply(a, rest, (c, v) => c / v);
+  }
+
+  /**
+   * Finds the dot product of this and another vector
+   * @param other - A vector of the same type
+   */
+  public dot(other: Vector<T>): number {
+    let v: number[] = this.parseParameters(other, []);
+    let sum: number = 0;
+    for (let i = 0; i < v.length; i++) {
+      sum += this.getComponent(i) * v[i];
+    }
+    return sum;
+  }
+
+  /**
+   * Finds the distance between this and another vector
+   * @param other - A vector of the same type
+   */
+  public distance(other: Vector<T>): number {
+    return Math.sqrt(this.sqrDistance(other));
+  }
+
+  /**
+   * Finds the distance squared between this and another vector
+   * @param other - A vector of the same type
+   */
+  public sqrDistance(other: Vector<T>): number {
+    let v: number[] = this.parseParameters(other, []);
+    let sum: number = 0;
+    for (let i = 0; i < v.length; i++) {
+      let d: number = this.getComponent(i) - v[i];
+      sum += d * d;
+    }
+    return sum;
+  }
+
+  /**
+   * Finds the unsigned angle in radians between this and another vector
+   * @param other - A vector of the same type
+   */
+  public angle(other: Vector<T>): number {
+    let magnitudes: number = Math.sqrt(this.sqrMagnitude * other.sqrMagnitude);
+    if (magnitudes == 0) return 0;
+    return Math.acos(Math.min(Math.max(this.dot(other) / magnitudes, -1), 1));
+  }
+
+  /**
+   * Linearly interpolates this towards another vector
+   * @param other - The vector at t = 1
+   * @param t - The interpolation amount, which isn't clamped
+   */
+  public lerp(other: Vector<T>, t: number): this {
+    return this.apply(other, [], (c, v) => c + (v - c) * t);
+  }
+
+  /**
+   * Projects this onto another vector
+   * @param onto - The vector to project onto
+   */
+  public project(onto: Vector<T>): this {
+    let sqr: number = onto.sqrMagnitude;
+    if (sqr == 0) return this.mult(0);
+    let scale: number = this.dot(onto) / sqr;
+    return this.apply(onto, [], (c, v) => v * scale);
+  }
+
+  /**
+   * Removes the part of this that lies along another vector
+   * @param onto - The vector to reject from
+   */
+  public reject(onto: Vector<T>): this {
+    return this.sub(this.clone().project(onto));
+  }
+
+  /**
+   * Projects this onto the plane (or line) through the origin perpendicular to a normal
+   * @param normal - The normal of the plane
+   */
+  public projectOnPlane(normal: Vector<T>): this {
+    return this.reject(normal);
+  }
+
+  /**
+   * Reflects this off of a surface
+   * @param normal - The normalized normal of the surface
+   */
+  public reflect(normal: Vector<T>): this {
+    let d: number = 2 * this.dot(normal);
+    return this.apply(normal, [], (c, v) => c - d * v);
+  }
+
+  /**
+   * Turns this a quarter turn, which is only defined for 2D and 3D vectors
+   * @param towards - The direction to turn towards, which 2D vectors don't need
+   */
+  public perpendicular(towards?: Vector<T>): this {
+    throw new InvalidVectorError("Perpendicular Vectors Are Only Defined For 2D And 3D Vectors.", towards);
+  }
+
+  /**
+   * Shortens this when its magnitude is greater than a maximum
+   * @param max - The maximum magnitude
+   */
+  public clampMagnitude(max: number): this {
+    let sqr: number = this.sqrMagnitude;
+    if (sqr <= max * max) return this;
+    return this.mult(max / Math.sqrt(sqr));
+  }
+
+  /**
+   * Keeps the smallest of each component of this and another vector
+   * @param other - A vector of the same type
+   */
+  public min(other: Vector<T>): this {
+    return this.apply(other, [], Math.min);
+  }
+
+  /**
+   * Keeps the largest of each component of this and another vector
+   * @param other - A vector of the same type
+   */
+  public max(other: Vector<T>): this {
+    return this.apply(other, [], Math.max);
+  }
+
+  /** Makes each component of this positive */
+  public abs(): this {
+    return this.apply(0, [], Math.abs);
+  }
+
+  /** Rounds each component of this down */
+  public floor(): this {
+    return this.apply(0, [], Math.floor);
+  }
+
+  /** Rounds each component of this up */
+  public ceil(): this {
+    return this.apply(0, [], Math.ceil);
+  }
+
+  /** Rounds each component of this to the nearest integer */
+  public round(): this {
+    return this.apply(0, [], Math.round);
+  }
+
+  /**
+   * Evaluates if two vectors are equal within a tolerance
+   * @param other - The vector to compare with
+   * @param epsilon - The largest difference allowed between each component
+   */
+  public approxEquals(other: Vector<T>, epsilon: number = 1e-6): boolean {
+    if (other.dimensions != this.dimensions) return false;
+    for (let i = 0; i < this.dimensions; i++) {
+      if (!(Math.abs(this.getComponent(i) - other.getComponent(i)) <= epsilon)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Evaluates if two vectors are equal
+   * @param other - The vector to compare with
+   */
+  public equals(other: Vector<T>): boolean {
+    if (other.dimensions != this.dimensions) return false;
+    for (let i = 0; i < this.dimensions; i++) {
+      if (this.getComponent(i) !== other.getComponent(i)) return false;
+    }
+    return true;
+  }
+
+  /** Creates a copy of the vector */
+  public clone(): T {
+    let v: T = this.create();
+    for (let i = 0; i < this.dimensions; i++) {
+      v.setComponent(i, this.getComponent(i));
+    }
+    return v;
+  }
+
+  /** Converts the vector to a {@link VectorN} of the same length */
+  public toVectorN(): VectorN {
+    return new VectorN(this.toArray());
+  }
+
+  /** Converts the vector to an {@link Array} */
+  public toArray(): number[] {
+    let components: number[] = [];
+    for (let i = 0; i < this.dimensions; i++) {
+      components.push(this.getComponent(i));
+    }
+    return components;
+  }
+
+  /** Converts the vector to a {@link String} */
+  public toString(): string {
+    return this.toArray().toString();
+  }
+
+  /**
+   * Finds the components provided by the arguments
+   * @param a - Either a number to be used as every component or a vector
+   * @param rest - Numbers to be used as the following components
+   */
+  protected parseParameters(a: number|Vector<T>, rest: (number|undefined)[]): number[] {
+    let components: number[] = [];
+    if (a instanceof Vector) {
+      if (a.dimensions != this.dimensions) throw new InvalidVectorError("Vector Dimensions Do Not Match.", a);
+      for (let i = 0; i < this.dimensions; i++) {
+        components.push(a.getComponent(i));
+      }
+    } else {
+      for (let i = 0; i < this.dimensions; i++) {
+        let v: number|undefined = i == 0 ? a : rest[i - 1];
+        components.push(v === undefined ? a : v);
+      }
+    }
+    checkComponents(components);
+    return components;
+  }
+
+  /**
+   * Replaces each component with the result of a function of it and the matching argument
+   * @param a - Either a number to be used as every component or a vector
+   * @param rest - Numbers to be used as the following components
+   * @param fn - The function combining the component of this with the argument
+   */
+  private apply(a: number|Vector<T>, rest: (number|undefined)[], fn: (c: number, v: number) => number): this {
+    let v: number[] = this.parseParameters(a, rest);
+    for (let i = 0; i < v.length; i++) {
+      this.setComponent(i, fn(this.getComponent(i), v[i]));
+    }
+    return this;
+  }
+
+  /**
+   * Finds the sum of two vectors
+   * @param a - A vector
+   * @param b - A vector of the same type
+   */
+  public static add<T extends Vector<T>>(a: T, b: Vector<T>): T {
+    return a.clone().add(b);
+  }
+
+  /**
+   * Finds the difference of two vectors
+   * @param a - A vector
+   * @param b - A vector of the same type
+   */
+  public static sub<T extends Vector<T>>(a: T, b: Vector<T>): T {
+    return a.clone().sub(b);
+  }
+
+  /**
+   * Finds the product of two vectors
+   * @param a - A vector
+   * @param b - A vector of the same type
+   */
+  public static mult<T extends Vector<T>>(a: T, b: Vector<T>): T {
+    return a.clone().mult(b);
+  }
+
+  /**
+   * Finds the quotient of two vectors
+   * @param a - A vector
+   * @param b - A vector of the same type
+   */
+  public static div<T extends Vector<T>>(a: T, b: Vector<T>): T {
+    return a.clone().div(b);
+  }
+
+  /**
+   * Finds the dot product of two vectors
+   * @param a - A vector
+   * @param b - A vector of the same type
+   */
+  public static dot<T extends Vector<T>>(a: T, b: Vector<T>): number {
+    return a.dot(b);
+  }
+
+  /**
+   * Finds the distance between two vectors
+   * @param a - A vector
+   * @param b - A vector of the same type
+   */
+  public static distance<T extends Vector<T>>(a: T, b: Vector<T>): number {
+    return a.distance(b);
+  }
+
+  /**
+   * Finds the distance squared between two vectors
+   * @param a - A vector
+   * @param b - A vector of the same type
+   */
+  public static sqrDistance<T extends Vector<T>>(a: T, b: Vector<T>): number {
+    return a.sqrDistance(b);
+  }
+
+  /**
+   * Finds the unsigned angle in radians between two vectors
+   * @param a - A vector
+   * @param b - A vector of the same type
+   */
+  public static angle<T extends Vector<T>>(a: T, b: Vector<T>): number {
+    return a.angle(b);
+  }
+
+  /**
+   * Linearly interpolates between two vectors
+   * @param a - The vector at t = 0
+   * @param b - The vector at t = 1
+   * @param t - The interpolation amount, which isn't clamped
+   */
+  public static lerp<T extends Vector<T>>(a: T, b: Vector<T>, t: number): T {
+    return a.clone().lerp(b, t);
+  }
+
+  /**
+   * Projects a vector onto another
+   * @param v - The vector to project
+   * @param onto - The vector to project onto
+   */
+  public static project<T extends Vector<T>>(v: T, onto: Vector<T>): T {
+    return v.clone().project(onto);
+  }
+
+  /**
+   * Removes the part of a vector that lies along another
+   * @param v - The vector to reject
+   * @param onto - The vector to reject from
+   */
+  public static reject<T extends Vector<T>>(v: T, onto: Vector<T>): T {
+    return v.clone().reject(onto);
+  }
+
+  /**
+   * Projects a vector onto the plane (or line) through the origin perpendicular to a normal
+   * @param v - The vector to project
+   * @param normal - The normal of the plane
+   */
+  public static projectOnPlane<T extends Vector<T>>(v: T, normal: Vector<T>): T {
+    return v.clone().projectOnPlane(normal);
+  }
+
+  /**
+   * Reflects a vector off of a surface
+   * @param v - The vector to reflect
+   * @param normal - The normalized normal of the surface
+   */
+  public static reflect<T extends Vector<T>>(v: T, normal: Vector<T>): T {
+    return v.clone().reflect(normal);
+  }
+
+  /**
+   * Shortens a vector when its magnitude is greater than a maximum
+   * @param v - The vector to clamp
+   * @param max - The maximum magnitude
+   */
+  public static clampMagnitude<T extends Vector<T>>(v: T, max: number): T {
+    return v.clone().clampMagnitude(max);
+  }
+
+  /**
+   * Finds the smallest of each component of two vectors
+   * @param a - A vector
+   * @param b - A vector of the same type
+   */
+  public static min<T extends Vector<T>>(a: T, b: Vector<T>): T {
+    return a.clone().min(b);
+  }
+
+  /**
+   * Finds the largest of each component of two vectors
+   * @param a - A vector
+   * @param b - A vector of the same type
+   */
+  public static max<T extends Vector<T>>(a: T, b: Vector<T>): T {
+    return a.clone().max(b);
+  }
+
+  /**
+   * Finds a vector with each component made positive
+   * @param v - A vector
+   */
+  public static abs<T extends Vector<T>>(v: T): T {
+    return v.clone().abs();
+  }
+
+  /**
+   * Finds a vector with each component rounded down
+   * @param v - A vector
+   */
+  public static floor<T extends Vector<T>>(v: T): T {
+    return v.clone().floor();
+  }
+
+  /**
+   * Finds a vector with each component rounded up
+   * @param v - A vector
+   */
+  public static ceil<T extends Vector<T>>(v: T): T {
+    return v.clone().ceil();
+  }
+
+  /**
+   * Finds a vector with each component rounded to the nearest integer
+   * @param v - A vector
+   */
+  public static round<T extends Vector<T>>(v: T): T {
+    return v.clone().round();
+  }
+
+  /**
+   * Evaluates if two vectors are equal within a tolerance
+   * @param a - A vector
+   * @param b - A vector of the same type
+   * @param epsilon - The largest difference allowed between each component
+   */
+  public static approxEquals<T extends Vector<T>>(a: T, b: Vector<T>, epsilon: number = 1e-6): boolean {
+    return a.approxEquals(b, epsilon);
+  }
 }
 
 /** Class representing a Vector2 */
-export class Vector2 implements Point {
-  public x: number;
-  public y: number;
+export class Vector2 extends Vector<Vector2> implements Point {
+  public x: number = 0;
+  public y: number = 0;
 
   /**
    * Creates a {@link Vector2}
@@ -21,25 +580,34 @@ export class Vector2 implements Point {
    * @param b - A number to be used as the y value
    */
   public constructor(a: number|Vector2 = 0, b?: number) {
-    let {x, y} = this.parseParameters(a, b);
-    this.x = x;
-    this.y = y;
+    super();
+    let [x, y] = this.parseParameters(a, [b]);
+    this.set(x, y);
   }
 
-  /** The Magnitude of this */
-  public get magnitude(): number {
-    return Math.sqrt(this.sqrMagnitude);
+  /** The number of components, which is always 2 */
+  public get dimensions(): number {
+    return 2;
   }
 
-  /** The Magnitude Squared of this */
-  public get sqrMagnitude(): number {
-    return this.x * this.x + this.y * this.y;
+  /**
+   * Finds a component by index
+   * @param i - The index of the component, where 0 is x and 1 is y
+   */
+  public getComponent(i: number): number {
+    return i == 0 ? this.x : this.y;
   }
 
-  /** The normalized {@link Vector2} of this */
-   public get normalized(): Vector2 {
-     return new Vector2(this).normalize();
-   }
+  /**
+   * Sets a component by index
+   * @param i - The index of the component, where 0 is x and 1 is y
+   * @param v - The number to be used as the component
+   */
+  public setComponent(i: number, v: number): this {
+    if (i == 0) this.x = v;
+    else this.y = v;
+    return this;
+  }
 
   /**
    * Sets the xy value of the {@link Vector2}
@@ -47,79 +615,96 @@ export class Vector2 implements Point {
    * @param y - A number to be used as the y value
    */
   public set(x: number, y: number): this {
+    checkComponents([x, y]);
     this.x = x;
     this.y = y;
     return this;
   }
 
-  /** Normalizes the xy value of the {@link Vector2} */
-  public normalize(): this {
-    return this.div(this.magnitude);
+  /**
+   * Finds the z value of the cross product of this and another {@link Vector2}
+   * @param other - A {@link Vector2}
+   */
+  public cross(other: Vector2): number {
+    return this.x * other.y - this.y * other.x;
+  }
+
+  /** Turns this a quarter turn from the x axis towards the y axis */
+  public perpendicular(): this {
+    return this.set(-this.y, this.x);
   }
 
   /**
-   * Performs subtraction on the {@link Vector2}
-   * @param a - Either a number to be used as the xy value or a {@link Vector2}
-   * @param b - A number to be used as the y value
+   * Finds the unsigned angle in radians between this and another {@link Vector2}
+   * @param other - A {@link Vector2}
    */
-  public sub(a: Vector2|number, b?: number): this {
-    let {x, y} = this.parseParameters(a, b);
-    this.x -= x;
-    this.y -= y;
-    return this;
+  public angle(other: Vector2): number {
+    return Math.abs(this.signedAngle(other));
   }
 
   /**
-   * Performs addition on the {@link Vector2}
-   * @param a - Either a number to be used as the xy value or a {@link Vector2}
-   * @param b - A number to be used as the y value
+   * Finds the signed angle in radians from this to another {@link Vector2}, positive when turning from the x axis towards the y axis
+   * @param other - A {@link Vector2}
    */
-  public add(a: Vector2|number, b?: number): this {
-    let {x, y} = this.parseParameters(a, b);
-    this.x += x;
-    this.y += y;
-    return this;
+  public signedAngle(other: Vector2): number {
+    return Math.atan2(this.cross(other), this.dot(other));
   }
 
   /**
-   * Performs multiplication on the {@link Vector2}
-   * @param a - Either a number to be used as the xy value or a {@link Vector2}
-   * @param b - A number to be used as the y value
+   * Spherically interpolates this towards another {@link Vector2}, rotating the direction and interpolating the magnitude
+   * @param other - The {@link Vector2} at t = 1
+   * @param t - The interpolation amount, which isn't clamped
    */
-  public mult(a: Vector2|number, b?: number): this {
-    let {x, y} = this.parseParameters(a, b);
-    this.x *= x;
-    this.y *= y;
-    return this;
+  public slerp(other: Vector2, t: number): this {
+    let magnitude: number = this.magnitude + (other.magnitude - this.magnitude) * t;
+    if (this.sqrMagnitude == 0 || other.sqrMagnitude == 0) return this.lerp(other, t);
+    return this.rotate(this.signedAngle(other) * t).normalize().mult(magnitude);
   }
 
   /**
-   * Performs division on the {@link Vector2}
-   * @param a - Either a number to be used as the xy value or a {@link Vector2}
-   * @param b - A number to be used as the y value
+   * Rotates this around the origin
+   * @param angle - The angle in radians, turning from the x axis towards the y axis
    */
-  public div(a: Vector2|number, b?: number): this {
-    let {x, y} = this.parseParameters(a, b);
-    this.x /= x;
-    this.y /= y;
-    return this;
+  public rotate(angle: number): this {
+    let cos: number = Math.cos(angle);
+    let sin: number = Math.sin(angle);
+    return this.set(this.x * cos - this.y * sin, this.x * sin + this.y * cos);
   }
 
   /**
-   * Evaluates if two {@link Vector2}s are equal
-   * @param other - The {@link Vector2} to compare with
+   * Converts the {@link Vector2} to a {@link Vector3}
+   * @param z - A number to be used as the z value
    */
-  public equals(other: Vector2): boolean {
-    return this.x === other.x && this.y === other.y;
+  public toVector3(z: number = 0): Vector3 {
+    return new Vector3().set(this.x, this.y, z);
   }
 
   /**
-   * Finds the {@link Point} provided by the arguments
-   * @param a - Either a number to be used as the xy value or a {@link Vector2}
-   * @param b - A number to be used as the y value
+   * Converts the {@link Vector2} to a {@link Vector4}
+   * @param z - A number to be used as the z value
+   * @param w - A number to be used as the w value
    */
-  private parseParameters(a: number|Vector2, b?: number): Point {
-    return Vector2.parseParameters(a, b);
+  public toVector4(z: number = 0, w: number = 0): Vector4 {
+    return new Vector4().set(this.x, this.y, z, w);
+  }
+
+  /** Converts the {@link Vector2} to the versioned {@link Vector2JSON} schema, which {@link JSON.stringify} uses */
+  public toJSON(): Vector2JSON {
+    return {version: jsonVersion, type: "Vector2", x: this.x, y: this.y};
+  }
+
+  /** Creates a {@link Vector2} filled with zeros */
+  protected create(): Vector2 {
+    return new Vector2();
+  }
+
+  /**
+   * Creates a {@link Vector2} from the {@link Vector2JSON} schema
+   * @param json - Either a {@link Vector2JSON} or a string of it
+   */
+  public static fromJSON(json: Vector2JSON|string): Vector2 {
+    let [x, y] = readJSON(json, "Vector2", ["x", "y"], jsonVersion, InvalidVectorError);
+    return new Vector2().set(x, y);
   }
 
   /** A {@link Vector2} with the value of 0, -1 */
@@ -143,65 +728,74 @@ export class Vector2 implements Point {
   }
 
   /**
-   * Finds the sum of two {@link Vector2}s
-   * @param a - A {@link Vector2}
-   * @param b - A {@link Vector2}
+   * Creates a random {@link Vector2} with a magnitude of 1
+   * @param random - The {@link Random} to draw from instead of {@link Math.random}
    */
-  public static add(a: Vector2, b: Vector2): Vector2 {
-    return new Vector2(a).add(b);
+  public static randomUnit(random?: Random): Vector2 {
+    let angle: number = randFloat(2 * Math.PI, 0, random);
+    return new Vector2().set(Math.cos(angle), Math.sin(angle));
   }
 
   /**
-   * Finds the difference of two {@link Vector2}s
-   * @param a - A {@link Vector2}
-   * @param b - A {@link Vector2}
+   * Creates a random {@link Vector2} uniformly distributed inside of the circle with a radius of 1
+   * @param random - The {@link Random} to draw from instead of {@link Math.random}
    */
-  public static sub(a: Vector2, b: Vector2): Vector2 {
-    return new Vector2(a).sub(b);
+  public static insideUnitCircle(random?: Random): Vector2 {
+    return Vector2.randomUnit(random).mult(Math.sqrt(randFloat(1, 0, random)));
   }
 
   /**
-   * Finds the product of two {@link Vector2}s
-   * @param a - A {@link Vector2}
-   * @param b - A {@link Vector2}
+   * Creates a random {@link Vector2} uniformly distributed inside of a {@link Rect}
+   * @param rect - The {@link Rect}
+   * @param random - The {@link Random} to draw from instead of {@link Math.random}
    */
-  public static mult(a: Vector2, b: Vector2): Vector2 {
-    return new Vector2(a).mult(b);
+  public static inRect(rect: Rect, random?: Random): Vector2 {
+    return new Vector2().set(randFloat(rect.x + rect.width, rect.x, random), randFloat(rect.y + rect.height, rect.y, random));
   }
 
   /**
-   * Finds the quotient of two {@link Vector2}s
+   * Finds the z value of the cross product of two {@link Vector2}s
    * @param a - A {@link Vector2}
    * @param b - A {@link Vector2}
    */
-  public static div(a: Vector2, b: Vector2): Vector2 {
-    return new Vector2(a).div(b);
+  public static cross(a: Vector2, b: Vector2): number {
+    return a.cross(b);
   }
 
   /**
-   * Finds the {@link Point} provided by the arguments
-   * @param a - Either a number to be used as the xy value or a {@link Vector2}
-   * @param b - A number to be used as the y value
+   * Finds the signed angle in radians from one {@link Vector2} to another
+   * @param a - The {@link Vector2} to measure from
+   * @param b - The {@link Vector2} to measure to
    */
-  private static parseParameters(a: number|Vector2, b?: number): Point {
-    let x: number;
-    let y: number;
-    if (a instanceof Vector2) {
-      x = a.x;
-      y = a.y;
-    } else {
-      x = a;
-      y = b ? b : a;
-    }
-    return {x : x, y : y};
+  public static signedAngle(a: Vector2, b: Vector2): number {
+    return a.signedAngle(b);
+  }
+
+  /**
+   * Spherically interpolates between two {@link Vector2}s
+   * @param a - The {@link Vector2} at t = 0
+   * @param b - The {@link Vector2} at t = 1
+   * @param t - The interpolation amount, which isn't clamped
+   */
+  public static slerp(a: Vector2, b: Vector2, t: number): Vector2 {
+    return new Vector2(a).slerp(b, t);
+  }
+
+  /**
+   * Rotates a {@link Vector2} around the origin
+   * @param v - The {@link Vector2} to rotate
+   * @param angle - The angle in radians
+   */
+  public static rotate(v: Vector2, angle: number): Vector2 {
+    return new Vector2(v).rotate(angle);
   }
 }
 
 /** A class representing a Vector3 */
-export class Vector3 implements Point {
-  public x: number;
-  public y: number;
-  public z: number;
+export class Vector3 extends Vector<Vector3> implements Point {
+  public x: number = 0;
+  public y: number = 0;
+  public z: number = 0;
 
   /**
    * Creates a {@link Vector3}
@@ -210,127 +804,156 @@ export class Vector3 implements Point {
    * @param c - A number to be used as the z value
    */
   public constructor(a: number|Vector3 = 0, b?: number, c?: number) {
-    let {x, y, z} = this.parseParameters(a, b, c);
-    this.x = x;
-    this.y = y;
-    this.z = z as number;
+    super();
+    let [x, y, z] = this.parseParameters(a, [b, c]);
+    this.set(x, y, z);
   }
 
-  /** The Magnitude of this */
-  public get magnitude(): number {
-    return Math.sqrt(this.sqrMagnitude);
+  /** The number of components, which is always 3 */
+  public get dimensions(): number {
+    return 3;
   }
 
-  /** The Magnitude Squared of this */
-  public get sqrMagnitude(): number {
-    return this.x * this.x + this.y * this.y + this.z * this.z;
+  /**
+   * Finds a component by index
+   * @param i - The index of the component, where 0 is x, 1 is y and 2 is z
+   */
+  public getComponent(i: number): number {
+    return i == 0 ? this.x : i == 1 ? this.y : this.z;
   }
 
-  /** The Normalized {@link Vector3} of this */
-  public get normalized(): Vector3 {
-    return new Vector3(this).normalize();
+  /**
+   * Sets a component by index
+   * @param i - The index of the component, where 0 is x, 1 is y and 2 is z
+   * @param v - The number to be used as the component
+   */
+  public setComponent(i: number, v: number): this {
+    if (i == 0) this.x = v;
+    else if (i == 1) this.y = v;
+    else this.z = v;
+    return this;
   }
 
-  /** Normalizes the {@link Vector3} */
-  public normalize(): this {
-    return this.div(this.magnitude);
+  /**
+   * Sets the xyz value of the {@link Vector3}
+   * @param x - A number to be used as the x value
+   * @param y - A number to be used as the y value
+   * @param z - A number to be used as the z value
+   */
+  public set(x: number, y: number, z: number): this {
+    checkComponents([x, y, z]);
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    return this;
   }
 
   /**
-   * Performs division on the {@link Vector3}
-   * @param a - Either a number to be used as the xyz value or a {@link Vector3}
-   * @param b - A number to be used as the y value
-   * @param c - A number to be used as the z value
+   * Sets this to the cross product of this and another {@link Vector3}
+   * @param other - A {@link Vector3}
    */
-  public div(a: number|Vector3, b?: number, c?: number): this {
-    let {x, y, z} = this.parseParameters(a, b, c);
-    this.x /= x;
-    this.y /= y;
-    this.z /= z as number;
-    return this;
+  public cross(other: Vector3): this {
+    return this.set(this.y * other.z - this.z * other.y, this.z * other.x - this.x * other.z, this.x * other.y - this.y * other.x);
   }
 
   /**
-   * Performs multiplication on the {@link Vector3}
-   * @param a - Either a number to be used as the xyz value or a {@link Vector3}
-   * @param b - A number to be used as the y value
-   * @param c - A number to be used as the z value
+   * Turns this a quarter turn in the plane it shares with another {@link Vector3}, keeping its magnitude
+   * @param towards - The direction to turn towards, or any direction when it's left out or parallel to this
    */
-  public mult(a: number|Vector3, b?: number, c?: number): this {
-    let {x, y, z} = this.parseParameters(a, b, c);
-    this.x *= x;
-    this.y *= y;
-    this.z *= z as number;
-    return this;
+  public perpendicular(towards?: Vector3): this {
+    let magnitude: number = this.magnitude;
+    let binormal: Vector3 = towards === undefined ? new Vector3() : new Vector3(this).cross(towards);
+    if (binormal.sqrMagnitude < 1e-12 * magnitude * magnitude) binormal = new Vector3(this).cross(Math.abs(this.y) < 0.9 * magnitude ? Vector3.up : Vector3.right);
+    binormal.cross(this).normalize().mult(magnitude);
+    return this.set(binormal.x, binormal.y, binormal.z);
   }
 
   /**
-   * Performs addition on the {@link Vector3}
-   * @param a - Either a number to be used as the xyz value or a {@link Vector3}
-   * @param b - A number to be used as the y value
-   * @param c - A number to be used as the z value
+   * Finds the unsigned angle in radians between this and another {@link Vector3}
+   * @param other - A {@link Vector3}
    */
-  public add(a: number|Vector3, b?: number, c?: number): this {
-    let {x, y, z} = this.parseParameters(a, b, c);
-    this.x += x;
-    this.y += y;
-    this.z += z as number;
-    return this;
+  public angle(other: Vector3): number {
+    return Math.atan2(new Vector3(this).cross(other).magnitude, this.dot(other));
   }
 
   /**
-   * Performs subtraction on the {@link Vector3}
-   * @param a - Either a number to be used as the xyz value or a {@link Vector3}
-   * @param b - A number to be used as the y value
-   * @param c - A number to be used as the z value
+   * Finds the signed angle in radians from this to another {@link Vector3} around an axis
+   * @param other - A {@link Vector3}
+   * @param axis - The axis the angle is measured around, which decides the sign
    */
-  public sub(a: number|Vector3, b?: number, c?: number): this {
-    let {x, y, z} = this.parseParameters(a, b, c);
-    this.x -= x;
-    this.y -= y;
-    this.z -= z as number;
-    return this;
+  public signedAngle(other: Vector3, axis: Vector3): number {
+    let cross: Vector3 = new Vector3(this).cross(other);
+    let angle: number = Math.atan2(cross.magnitude, this.dot(other));
+    return cross.dot(axis) < 0 ? -angle : angle;
   }
 
   /**
-   * Sets the xyz value of the {@link Vector3}
-   * @param x - A number to be used as the x value
-   * @param y - A number to be used as the y value
-   * @param z - A number to be used as the z value
+   * Spherically interpolates this towards another {@link Vector3}, rotating the direction and interpolating the magnitude
+   * @param other - The {@link Vector3} at t = 1
+   * @param t - The interpolation amount, which isn't clamped
    */
-  public set(x: number, y: number, z: number): this {
-    this.x = x;
-    this.y = y;
-    this.z = z;
-    return this;
+  public slerp(other: Vector3, t: number): this {
+    let from: number = this.magnitude;
+    let to: number = other.magnitude;
+    if (from == 0 || to == 0) return this.lerp(other, t);
+
+    let axis: Vector3 = new Vector3(this).cross(other);
+    if (axis.sqrMagnitude == 0) {
+      if (this.dot(other) > 0) return this.lerp(other, t);
+      let x: number = Math.abs(this.x), y: number = Math.abs(this.y), z: number = Math.abs(this.z);
+      axis = new Vector3(this).cross(x <= y && x <= z ? Vector3.right : y <= z ? Vector3.up : Vector3.forth);
+    }
+    return this.rotate(axis, this.angle(other) * t).mult((from + (to - from) * t) / from);
   }
 
   /**
-   * Evaluates if two {@link Vector3}s are equal
-   * @param other - The {@link Vector3} to compare with
+   * Rotates this around an axis through the origin
+   * @param axis - The axis to rotate around, following the right hand rule
+   * @param angle - The angle in radians
    */
-  public equals(other: Vector3): boolean {
-    return this.x === other.x && this.y === other.y && this.z === other.z;
+  public rotate(axis: Vector3, angle: number): this {
+    let k: Vector3 = axis.normalized;
+    let cos: number = Math.cos(angle);
+    let sin: number = Math.sin(angle);
+    let cross: Vector3 = new Vector3(k).cross(this);
+    let d: number = k.dot(this) * (1 - cos);
+    return this.set(
+      this.x * cos + cross.x * sin + k.x * d,
+      this.y * cos + cross.y * sin + k.y * d,
+      this.z * cos + cross.z * sin + k.z * d
+    );
   }
 
-  /** Converts the {@link Vector3} to an {@link Array} */
-  public toArray(): number[] {
-    return [this.x, this.y, this.z];
+  /** Converts the {@link Vector3} to a {@link Vector2} of its xy value */
+  public toVector2(): Vector2 {
+    return new Vector2().set(this.x, this.y);
   }
 
-  /** Converts the {@link Vector3} to a {@link String} */
-  public toString(): string {
-    return this.toArray().toString();
+  /**
+   * Converts the {@link Vector3} to a {@link Vector4}
+   * @param w - A number to be used as the w value, 1 for a point and 0 for a direction
+   */
+  public toVector4(w: number = 0): Vector4 {
+    return new Vector4().set(this.x, this.y, this.z, w);
+  }
+
+  /** Converts the {@link Vector3} to the versioned {@link Vector3JSON} schema, which {@link JSON.stringify} uses */
+  public toJSON(): Vector3JSON {
+    return {version: jsonVersion, type: "Vector3", x: this.x, y: this.y, z: this.z};
+  }
+
+  /** Creates a {@link Vector3} filled with zeros */
+  protected create(): Vector3 {
+    return new Vector3();
   }
 
   /**
-   * Finds the {@type Point} provided by the arguments
-   * @param a - Either a number to be used as the xyz value or a {@link Vector3}
-   * @param b - A number to be used as the y value
-   * @param c - A number to be used as the z value
+   * Creates a {@link Vector3} from the {@link Vector3JSON} schema
+   * @param json - Either a {@link Vector3JSON} or a string of it
    */
-  private parseParameters(a: number|Vector3, b?: number, c?: number): Point {
-    return Vector3.parseParameters(a, b, c);
+  public static fromJSON(json: Vector3JSON|string): Vector3 {
+    let [x, y, z] = readJSON(json, "Vector3", ["x", "y", "z"], jsonVersion, InvalidVectorError);
+    return new Vector3().set(x, y, z);
   }
 
   /** A {@link Vector3} with the xyz value of 0, -1, 0 */
@@ -364,60 +987,265 @@ export class Vector3 implements Point {
   }
 
   /**
-   * Finds the quotient of two {@link Vector3}s
-   * @param a - A {@link Vector3}
-   * @param b - A {@link Vector3}
+   * Creates a random {@link Vector3} uniformly distributed on the surface of the sphere with a radius of 1
+   * @param random - The {@link Random} to draw from instead of {@link Math.random}
    */
-  public static div(a: Vector3, b: Vector3): Vector3 {
-    return new Vector3(a).div(b);
+  public static onUnitSphere(random?: Random): Vector3 {
+    let z: number = randFloat(1, -1, random);
+    let angle: number = randFloat(2 * Math.PI, 0, random);
+    let r: number = Math.sqrt(1 - z * z);
+    return new Vector3().set(r * Math.cos(angle), r * Math.sin(angle), z);
   }
 
   /**
-   * Finds the product of two {@link Vector3}s
-   * @param a - A {@link Vector3}
-   * @param b - A {@link Vector3}
+   * Creates a random {@link Vector3} uniformly distributed inside of the sphere with a radius of 1
+   * @param random - The {@link Random} to draw from instead of {@link Math.random}
    */
-  public static mult(a: Vector3, b: Vector3): Vector3 {
-    return new Vector3(a).mult(b);
+  public static insideUnitSphere(random?: Random): Vector3 {
+    return Vector3.onUnitSphere(random).mult(Math.cbrt(randFloat(1, 0, random)));
   }
 
   /**
-   * Finds the difference of two {@link Vector3}s
-   * @param a - A {@link Vector3}
-   * @param b - A {@link Vector3}
+   * Creates a random {@link Vector3} uniformly distributed inside of an {@link AABB}
+   * @param box - The {@link AABB}
+   * @param random - The {@link Random} to draw from instead of {@link Math.random}
+   */
+  public static inBox(box: AABB, random?: Random): Vector3 {
+    let {min, max} = box;
+    return new Vector3().set(randFloat(max.x, min.x, random), randFloat(max.y, min.y, random), randFloat(max.z, min.z, random));
+  }
+
+  /**
+   * Creates a {@link Vector3} from a {@link Vector2}
+   * @param v - The {@link Vector2} to be used as the xy value
+   * @param z - A number to be used as the z value
    */
-  public static sub(a: Vector3, b: Vector3): Vector3 {
-    return new Vector3(a).sub(b);
+  public static fromVector2(v: Vector2, z: number = 0): Vector3 {
+    return v.toVector3(z);
   }
 
   /**
-   * Finds the sum of two {@link Vector3}s
+   * Finds the cross product of two {@link Vector3}s
    * @param a - A {@link Vector3}
    * @param b - A {@link Vector3}
    */
-  public static add(a: Vector3, b: Vector3): Vector3 {
-    return new Vector3(a).add(b);
+  public static cross(a: Vector3, b: Vector3): Vector3 {
+    return new Vector3(a).cross(b);
   }
 
   /**
-   * Finds the {@link Point} provided by the arguments
-   * @param a - Either a number to be used as the xyz value or a {@link Vector3}
+   * Finds the signed angle in radians from one {@link Vector3} to another around an axis
+   * @param a - The {@link Vector3} to measure from
+   * @param b - The {@link Vector3} to measure to
+   * @param axis - The axis the angle is measured around, which decides the sign
+   */
+  public static signedAngle(a: Vector3, b: Vector3, axis: Vector3): number {
+    return a.signedAngle(b, axis);
+  }
+
+  /**
+   * Spherically interpolates between two {@link Vector3}s
+   * @param a - The {@link Vector3} at t = 0
+   * @param b - The {@link Vector3} at t = 1
+   * @param t - The interpolation amount, which isn't clamped
+   */
+  public static slerp(a: Vector3, b: Vector3, t: number): Vector3 {
+    return new Vector3(a).slerp(b, t);
+  }
+
+  /**
+   * Rotates a {@link Vector3} around an axis through the origin
+   * @param v - The {@link Vector3} to rotate
+   * @param axis - The axis to rotate around
+   * @param angle - The angle in radians
+   */
+  public static rotate(v: Vector3, axis: Vector3, angle: number): Vector3 {
+    return new Vector3(v).rotate(axis, angle);
+  }
+}
+
+/** A class representing a Vector4, such as a homogeneous coordinate or the channels of a color */
+export class Vector4 extends Vector<Vector4> implements Point {
+  public x: number = 0;
+  public y: number = 0;
+  public z: number = 0;
+  public w: number = 0;
+
+  /**
+   * Creates a {@link Vector4}
+   * @param a - Either a number to be used as the xyzw value or a {@link Vector4}
    * @param b - A number to be used as the y value
    * @param c - A number to be used as the z value
+   * @param d - A number to be used as the w value
    */
-  private static parseParameters(a: number|Vector3, b?: number, c?: number): Point {
-    let x: number;
-    let y: number;
-    let z: number;
-    if (a instanceof Vector3) {
-      x = a.x;
-      y = a.y;
-      z = a.z;
-    } else {
-      x = a;
-      y = b ? b : a;
-      z = c ? c : a;
-    }
-    return {x: x, y: y, z: z};
+  public constructor(a: number|Vector4 = 0, b?: number, c?: number, d?: number) {
+    super();
+    let [x, y, z, w] = this.parseParameters(a, [b, c, d]);
+    this.set(x, y, z, w);
+  }
+
+  /** The number of components, which is always 4 */
+  public get dimensions(): number {
+    return 4;
+  }
+
+  /**
+   * Finds a component by index
+   * @param i - The index of the component, where 0 is x, 1 is y, 2 is z and 3 is w
+   */
+  public getComponent(i: number): number {
+    return i == 0 ? this.x : i == 1 ? this.y : i == 2 ? this.z : this.w;
+  }
+
+  /**
+   * Sets a component by index
+   * @param i - The index of the component, where 0 is x, 1 is y, 2 is z and 3 is w
+   * @param v - The number to be used as the component
+   */
+  public setComponent(i: number, v: number): this {
+    if (i == 0) this.x = v;
+    else if (i == 1) this.y = v;
+    else if (i == 2) this.z = v;
+    else this.w = v;
+    return this;
+  }
+
+  /**
+   * Sets the xyzw value of the {@link Vector4}
+   * @param x - A number to be used as the x value
+   * @param y - A number to be used as the y value
+   * @param z - A number to be used as the z value
+   * @param w - A number to be used as the w value
+   */
+  public set(x: number, y: number, z: number, w: number): this {
+    checkComponents([x, y, z, w]);
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    this.w = w;
+    return this;
+  }
+
+  /** Converts the {@link Vector4} to a {@link Vector2} of its xy value */
+  public toVector2(): Vector2 {
+    return new Vector2().set(this.x, this.y);
+  }
+
+  /** Converts the {@link Vector4} to a {@link Vector3} of its xyz value */
+  public toVector3(): Vector3 {
+    return new Vector3().set(this.x, this.y, this.z);
+  }
+
+  /** Converts the homogeneous coordinate to a {@link Vector3} by dividing its xyz value by w */
+  public perspectiveDivide(): Vector3 {
+    return this.toVector3().div(this.w);
+  }
+
+  /** Converts the {@link Vector4} to a {@link Color}, reading xyzw as red, green, blue and alpha between 0 and 1 */
+  public toColor(): Color {
+    let [r, g, b, a] = this.toArray().map((c) => Math.round(Math.min(Math.max(c, 0), 1) * 255));
+    return Color.fromPacked((r << 24 | g << 16 | b << 8 | a) >>> 0);
+  }
+
+  /** Converts the {@link Vector4} to the versioned {@link Vector4JSON} schema, which {@link JSON.stringify} uses */
+  public toJSON(): Vector4JSON {
+    return {version: jsonVersion, type: "Vector4", x: this.x, y: this.y, z: this.z, w: this.w};
+  }
+
+  /** Creates a {@link Vector4} filled with zeros */
+  protected create(): Vector4 {
+    return new Vector4();
+  }
+
+  /**
+   * Creates a {@link Vector4} from the {@link Vector4JSON} schema
+   * @param json - Either a {@link Vector4JSON} or a string of it
+   */
+  public static fromJSON(json: Vector4JSON|string): Vector4 {
+    let [x, y, z, w] = readJSON(json, "Vector4", ["x", "y", "z", "w"], jsonVersion, InvalidVectorError);
+    return new Vector4().set(x, y, z, w);
+  }
+
+  /**
+   * Creates a {@link Vector4} from a {@link Vector2}
+   * @param v - The {@link Vector2} to be used as the xy value
+   * @param z - A number to be used as the z value
+   * @param w - A number to be used as the w value
+   */
+  public static fromVector2(v: Vector2, z: number = 0, w: number = 0): Vector4 {
+    return v.toVector4(z, w);
+  }
+
+  /**
+   * Creates a {@link Vector4} from a {@link Vector3}
+   * @param v - The {@link Vector3} to be used as the xyz value
+   * @param w - A number to be used as the w value, 1 for a point and 0 for a direction
+   */
+  public static fromVector3(v: Vector3, w: number = 0): Vector4 {
+    return v.toVector4(w);
+  }
+
+  /**
+   * Creates a {@link Vector4} from the channels of a {@link Color}
+   * @param color - The {@link Color} whose red, green, blue and alpha become xyzw between 0 and 1
+   */
+  public static fromColor(color: Color): Vector4 {
+    return new Vector4().set(color.red / 255, color.green / 255, color.blue / 255, color.alpha / 255);
+  }
+}
+
+/** A class representing a vector of any length, such as a feature vector */
+export class VectorN extends Vector<VectorN> {
+  /** The components of the vector */
+  public readonly components: Float64Array;
+
+  /**
+   * Creates a {@link VectorN}
+   * @param a - Either the number of components filled with zeros, the components or a {@link VectorN} to copy
+   */
+  public constructor(a: number|number[]|VectorN = 0) {
+    super();
+    if (typeof a === "number") this.components = new Float64Array(a);
+    else this.components = new Float64Array(a instanceof VectorN ? a.components : a);
+    checkComponents(Array.from(this.components));
+  }
+
+  /** The number of components */
+  public get dimensions(): number {
+    return this.components.length;
+  }
+
+  /**
+   * Finds a component by index
+   * @param i - The index of the component
+   */
+  public getComponent(i: number): number {
+    return this.components[i];
+  }
+
+  /**
+   * Sets a component by index
+   * @param i - The index of the component
+   * @param v - The number to be used as the component
+   */
+  public setComponent(i: number, v: number): this {
+    this.components[i] = v;
+    return this;
+  }
+
+  /**
+   * Sets every component of the {@link VectorN}
+   * @param components - The numbers to be used as the components, which must match the length
+   */
+  public set(components: number[]): this {
+    if (components.length != this.dimensions) throw new InvalidVectorError("Vector Dimensions Do Not Match.", components);
+    checkComponents(components);
+    this.components.set(components);
+    return this;
+  }
+
+  /** Creates a {@link VectorN} of the same length filled with zeros */
+  protected create(): VectorN {
+    return new VectorN(this.dimensions);
   }
 }